@@ -14,6 +14,13 @@ import { AuctionsModule } from './auctions/auctions.module';
 import { SupabaseModule } from './supabase/supabase.module';
 import { ChatModule } from './chat/chat.module';
 import { ArtisansModule } from './artisans/artisans.module';
+import { SchedulerModule } from './scheduler/scheduler.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { CartModule } from './cart/cart.module';
+import { ExchangeRatesModule } from './exchange-rates/exchange-rates.module';
+import { WalletModule } from './wallet/wallet.module';
+import { DisputesModule } from './disputes/disputes.module';
+import { DeliveryModule } from './delivery/delivery.module';
 
 @Module({
   imports: [
@@ -25,6 +32,16 @@ import { ArtisansModule } from './artisans/artisans.module';
         SUPABASE_ANON_KEY: Joi.string().required(),
         SUPABASE_SERVICE_ROLE_KEY: Joi.string().required(),
         CHAT_WS_PORT: Joi.number().default(3005),
+        SCHEDULER_ENABLED: Joi.boolean().default(true),
+        SCHEDULER_TICK_MS: Joi.number().default(5000),
+        ESCROW_AUTO_RELEASE_DAYS: Joi.number().default(7),
+        PLATFORM_FEE_PERCENT: Joi.number().min(0).max(100).default(0),
+        MOBILE_MONEY_MODE: Joi.string().valid('live', 'simulator').default('live'),
+        MOBILE_MONEY_TIMEOUT_MINUTES: Joi.number().default(5),
+        PAYMENTS_CALLBACK_BASE_URL: Joi.string().optional(),
+        ECOCASH_WEBHOOK_SECRET: Joi.string().optional(),
+        ONEMONEY_WEBHOOK_SECRET: Joi.string().optional(),
+        TELECASH_WEBHOOK_SECRET: Joi.string().optional(),
       }),
     }),
     JwtModule.registerAsync({
@@ -47,6 +64,13 @@ import { ArtisansModule } from './artisans/artisans.module';
     SupabaseModule,
     ChatModule,
     ArtisansModule,
+    SchedulerModule,
+    NotificationsModule,
+    CartModule,
+    ExchangeRatesModule,
+    WalletModule,
+    DisputesModule,
+    DeliveryModule,
   ],
 })
 export class AppModule {}
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+import { Auction } from './entities/auction.entity';
+
+export type AuctionEventType =
+  | 'bid_placed'
+  | 'bid_removed'
+  | 'outbid'
+  | 'auction_extended'
+  | 'auction_ending_soon'
+  | 'auction_ended';
+
+export interface AuctionEvent {
+  type: AuctionEventType;
+  auction_id: string;
+  // Enriched auction snapshot (current_bid, bid_count, time_remaining...)
+  auction: Auction;
+  occurred_at: string;
+  [key: string]: any;
+}
+
+// In-process event stream for auction changes. AuctionsService publishes;
+// anything that needs to tell watchers about an auction subscribes.
+@Injectable()
+export class AuctionEventsService {
+  private readonly subject = new Subject<AuctionEvent>();
+
+  get events$(): Observable<AuctionEvent> {
+    return this.subject.asObservable();
+  }
+
+  emit(
+    type: AuctionEventType,
+    auction: Auction,
+    details: Record<string, any> = {},
+  ): void {
+    this.subject.next({
+      ...details,
+      type,
+      auction_id: auction.id,
+      auction,
+      occurred_at: new Date().toISOString(),
+    });
+  }
+}
@@ -0,0 +1,63 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { AuctionsService } from './auctions.service';
+
+// Registers the recurring jobs that move auctions through their lifecycle.
+// The scheduler takes care of locking, so each job runs on one instance.
+@Injectable()
+export class AuctionLifecycleService implements OnModuleInit {
+  constructor(
+    private readonly schedulerService: SchedulerService,
+    private readonly auctionsService: AuctionsService,
+  ) {}
+
+  onModuleInit() {
+    this.schedulerService.register({
+      name: 'auctions.start-scheduled',
+      intervalMs: 60 * 1000,
+      handler: async (now) => ({
+        started: await this.auctionsService.startScheduledAuctions(now),
+      }),
+    });
+
+    this.schedulerService.register({
+      name: 'auctions.end-expired',
+      intervalMs: 60 * 1000,
+      handler: async (now) => ({
+        ended: await this.auctionsService.checkAndEndExpiredAuctions(now),
+      }),
+    });
+
+    this.schedulerService.register({
+      name: 'auctions.release-unpaid-wins',
+      intervalMs: 5 * 60 * 1000,
+      handler: async (now) => ({
+        released: await this.auctionsService.releaseUnpaidAuctionWins(now),
+      }),
+    });
+
+    this.schedulerService.register({
+      name: 'auctions.create-missing-winner-orders',
+      intervalMs: 5 * 60 * 1000,
+      handler: async (now) => ({
+        created: await this.auctionsService.createMissingWinnerOrders(now),
+      }),
+    });
+
+    this.schedulerService.register({
+      name: 'auctions.second-chance-fallback',
+      intervalMs: 5 * 60 * 1000,
+      handler: async () => ({
+        offered: await this.auctionsService.continueSecondChanceFallbacks(),
+      }),
+    });
+
+    this.schedulerService.register({
+      name: 'auctions.ending-soon-reminders',
+      intervalMs: 5 * 60 * 1000,
+      handler: async (now) => ({
+        reminded: await this.auctionsService.sendEndingSoonReminders(now),
+      }),
+    });
+  }
+}
@@ -0,0 +1,99 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { NotificationsService } from '../notifications/notifications.service';
+import { AuctionsService } from './auctions.service';
+import { AuctionEvent, AuctionEventsService } from './auction-events.service';
+import { Auction } from './entities/auction.entity';
+
+// Turns auction events into stored notifications for bidders and watchers
+@Injectable()
+export class AuctionNotificationsService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private subscription: Subscription | null = null;
+
+  constructor(
+    private readonly auctionEvents: AuctionEventsService,
+    private readonly auctionsService: AuctionsService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  onModuleInit() {
+    this.subscription = this.auctionEvents.events$.subscribe((event) => {
+      this.handle(event).catch((error) =>
+        console.error(
+          `Failed to send ${event.type} notifications for auction ${event.auction_id}:`,
+          error,
+        ),
+      );
+    });
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  private async handle(event: AuctionEvent): Promise<void> {
+    const { auction } = event;
+    const data = { auction_id: auction.id, listing_id: auction.listing_id };
+
+    switch (event.type) {
+      case 'outbid':
+        return this.notificationsService.notifyUsers([event.bidder_id], {
+          type: 'outbid',
+          title: 'You have been outbid',
+          message: `The current bid on ${this.describe(auction)} is now ${this.price(auction)}.`,
+          data,
+        });
+
+      case 'auction_ending_soon':
+        return this.notificationsService.notifyUsers(
+          await this.auctionsService.getAuctionWatcherIds(auction.id),
+          {
+            type: 'auction_ending_soon',
+            title: 'A watched auction is ending soon',
+            message: `${this.capitalize(this.describe(auction))} ends in ${auction.minutes_remaining} minutes.`,
+            data,
+          },
+        );
+
+      case 'auction_ended': {
+        const bidderIds = await this.auctionsService.getAuctionBidderIds(
+          auction.id,
+        );
+        const winnerId = auction.winning_bidder_id;
+
+        if (winnerId) {
+          await this.notificationsService.notifyUsers([winnerId], {
+            type: 'auction_won',
+            title: 'You won the auction',
+            message: `You won ${this.describe(auction)} for ${this.price(auction)}.`,
+            data: { ...data, order_id: auction.winner_order_id },
+          });
+        }
+
+        return this.notificationsService.notifyUsers(
+          bidderIds.filter((id) => id !== winnerId),
+          {
+            type: 'auction_lost',
+            title: 'Auction ended',
+            message: `${this.capitalize(this.describe(auction))} has ended and you did not win.`,
+            data,
+          },
+        );
+      }
+    }
+  }
+
+  private describe(auction: Auction): string {
+    return auction.listing?.title ? `"${auction.listing.title}"` : 'an auction';
+  }
+
+  private price(auction: Auction): string {
+    return `$${(auction.current_bid ?? 0).toFixed(2)}`;
+  }
+
+  private capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+}
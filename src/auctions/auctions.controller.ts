@@ -1,4 +1,4 @@
-import { Controller, Get, Post, Put, Body, Param, UseGuards, HttpCode, HttpStatus, Query, DefaultValuePipe, ParseIntPipe, ParseBoolPipe, BadRequestException } from '@nestjs/common';
+import { Controller, Get, Post, Put, Delete, Body, Param, UseGuards, HttpCode, HttpStatus, Query, DefaultValuePipe, ParseIntPipe, ParseBoolPipe, BadRequestException } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam, ApiQuery } from '@nestjs/swagger';
 import { AuctionsService } from './auctions.service';
 import { Auction } from './entities/auction.entity';
@@ -6,6 +6,11 @@ import { Bid } from './entities/bid.entity';
 import { SupabaseGuard } from '../auth/supabase.guard';
 import { User } from '../common/decorators/user.decorator';
 import { PlaceBidDto } from './dto/place-bid.dto';
+import { BuyNowDto } from './dto/buy-now.dto';
+import { CreateSecondChanceOfferDto } from './dto/second-chance-offer.dto';
+import { RemoveBidDto } from './dto/remove-bid.dto';
+import { SecondChanceOffer } from './entities/second-chance-offer.entity';
+import { Order } from '../orders/entities/order.entity';
 
 @ApiTags('auctions')
 @Controller('auctions')
@@ -103,12 +108,16 @@ export class AuctionsController {
   @Post(':id/bids')
   @UseGuards(SupabaseGuard)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Place a bid on an auction' })
+  @ApiOperation({
+    summary: 'Place a bid on an auction',
+    description: 'Send bid_amount for a plain bid, or max_bid_amount to proxy bid: the system bids the minimum increment for you against competing bids, up to your maximum'
+  })
   @ApiParam({ name: 'id', description: 'Auction ID', example: '123e4567-e89b-12d3-a456-426614174000' })
   @ApiResponse({ status: 201, description: 'Bid placed successfully', type: Bid })
   @ApiResponse({ status: 400, description: 'Bid amount too low or invalid' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 404, description: 'Auction not found or not active' })
+  @ApiResponse({ status: 409, description: 'Another bid was accepted first; response carries the new current_bid' })
   @HttpCode(HttpStatus.CREATED)
   async placeBid(
     @Param('id') auctionId: string,
@@ -123,7 +132,8 @@ export class AuctionsController {
       auctionId, 
       user.id, 
       placeBidDto.bid_amount,
-      placeBidDto.currency || 'USD'
+      placeBidDto.currency || 'USD',
+      placeBidDto.max_bid_amount
     ); 
   }
 
@@ -136,24 +146,147 @@ export class AuctionsController {
     return this.auctionsService.getAuctionBids(auctionId);
   }
 
+  @Post(':id/bids/:bidId/retract')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Retract your bid',
+    description: 'Only within 60 minutes of placing it and not in the final hour. The current bid is recalculated from the remaining bids.',
+  })
+  @ApiParam({ name: 'id', description: 'Auction ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @ApiParam({ name: 'bidId', description: 'Bid ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @ApiResponse({ status: 201, description: 'Bid retracted', type: Auction })
+  @ApiResponse({ status: 400, description: 'Retraction window passed, auction ending or bid already removed' })
+  @ApiResponse({ status: 403, description: 'Not your bid' })
+  @ApiResponse({ status: 404, description: 'Auction or bid not found' })
+  async retractBid(
+    @Param('id') auctionId: string,
+    @Param('bidId') bidId: string,
+    @User() user: any,
+    @Body() removeBidDto: RemoveBidDto
+  ): Promise<Auction> {
+    return this.auctionsService.retractBid(auctionId, bidId, user.id, removeBidDto.reason);
+  }
+
+  @Post(':id/bids/:bidId/cancel')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Cancel a bid on your auction (seller)',
+    description: 'The current bid is recalculated from the remaining bids.',
+  })
+  @ApiParam({ name: 'id', description: 'Auction ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @ApiParam({ name: 'bidId', description: 'Bid ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @ApiResponse({ status: 201, description: 'Bid cancelled', type: Auction })
+  @ApiResponse({ status: 400, description: 'Auction not active or bid already removed' })
+  @ApiResponse({ status: 403, description: 'Not the seller' })
+  @ApiResponse({ status: 404, description: 'Auction or bid not found' })
+  async cancelBid(
+    @Param('id') auctionId: string,
+    @Param('bidId') bidId: string,
+    @User() user: any,
+    @Body() removeBidDto: RemoveBidDto
+  ): Promise<Auction> {
+    return this.auctionsService.cancelBid(auctionId, bidId, user.id, removeBidDto.reason);
+  }
+
+  @Post(':id/buy-now')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Buy It Now', description: 'Ends the auction immediately at its buy_now_price and creates an order for the buyer' })
+  @ApiParam({ name: 'id', description: 'Auction ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @ApiResponse({ status: 201, description: 'Auction ended and order created' })
+  @ApiResponse({ status: 400, description: 'Buy It Now not available' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Auction not found' })
+  @ApiResponse({ status: 409, description: 'A bid was accepted first' })
+  @HttpCode(HttpStatus.CREATED)
+  async buyNow(
+    @Param('id') auctionId: string,
+    @User() user: any,
+    @Body() buyNowDto: BuyNowDto
+  ): Promise<{ auction: Auction; order: Order }> {
+    if (!user || !user.id) {
+      throw new BadRequestException('User not authenticated');
+    }
+    return this.auctionsService.buyNow(auctionId, user.id, buyNowDto);
+  }
+
+  @Post(':id/second-chance-offers')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Make a second-chance offer (seller only)', description: 'Offer an auction that ended unsold to a bidder at their highest bid' })
+  @ApiParam({ name: 'id', description: 'Auction ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @ApiResponse({ status: 201, description: 'Offer created', type: SecondChanceOffer })
+  @ApiResponse({ status: 400, description: 'Auction did not end unsold or no eligible bidder' })
+  @ApiResponse({ status: 403, description: 'Not the seller' })
+  @HttpCode(HttpStatus.CREATED)
+  async createSecondChanceOffer(
+    @Param('id') auctionId: string,
+    @User() user: any,
+    @Body() offerDto: CreateSecondChanceOfferDto
+  ): Promise<SecondChanceOffer> {
+    return this.auctionsService.createSecondChanceOffer(auctionId, user.id, offerDto.bidder_id);
+  }
+
+  @Get('user/second-chance-offers')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get second-chance offers made to the user' })
+  @ApiResponse({ status: 200, description: 'List of offers', type: [SecondChanceOffer] })
+  async getMySecondChanceOffers(@User() user: any): Promise<SecondChanceOffer[]> {
+    return this.auctionsService.getUserSecondChanceOffers(user.id);
+  }
+
+  @Put('second-chance-offers/:offerId/accept')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Accept a second-chance offer', description: 'Creates an order at the offer price' })
+  @ApiParam({ name: 'offerId', description: 'Offer ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @ApiResponse({ status: 200, description: 'Offer accepted and order created' })
+  @ApiResponse({ status: 404, description: 'Offer not found, already answered or expired' })
+  async acceptSecondChanceOffer(
+    @Param('offerId') offerId: string,
+    @User() user: any,
+    @Body() buyNowDto: BuyNowDto
+  ): Promise<{ offer: SecondChanceOffer; order?: Order }> {
+    return this.auctionsService.respondToSecondChanceOffer(offerId, user.id, true, buyNowDto);
+  }
+
+  @Put('second-chance-offers/:offerId/decline')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Decline a second-chance offer' })
+  @ApiParam({ name: 'offerId', description: 'Offer ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @ApiResponse({ status: 200, description: 'Offer declined' })
+  @ApiResponse({ status: 404, description: 'Offer not found, already answered or expired' })
+  async declineSecondChanceOffer(
+    @Param('offerId') offerId: string,
+    @User() user: any
+  ): Promise<{ offer: SecondChanceOffer }> {
+    return this.auctionsService.respondToSecondChanceOffer(offerId, user.id, false);
+  }
+
   @Put(':id/end')
   @UseGuards(SupabaseGuard)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'End an auction' })
+  @ApiOperation({ summary: 'End an auction now (seller or admin)' })
   @ApiParam({ name: 'id', description: 'Auction ID', example: '123e4567-e89b-12d3-a456-426614174000' })
-  @ApiResponse({ status: 200, description: 'Auction ended successfully', type: Auction })
+  @ApiResponse({ status: 200, description: 'Auction ended (or already ended)', type: Auction })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Only the seller or an admin can end the auction' })
   @ApiResponse({ status: 404, description: 'Auction not found' })
   async endAuction(
-    @Param('id') auctionId: string
+    @Param('id') auctionId: string,
+    @User() user: any
   ): Promise<Auction> {
-    return this.auctionsService.endAuction(auctionId);
+    return this.auctionsService.endAuction(auctionId, user.id);
   }
 
   @Get('user/my-bids')
   @UseGuards(SupabaseGuard)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Get auctions the user has bid on' })
+  @ApiOperation({ summary: 'Get auctions the user has bid on', description: 'Each auction includes user_bid_status (leading, outbid, won, lost)' })
   @ApiResponse({ status: 200, description: 'List of auctions with user bids', type: [Auction] })
   async getUserBidAuctions(@User() user: any): Promise<Auction[]> {
     if (!user || !user.id) {
@@ -162,6 +295,44 @@ export class AuctionsController {
     return this.auctionsService.getUserBidAuctions(user.id);
   }
 
+  @Get('user/watching')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get auctions the user is watching' })
+  @ApiResponse({ status: 200, description: 'List of watched auctions', type: [Auction] })
+  async getWatchedAuctions(@User() user: any): Promise<Auction[]> {
+    return this.auctionsService.getWatchedAuctions(user.id);
+  }
+
+  @Post(':id/watch')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Watch an auction', description: 'Watchers are notified when the auction is ending soon' })
+  @ApiParam({ name: 'id', description: 'Auction ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @ApiResponse({ status: 204, description: 'Auction watched' })
+  @ApiResponse({ status: 404, description: 'Auction not found' })
+  async watchAuction(
+    @Param('id') auctionId: string,
+    @User() user: any
+  ): Promise<void> {
+    return this.auctionsService.watchAuction(auctionId, user.id);
+  }
+
+  @Delete(':id/watch')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Stop watching an auction' })
+  @ApiParam({ name: 'id', description: 'Auction ID', example: '123e4567-e89b-12d3-a456-426614174000' })
+  @ApiResponse({ status: 204, description: 'Auction no longer watched' })
+  async unwatchAuction(
+    @Param('id') auctionId: string,
+    @User() user: any
+  ): Promise<void> {
+    return this.auctionsService.unwatchAuction(auctionId, user.id);
+  }
+
   @Get('user/my-auctions')
   @UseGuards(SupabaseGuard)
   @ApiBearerAuth()
@@ -0,0 +1,120 @@
+import {
+  WebSocketGateway,
+  WebSocketServer,
+  SubscribeMessage,
+  OnGatewayConnection,
+  MessageBody,
+  ConnectedSocket,
+} from '@nestjs/websockets';
+import { OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { Server, Socket } from 'socket.io';
+import { Subscription } from 'rxjs';
+import { AuthService } from '../auth/auth.service';
+import { AuctionsService } from './auctions.service';
+import { AuctionEvent, AuctionEventsService } from './auction-events.service';
+import { Auction } from './entities/auction.entity';
+
+// Live auction updates. Clients join a room per auction page instead of
+// polling GET /auctions/:id; "outbid" only goes to the bidder concerned.
+@WebSocketGateway({
+  cors: { origin: '*' },
+  namespace: '/auctions',
+})
+export class AuctionsGateway
+  implements OnGatewayConnection, OnModuleInit, OnModuleDestroy
+{
+  @WebSocketServer() server: Server;
+  private subscription: Subscription | null = null;
+
+  constructor(
+    private readonly auctionsService: AuctionsService,
+    private readonly auctionEvents: AuctionEventsService,
+    private readonly authService: AuthService,
+  ) {}
+
+  onModuleInit() {
+    this.subscription = this.auctionEvents.events$.subscribe((event) =>
+      this.broadcast(event),
+    );
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  // Anyone can watch an auction; only a signed-in user (access token in the
+  // handshake auth or Authorization header) gets their own room for "outbid"
+  async handleConnection(client: Socket) {
+    const token = this.extractToken(client);
+    if (!token) {
+      return;
+    }
+
+    try {
+      const user = await this.authService.getUserByToken(token);
+      await client.join(`user_${user.id}`);
+    } catch {
+      client.disconnect(true);
+    }
+  }
+
+  @SubscribeMessage('join_auction')
+  async handleJoinAuction(
+    @MessageBody() data: { auction_id: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    // Fails with "Auction not found" before the client is put in the room
+    const auction = await this.auctionsService.findById(data.auction_id);
+
+    await client.join(`auction_${data.auction_id}`);
+
+    // Acknowledged with the current state, so the page can render immediately
+    return this.toPayload(auction, { auction_id: auction.id });
+  }
+
+  @SubscribeMessage('leave_auction')
+  async handleLeaveAuction(
+    @MessageBody() data: { auction_id: string },
+    @ConnectedSocket() client: Socket,
+  ) {
+    await client.leave(`auction_${data.auction_id}`);
+  }
+
+  private extractToken(client: Socket): string | null {
+    const token = client.handshake.auth?.token as string | undefined;
+    if (token) {
+      return token.startsWith('Bearer ') ? token.substring(7) : token;
+    }
+
+    const authHeader = client.handshake.headers.authorization;
+    if (authHeader && authHeader.startsWith('Bearer ')) {
+      return authHeader.substring(7);
+    }
+
+    return null;
+  }
+
+  private broadcast(event: AuctionEvent) {
+    const { auction, ...details } = event;
+    const payload = this.toPayload(auction, details);
+
+    if (event.type === 'outbid') {
+      this.server.to(`user_${event.bidder_id}`).emit('outbid', payload);
+      return;
+    }
+
+    this.server.to(`auction_${event.auction_id}`).emit(event.type, payload);
+  }
+
+  private toPayload(auction: Auction, details: Record<string, any>) {
+    return {
+      ...details,
+      current_bid: auction.current_bid,
+      bid_count: auction.bid_count,
+      time_remaining: auction.time_remaining,
+      ending_soon: auction.ending_soon,
+      auction_end: auction.auction_end,
+      status: auction.status,
+    };
+  }
+}
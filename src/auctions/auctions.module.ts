@@ -2,14 +2,28 @@
 import { Module } from '@nestjs/common';
 import { AuctionsService } from './auctions.service';
 import { AuctionsController } from './auctions.controller';
+import { AuctionEventsService } from './auction-events.service';
+import { AuctionLifecycleService } from './auction-lifecycle.service';
+import { AuctionsGateway } from './auctions.gateway';
+import { AuctionNotificationsService } from './auction-notifications.service';
 import { Auction } from './entities/auction.entity';
 import { Bid } from './entities/bid.entity';
 import { SupabaseModule } from 'src/supabase/supabase.module';
+import { OrdersModule } from '../orders/orders.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { SchedulerModule } from '../scheduler/scheduler.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
-  imports: [SupabaseModule],
-  providers: [AuctionsService],
+  imports: [SupabaseModule, OrdersModule, PaymentsModule, SchedulerModule, NotificationsModule],
+  providers: [
+    AuctionsService,
+    AuctionEventsService,
+    AuctionLifecycleService,
+    AuctionsGateway,
+    AuctionNotificationsService,
+  ],
   controllers: [AuctionsController],
-  exports: [AuctionsService],
+  exports: [AuctionsService, AuctionEventsService],
 })
 export class AuctionsModule {}
\ No newline at end of file
@@ -1,13 +1,36 @@
-import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
 import { SupabaseService } from '../supabase/supabase.service';
 import { Auction } from './entities/auction.entity';
 import { Bid } from './entities/bid.entity';
+import { SecondChanceOffer } from './entities/second-chance-offer.entity';
+import { BidAuditEntry } from './entities/bid-audit-entry.entity';
+import { BuyNowDto } from './dto/buy-now.dto';
+import { OrdersService } from '../orders/orders.service';
+import { PaymentsService } from '../payments/payments.service';
+import { Order } from '../orders/entities/order.entity';
 import { v4 as uuidv4 } from 'uuid';
+import { minimumIncrement, minimumNextBid, resolveProxyBids } from './proxy-bidding';
+import { getSoftCloseExtension } from './soft-close';
+import { AuctionEventsService } from './auction-events.service';
 
 @Injectable()
 export class AuctionsService {
+  // How long a bidder has to accept a second-chance offer
+  private readonly SECOND_CHANCE_OFFER_HOURS = 48;
+  // How long an auction winner has to pay before the next bidder gets an offer
+  private readonly WINNER_PAYMENT_HOURS = 48;
+  // How long after an auction ended a missing winner order is created again
+  private readonly WINNER_ORDER_RETRY_MINUTES = 10;
+  // Auctions with less than this left are "ending soon"
+  private readonly ENDING_SOON_MS = 3600000;
+  // How long after placing it a bidder may retract a bid
+  private readonly BID_RETRACTION_WINDOW_MINUTES = 60;
+
   constructor(
-    private readonly supabaseService: SupabaseService 
+    private readonly supabaseService: SupabaseService,
+    private readonly auctionEvents: AuctionEventsService,
+    private readonly ordersService: OrdersService,
+    private readonly paymentsService: PaymentsService,
   ) {}
 
   async findById(id: string): Promise<Auction> {
@@ -29,17 +52,7 @@ export class AuctionsService {
       throw new NotFoundException('Auction not found');
     }
 
-    // Calculate time remaining
-    const now = new Date();
-    const endTime = new Date(auction.auction_end);
-    const timeRemaining = Math.max(0, endTime.getTime() - now.getTime());
-    
-    return {
-      ...auction,
-      time_remaining: timeRemaining,
-      ending_soon: timeRemaining < 3600000, // Less than 1 hour
-      is_expired: timeRemaining === 0,
-    };
+    return this.enrichAuctionData(auction);
   }
 
   async findByListingId(listingId: string): Promise<Auction> {
@@ -166,7 +179,13 @@ export class AuctionsService {
     };
   }
 
-  async placeBid(auctionId: string, bidderId: string, bidAmount: number, currency: string = 'USD'): Promise<Bid> {
+  async placeBid(
+    auctionId: string,
+    bidderId: string,
+    bidAmount: number | undefined,
+    currency: string = 'USD',
+    maxBidAmount?: number,
+  ): Promise<Bid> {
     const supabase = this.supabaseService.getClient();
     
     // Get auction details
@@ -179,6 +198,12 @@ export class AuctionsService {
         starting_price,
         bid_count, 
         listing_id,
+        winning_bidder_id,
+        soft_close_window_minutes,
+        soft_close_extension_minutes,
+        max_extensions,
+        extension_count,
+        reserve_price,
         listing:listings (seller_id)
       `)
       .eq('id', auctionId)
@@ -205,70 +230,196 @@ export class AuctionsService {
       throw new BadRequestException('You cannot bid on your own auction');
     }
 
+    if (bidAmount !== undefined && maxBidAmount !== undefined && bidAmount > maxBidAmount) {
+      throw new BadRequestException('Bid amount cannot be higher than your maximum bid');
+    }
+
+    // The most this bidder will pay: their proxy maximum, or the plain bid amount
+    const bidderMax = maxBidAmount ?? bidAmount;
+
+    if (bidderMax === undefined) {
+      throw new BadRequestException('Either bid_amount or max_bid_amount is required');
+    }
+
     // Calculate minimum bid
     const currentBid = auction.current_bid || auction.starting_price;
-    const minIncrement = Math.max(currentBid * 0.05, 1); // 5% minimum increment or $1
+    const minIncrement = minimumIncrement(currentBid);
     
-    if (bidAmount <= currentBid) {
+    if (bidderMax <= currentBid) {
       throw new BadRequestException(`Bid must be higher than current bid ($${currentBid.toFixed(2)})`);
     }
 
-    if (bidAmount < currentBid + minIncrement) {
+    if (bidderMax < currentBid + minIncrement) {
       throw new BadRequestException(`Bid must increase by at least $${minIncrement.toFixed(2)}`);
     }
 
-    // Start transaction (Supabase doesn't have explicit transactions, but we'll handle it)
-    try {
-      // Create the bid (you need a bids table)
-      const bidId = uuidv4();
-      const { data: bid, error: bidError } = await supabase
-        .from('bids') // Assuming you have a bids table
-        .insert({
-          id: bidId,
-          auction_id: auctionId,
-          bidder_id: bidderId,
-          bid_amount: bidAmount,
-          bid_currency: currency || 'USD',
-          bid_time: new Date().toISOString(),
-          is_winning: false,
-        })
-        .select()
-        .single();
-
-      if (bidError) {
-        console.warn('Bids table not found, updating auction only');
-      }
+    const currentBidCount = auction.bid_count || 0;
+    const leaderId: string | null = currentBidCount > 0 ? auction.winning_bidder_id : null;
 
-      const currentBidCount = auction.bid_count || 0;
+    // The leader raising their own maximum does not create a visible bid
+    if (maxBidAmount !== undefined && leaderId === bidderId) {
+      await this.saveProxyBid(auctionId, bidderId, maxBidAmount, currency, true);
+      return this.getLeadingBid(auctionId, bidderId, maxBidAmount);
+    }
 
-      // Update auction current bid and bid count
-      const { error: updateError } = await supabase
-        .from('auctions')
-        .update({
-          current_bid: bidAmount,
-          bid_count: currentBidCount + 1,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', auctionId);
-
-      if (updateError) {
-        throw new BadRequestException(`Failed to update auction: ${updateError.message}`);
-      }
+    const leaderProxy = leaderId ? await this.getActiveProxyBid(auctionId, leaderId) : null;
+
+    const steps = resolveProxyBids({
+      currentBid,
+      leader: leaderId ? { bidderId: leaderId, maxAmount: leaderProxy?.max_amount } : null,
+      bidder: { bidderId, bidAmount, maxAmount: maxBidAmount },
+    });
+    const leadingStep = steps[steps.length - 1];
+
+    // A bid inside the soft-close window pushes the end time out (anti-sniping)
+    const extension = getSoftCloseExtension(auction, new Date());
+
+    // Claim the new price on the auction row first. The update only matches if
+    // nobody else has bid since we read the auction, so concurrent bidders
+    // cannot both win the same increment or lose bid_count updates.
+    const claimed = await this.updateAuctionIfUnchanged(auctionId, auction, {
+      current_bid: leadingStep.bid_amount,
+      bid_count: currentBidCount + steps.length,
+      winning_bidder_id: leadingStep.bidder_id,
+      reserve_met: auction.reserve_price === null || auction.reserve_price === undefined ||
+        leadingStep.bid_amount >= auction.reserve_price,
+      ...extension,
+    });
+
+    if (!claimed) {
+      throw await this.buildStaleBidException(auctionId);
+    }
 
-      return {
-        id: bid.id,
-        auction_id: bid.auction_id,
-        bidder_id: bid.bidder_id,
-        bid_amount: bid.bid_amount,
-        bid_currency: bid.bid_currency,
-        bid_time: bid.bid_time,
-        is_winning: bid.is_winning,
+    // Record every step, including auto-bids, in the order they happened
+    const bidTime = Date.now();
+    const { data: bids, error: bidError } = await supabase
+      .from('bids')
+      .insert(steps.map((step, index) => ({
+        id: uuidv4(),
+        auction_id: auctionId,
+        bidder_id: step.bidder_id,
+        bid_amount: step.bid_amount,
+        bid_currency: currency || 'USD',
+        bid_time: new Date(bidTime + index).toISOString(),
+        is_winning: step === leadingStep,
+        is_auto: step.is_auto,
         status: 'active',
-      } as Bid;
-      
-    } catch (error) {
-      throw new BadRequestException(`Failed to place bid: ${error.message}`);
+      })))
+      .select();
+
+    if (bidError || !bids || bids.length === 0) {
+      // Rollback: give the auction back its previous price, unless another
+      // bid has already been accepted on top of ours
+      await this.updateAuctionIfUnchanged(auctionId, claimed, {
+        current_bid: auction.current_bid,
+        bid_count: auction.bid_count,
+        winning_bidder_id: auction.winning_bidder_id,
+        ...(extension && {
+          auction_end: auction.auction_end,
+          extension_count: auction.extension_count,
+        }),
+      });
+
+      throw new BadRequestException(`Failed to place bid: ${bidError?.message}`);
+    }
+
+    const winningBid = bids.find(b => b.is_winning) || bids[bids.length - 1];
+
+    // The previous leader is no longer winning. Only lower bids are reset: a
+    // bid accepted after ours is always higher and keeps its flag.
+    await supabase
+      .from('bids')
+      .update({ is_winning: false })
+      .eq('auction_id', auctionId)
+      .lt('bid_amount', winningBid.bid_amount);
+
+    // Keep proxies in step: the bidder's maximum is stored (and exhausted if it
+    // was already beaten), and a leader who was overtaken has spent theirs
+    if (maxBidAmount !== undefined) {
+      await this.saveProxyBid(auctionId, bidderId, maxBidAmount, currency, leadingStep.bidder_id === bidderId);
+    }
+
+    if (leaderProxy && leadingStep.bidder_id !== leaderId) {
+      await supabase
+        .from('proxy_bids')
+        .update({ is_active: false, updated_at: new Date().toISOString() })
+        .eq('id', leaderProxy.id);
+    }
+
+    const snapshot = this.enrichAuctionData(claimed);
+
+    this.auctionEvents.emit('bid_placed', snapshot, {
+      bidder_id: leadingStep.bidder_id,
+      bid_amount: leadingStep.bid_amount,
+      is_auto: leadingStep.is_auto,
+    });
+
+    // Whoever is not leading after this bid was outbid: the previous leader,
+    // or the bidder themselves when a proxy beat them straight away
+    const outbidIds = [leaderId, bidderId].filter(
+      (id): id is string => !!id && id !== leadingStep.bidder_id,
+    );
+    for (const outbidId of new Set(outbidIds)) {
+      this.auctionEvents.emit('outbid', snapshot, { bidder_id: outbidId });
+    }
+
+    if (extension) {
+      this.auctionEvents.emit('auction_extended', snapshot, {
+        previous_end: auction.auction_end,
+        auction_end: extension.auction_end,
+        extension_count: extension.extension_count,
+      });
+    }
+
+    const ownBid = [...bids].reverse().find(b => b.bidder_id === bidderId) || winningBid;
+
+    return {
+      id: ownBid.id,
+      auction_id: ownBid.auction_id,
+      bidder_id: ownBid.bidder_id,
+      bid_amount: ownBid.bid_amount,
+      bid_currency: ownBid.bid_currency,
+      bid_time: ownBid.bid_time,
+      is_winning: ownBid.is_winning,
+      is_auto: ownBid.is_auto,
+      max_bid_amount: maxBidAmount,
+      status: ownBid.is_winning ? 'winning' : 'outbid',
+    } as Bid;
+  }
+
+  // A bidder may take back a bid placed by mistake, but only shortly after
+  // placing it and never once the auction is in its final hour
+  async retractBid(auctionId: string, bidId: string, bidderId: string, reason: string): Promise<Auction> {
+    const { auction, bid } = await this.getBidForRemoval(auctionId, bidId);
+
+    if (bid.bidder_id !== bidderId) {
+      throw new ForbiddenException('You can only retract your own bids');
+    }
+
+    const now = Date.now();
+
+    if (now - new Date(bid.bid_time).getTime() > this.BID_RETRACTION_WINDOW_MINUTES * 60000) {
+      throw new BadRequestException(`Bids can only be retracted within ${this.BID_RETRACTION_WINDOW_MINUTES} minutes of being placed`);
+    }
+
+    if (new Date(auction.auction_end).getTime() - now < this.ENDING_SOON_MS) {
+      throw new BadRequestException('Bids cannot be retracted in the final hour of an auction');
+    }
+
+    return this.removeBid(auctionId, bid, bidderId, 'retracted', reason);
+  }
+
+  // The seller may cancel any bid on their own auction while it is running
+  async cancelBid(auctionId: string, bidId: string, sellerId: string, reason: string): Promise<Auction> {
+    const { auction, bid } = await this.getBidForRemoval(auctionId, bidId);
+
+    const listing = Array.isArray(auction.listing) ? auction.listing[0] : auction.listing;
+
+    if (!listing || listing.seller_id !== sellerId) {
+      throw new ForbiddenException('Only the seller can cancel bids on this auction');
     }
+
+    return this.removeBid(auctionId, bid, sellerId, 'cancelled', reason);
   }
 
   async getAuctionBids(auctionId: string): Promise<Bid[]> {
@@ -289,6 +440,18 @@ export class AuctionsService {
         return [];
       }
 
+      // Retractions and cancellations, attached to the bids they removed
+      const { data: auditEntries } = await supabase
+        .from('bid_audit_log')
+        .select('*')
+        .eq('auction_id', auctionId)
+        .order('created_at', { ascending: true });
+
+      const auditByBid = new Map<string, BidAuditEntry[]>();
+      for (const entry of auditEntries || []) {
+        auditByBid.set(entry.bid_id, [...(auditByBid.get(entry.bid_id) || []), entry]);
+      }
+
       return (bids || []).map(bid => ({
         id: bid.id,
         auction_id: bid.auction_id,
@@ -297,7 +460,11 @@ export class AuctionsService {
         bid_currency: bid.bid_currency,
         bid_time: bid.bid_time,
         is_winning: bid.is_winning,
-        status: bid.is_winning ? 'winning' : 'active', // Derive status from is_winning
+        is_auto: bid.is_auto,
+        status: bid.status === 'retracted' || bid.status === 'cancelled'
+          ? bid.status
+          : bid.is_winning ? 'winning' : 'active', // Derive status from is_winning
+        audit_log: auditByBid.get(bid.id) || [],
         bidder: bid.bidder,
         created_at: bid.created_at,
       }));
@@ -308,10 +475,52 @@ export class AuctionsService {
     }
   }
 
-  async endAuction(auctionId: string): Promise<Auction> {
+  // userId is set when a user asks to end the auction early (seller or admin
+  // only); the scheduler ends expired auctions without one
+  async endAuction(auctionId: string, userId?: string): Promise<Auction> {
     const supabase = this.supabaseService.getClient();
-    
-    // Get auction and highest bid
+
+    const { data: existing } = await supabase
+      .from('auctions')
+      .select(`
+        *,
+        listing:listings (*)
+      `)
+      .eq('id', auctionId)
+      .single();
+
+    if (!existing) {
+      throw new NotFoundException('Auction not found');
+    }
+
+    if (userId) {
+      const listing = Array.isArray(existing.listing) ? existing.listing[0] : existing.listing;
+
+      if (listing?.seller_id !== userId && !(await this.isAdmin(userId))) {
+        throw new ForbiddenException('Only the seller or an admin can end this auction');
+      }
+    }
+
+    // Claim the auction so it is only ended once, even if the scheduler and a
+    // user end it at the same time. Auctions already ended (by buy-now, an
+    // earlier run or a released win) are returned unchanged.
+    const { data: claimed, error: claimError } = await supabase
+      .from('auctions')
+      .update({ status: 'ended', updated_at: new Date().toISOString() })
+      .eq('id', auctionId)
+      .eq('status', 'active')
+      .select('id')
+      .maybeSingle();
+
+    if (claimError) {
+      throw new BadRequestException(`Failed to end auction: ${claimError.message}`);
+    }
+
+    if (!claimed) {
+      return this.enrichAuctionData(existing);
+    }
+
+    // Get highest bid
     let highestBid: any = null;
     
     try {
@@ -319,6 +528,7 @@ export class AuctionsService {
         .from('bids')
         .select('*')
         .eq('auction_id', auctionId)
+        .eq('status', 'active')
         .order('bid_amount', { ascending: false })
         .limit(1)
         .single();
@@ -328,12 +538,16 @@ export class AuctionsService {
       console.log('No bids found for auction:', auctionId);
     }
 
+    // The highest bid only wins if it reached the (hidden) reserve price
+    const reserveMet = !!highestBid &&
+      (existing.reserve_price === null || existing.reserve_price === undefined || highestBid.bid_amount >= existing.reserve_price);
+
     let updateData: any = {
-      status: 'ended',
+      reserve_met: reserveMet,
       updated_at: new Date().toISOString(),
     };
 
-    if (highestBid) {
+    if (highestBid && reserveMet) {
       updateData.winning_bidder_id = highestBid.bidder_id;
       
       await supabase
@@ -342,18 +556,24 @@ export class AuctionsService {
         .eq('id', highestBid.id);
 
       // Update listing status to sold
-      const { data: auction } = await supabase
-        .from('auctions')
-        .select('listing_id')
-        .eq('id', auctionId)
-        .single();
+      await supabase
+        .from('listings')
+        .update({ status: 'sold' })
+        .eq('id', existing.listing_id);
+    } else {
+      // Unsold: no bids, or the reserve was not met. Nobody wins; the seller
+      // can still make a second-chance offer to one of the bidders.
+      updateData.winning_bidder_id = null;
 
-      if (auction) {
-        await supabase
-          .from('listings')
-          .update({ status: 'sold' })
-          .eq('id', auction.listing_id);
-      }
+      await supabase
+        .from('bids')
+        .update({ is_winning: false })
+        .eq('auction_id', auctionId);
+
+      await supabase
+        .from('listings')
+        .update({ status: 'expired', updated_at: new Date().toISOString() })
+        .eq('id', existing.listing_id);
     }
 
     const { data: auction, error } = await supabase
@@ -370,146 +590,590 @@ export class AuctionsService {
       throw new BadRequestException(`Failed to end auction: ${error.message}`);
     }
 
-    return this.enrichAuctionData(auction);
+    // Winner checkout: the order is waiting for the winner as soon as the
+    // auction ends. If it fails, createMissingWinnerOrders tries again.
+    if (auction.winning_bidder_id && !existing.winner_order_id) {
+      try {
+        const order = await this.createWinnerOrder(
+          auction,
+          highestBid.bidder_id,
+          highestBid.bid_amount,
+          highestBid.bid_currency,
+        );
+        auction.winner_order_id = order.id;
+      } catch (orderError) {
+        console.error(`Failed to create winner order for auction ${auctionId}:`, orderError);
+      }
+    }
+
+    const ended = this.enrichAuctionData(auction);
+    this.auctionEvents.emit('auction_ended', ended);
+
+    return ended;
   }
 
-  async getActiveAuctions(): Promise<Auction[]> {
+  // Buy-It-Now: ends the auction immediately at the buy_now_price and creates
+  // the order for the buyer
+  async buyNow(auctionId: string, buyerId: string, buyNowData: BuyNowDto): Promise<{ auction: Auction; order: Order }> {
     const supabase = this.supabaseService.getClient();
-    
-    const now = new Date().toISOString();
-    
-    const { data: auctions, error } = await supabase
+
+    const { data: auction, error: auctionError } = await supabase
       .from('auctions')
       .select(`
-        *,
-        listing:listings (
-          *,
-          seller:seller_id (*)
-        )
+        status,
+        auction_end,
+        current_bid,
+        bid_count,
+        listing_id,
+        winning_bidder_id,
+        reserve_price,
+        reserve_met,
+        buy_now_price,
+        listing:listings (seller_id, price_currency)
       `)
-      .eq('status', 'active')
-      .gte('auction_end', now) // Not ended yet
-      .order('auction_end', { ascending: true });
+      .eq('id', auctionId)
+      .single();
 
-    if (error) {
-      throw new BadRequestException(`Failed to fetch active auctions: ${error.message}`);
+    if (auctionError || !auction) {
+      throw new NotFoundException('Auction not found');
     }
 
-    return (auctions || []).map(auction => this.enrichAuctionData(auction));
-  }
+    const listing = Array.isArray(auction.listing) ? auction.listing[0] : auction.listing;
 
-  async getUserBidAuctions(userId: string): Promise<Auction[]> {
-    const supabase = this.supabaseService.getClient();
-    
-    try {
-      // Get auctions where user has placed bids
-      const { data: bids, error: bidsError } = await supabase
-        .from('bids')
-        .select('auction_id')
-        .eq('bidder_id', userId);
+    if (auction.status !== 'active' || new Date(auction.auction_end) < new Date()) {
+      throw new BadRequestException('Auction is not active');
+    }
 
-      if (bidsError || !bids || bids.length === 0) {
-        return [];
-      }
+    if (listing && listing.seller_id === buyerId) {
+      throw new BadRequestException('You cannot buy your own auction');
+    }
 
-      const auctionIds = bids.map(bid => bid.auction_id);
-      
-      const { data: auctions, error } = await supabase
-        .from('auctions')
-        .select(`
-          *,
-          listing:listings (
-            *,
-            seller:seller_id (*)
-          )
-        `)
-        .in('id', auctionIds)
-        .order('auction_end', { ascending: true });
+    if (!this.isBuyNowAvailable(auction)) {
+      throw new BadRequestException('Buy It Now is not available for this auction');
+    }
 
-      if (error) {
-        return [];
-      }
+    // Same compare-and-set as bidding, so Buy-It-Now and a bid cannot both win
+    const claimed = await this.updateAuctionIfUnchanged(auctionId, auction, {
+      status: 'ended',
+      current_bid: auction.buy_now_price,
+      winning_bidder_id: buyerId,
+      reserve_met: true,
+      bought_now: true,
+      auction_end: new Date().toISOString(),
+    });
+
+    if (!claimed) {
+      throw await this.buildStaleBidException(auctionId);
+    }
 
-      return (auctions || []).map(auction => this.enrichAuctionData(auction));
+    let order: Order;
+    try {
+      order = await this.ordersService.createOrder({
+        listing_id: auction.listing_id,
+        quantity: 1,
+        payment_method: buyNowData.payment_method,
+        shipping_address: buyNowData.shipping_address,
+        currency: listing?.price_currency || 'USD',
+      }, buyerId, { unitPrice: auction.buy_now_price });
     } catch (error) {
-      return [];
+      // Rollback: reopen the auction exactly as it was
+      await this.updateAuctionIfUnchanged(auctionId, { ...claimed, status: 'ended' }, {
+        status: 'active',
+        current_bid: auction.current_bid,
+        winning_bidder_id: auction.winning_bidder_id,
+        reserve_met: auction.reserve_met,
+        bought_now: false,
+        auction_end: auction.auction_end,
+      });
+      throw error;
     }
-  }
 
-  async getUserAuctions(userId: string): Promise<Auction[]> {
-    const supabase = this.supabaseService.getClient();
-    
-    const { data: auctions, error } = await supabase
+    await supabase
       .from('auctions')
-      .select(`
-        *,
-        listing:listings!inner (
-          *,
-          seller:seller_id (*)
-        )
-      `)
-      .eq('listing.seller_id', userId)
-      .order('created_at', { ascending: false });
+      .update({ winner_order_id: order.id })
+      .eq('id', auctionId);
+    claimed.winner_order_id = order.id;
 
-    if (error) {
-      throw new BadRequestException(`Failed to fetch user auctions: ${error.message}`);
-    }
+    await supabase
+      .from('bids')
+      .update({ is_winning: false })
+      .eq('auction_id', auctionId);
 
-    return (auctions || []).map(auction => this.enrichAuctionData(auction));
+    await supabase
+      .from('listings')
+      .update({ status: 'sold', updated_at: new Date().toISOString() })
+      .eq('id', auction.listing_id);
+
+    const ended = this.enrichAuctionData(claimed);
+    this.auctionEvents.emit('auction_ended', ended, { bought_now: true });
+
+    return {
+      auction: ended,
+      order,
+    };
   }
 
-  async extendAuction(auctionId: string, additionalMinutes: number): Promise<Auction> {
+  // Seller offers the item to a losing bidder at that bidder's highest bid.
+  // Defaults to the highest bidder who has not already won or had an offer.
+  async createSecondChanceOffer(auctionId: string, sellerId: string, bidderId?: string): Promise<SecondChanceOffer> {
     const supabase = this.supabaseService.getClient();
-    
-    // Get current end time
-    const { data: auction } = await supabase
+
+    const { data: auction, error: auctionError } = await supabase
       .from('auctions')
-      .select('auction_end, status')
+      .select(`
+        id,
+        status,
+        listing_id,
+        winning_bidder_id,
+        defaulted_bidder_ids,
+        listing:listings (seller_id, status)
+      `)
       .eq('id', auctionId)
       .single();
 
-    if (!auction) {
+    if (auctionError || !auction) {
       throw new NotFoundException('Auction not found');
     }
 
-    if (auction.status !== 'active') {
-      throw new BadRequestException('Only active auctions can be extended');
+    const listing = Array.isArray(auction.listing) ? auction.listing[0] : auction.listing;
+
+    if (!listing || listing.seller_id !== sellerId) {
+      throw new ForbiddenException('Only the seller can make a second-chance offer');
     }
 
-    // Calculate new end time (max 24 hours extension)
-    const maxExtension = 24 * 60; // 24 hours in minutes
-    if (additionalMinutes > maxExtension) {
-      throw new BadRequestException(`Cannot extend auction by more than ${maxExtension} minutes (24 hours)`);
+    if (auction.status !== 'ended' || auction.winning_bidder_id || listing.status === 'sold') {
+      throw new BadRequestException('Second-chance offers are only possible on auctions that ended unsold');
     }
 
-    const currentEnd = new Date(auction.auction_end);
-    const newEndTime = new Date(currentEnd.getTime() + additionalMinutes * 60000);
+    // Offers the bidder let lapse no longer block the next one
+    const now = new Date();
+    await this.expireSecondChanceOffers(now, auctionId);
 
-    // Update auction end time
-    const { data: updatedAuction, error } = await supabase
-      .from('auctions')
-      .update({
-        auction_end: newEndTime.toISOString(),
+    const { data: previousOffers } = await supabase
+      .from('second_chance_offers')
+      .select('bidder_id, status, expires_at')
+      .eq('auction_id', auctionId);
+
+    if ((previousOffers || []).some(offer => offer.status === 'pending' && new Date(offer.expires_at) > now)) {
+      throw new BadRequestException('There is already a pending second-chance offer for this auction');
+    }
+
+    const alreadyOffered = new Set((previousOffers || []).map(offer => offer.bidder_id));
+    // Winners who did not pay never get the item offered again
+    const defaulted = new Set<string>(auction.defaulted_bidder_ids || []);
+
+    const { data: bids, error: bidsError } = await supabase
+      .from('bids')
+      .select('bidder_id, bid_amount, bid_currency')
+      .eq('auction_id', auctionId)
+      .eq('status', 'active')
+      .order('bid_amount', { ascending: false });
+
+    if (bidsError) {
+      throw new BadRequestException(`Failed to fetch bids: ${bidsError.message}`);
+    }
+
+    const candidate = (bids || []).find(bid =>
+      bidderId
+        ? bid.bidder_id === bidderId
+        : !alreadyOffered.has(bid.bidder_id) && !defaulted.has(bid.bidder_id),
+    );
+
+    if (!candidate) {
+      throw new BadRequestException(bidderId
+        ? 'That user has not bid on this auction'
+        : 'No remaining bidders to make an offer to');
+    }
+
+    if (alreadyOffered.has(candidate.bidder_id)) {
+      throw new BadRequestException('This bidder has already received a second-chance offer');
+    }
+
+    if (defaulted.has(candidate.bidder_id)) {
+      throw new BadRequestException('This bidder did not pay for this auction');
+    }
+
+    const expiresAt = new Date(Date.now() + this.SECOND_CHANCE_OFFER_HOURS * 3600000);
+
+    const { data: offer, error } = await supabase
+      .from('second_chance_offers')
+      .insert({
+        id: uuidv4(),
+        auction_id: auctionId,
+        listing_id: auction.listing_id,
+        seller_id: sellerId,
+        bidder_id: candidate.bidder_id,
+        amount: candidate.bid_amount,
+        currency: candidate.bid_currency || 'USD',
+        status: 'pending',
+        expires_at: expiresAt.toISOString(),
+        created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       })
-      .eq('id', auctionId)
       .select()
       .single();
 
     if (error) {
-      throw new BadRequestException(`Failed to extend auction: ${error.message}`);
+      throw new BadRequestException(`Failed to create second-chance offer: ${error.message}`);
     }
 
-    return this.enrichAuctionData(updatedAuction);
+    return offer;
   }
 
-  async cancelAuction(auctionId: string, reason: string): Promise<Auction> {
-    const supabase = this.supabaseService.getClient();
-    
-    // Check if auction has bids
-    const { data: bids } = await supabase
-      .from('bids')
-      .select('id')
+  // Pending offers past their expires_at can no longer be accepted; marking
+  // them expired lets the seller (or the fallback) offer to the next bidder
+  async expireSecondChanceOffers(at: Date = new Date(), auctionId?: string): Promise<SecondChanceOffer[]> {
+    let query = this.supabaseService.getClient()
+      .from('second_chance_offers')
+      .update({ status: 'expired', updated_at: new Date().toISOString() })
+      .eq('status', 'pending')
+      .lte('expires_at', at.toISOString());
+
+    if (auctionId) {
+      query = query.eq('auction_id', auctionId);
+    }
+
+    const { data: expired, error } = await query.select();
+
+    if (error) {
+      throw new BadRequestException(`Failed to expire second-chance offers: ${error.message}`);
+    }
+
+    return expired || [];
+  }
+
+  async respondToSecondChanceOffer(
+    offerId: string,
+    bidderId: string,
+    accept: boolean,
+    buyNowData: BuyNowDto = {},
+  ): Promise<{ offer: SecondChanceOffer; order?: Order }> {
+    const supabase = this.supabaseService.getClient();
+
+    // Claim the offer: only a pending, unexpired offer addressed to this bidder
+    const { data: offer, error } = await supabase
+      .from('second_chance_offers')
+      .update({
+        status: accept ? 'accepted' : 'declined',
+        responded_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', offerId)
+      .eq('bidder_id', bidderId)
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString())
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestException(`Failed to respond to offer: ${error.message}`);
+    }
+
+    if (!offer) {
+      throw new NotFoundException('Offer not found, already answered or expired');
+    }
+
+    if (!accept) {
+      return { offer };
+    }
+
+    let order: Order;
+    try {
+      // The listing is no longer active once the auction ended unsold
+      order = await this.ordersService.createOrder({
+        listing_id: offer.listing_id,
+        quantity: 1,
+        payment_method: buyNowData.payment_method,
+        shipping_address: buyNowData.shipping_address,
+        currency: offer.currency,
+      }, bidderId, {
+        unitPrice: offer.amount,
+        allowInactiveListing: true,
+        paymentDueAt: this.getWinnerPaymentDeadline(),
+      });
+    } catch (orderError) {
+      await supabase
+        .from('second_chance_offers')
+        .update({ status: 'pending', responded_at: null, updated_at: new Date().toISOString() })
+        .eq('id', offer.id);
+      throw orderError;
+    }
+
+    await supabase
+      .from('auctions')
+      .update({
+        winning_bidder_id: bidderId,
+        winner_order_id: order.id,
+        current_bid: offer.amount,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', offer.auction_id);
+
+    await supabase
+      .from('listings')
+      .update({ status: 'sold', updated_at: new Date().toISOString() })
+      .eq('id', offer.listing_id);
+
+    return { offer, order };
+  }
+
+  async getUserSecondChanceOffers(userId: string): Promise<SecondChanceOffer[]> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: offers, error } = await supabase
+      .from('second_chance_offers')
+      .select(`
+        *,
+        listing:listing_id (*)
+      `)
+      .eq('bidder_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new BadRequestException(`Failed to fetch second-chance offers: ${error.message}`);
+    }
+
+    return offers || [];
+  }
+
+  async getActiveAuctions(): Promise<Auction[]> {
+    const supabase = this.supabaseService.getClient();
+    
+    const now = new Date().toISOString();
+    
+    const { data: auctions, error } = await supabase
+      .from('auctions')
+      .select(`
+        *,
+        listing:listings (
+          *,
+          seller:seller_id (*)
+        )
+      `)
+      .eq('status', 'active')
+      .gte('auction_end', now) // Not ended yet
+      .order('auction_end', { ascending: true });
+
+    if (error) {
+      throw new BadRequestException(`Failed to fetch active auctions: ${error.message}`);
+    }
+
+    return (auctions || []).map(auction => this.enrichAuctionData(auction));
+  }
+
+  // Auctions the user has bid on, with where the user stands in each
+  async getUserBidAuctions(userId: string): Promise<Auction[]> {
+    const supabase = this.supabaseService.getClient();
+    
+    try {
+      // Get auctions where user has placed bids
+      const { data: bids, error: bidsError } = await supabase
+        .from('bids')
+        .select('auction_id, bid_amount')
+        .eq('bidder_id', userId);
+
+      if (bidsError || !bids || bids.length === 0) {
+        return [];
+      }
+
+      // The user's highest bid per auction
+      const highestBids = new Map<string, number>();
+      for (const bid of bids) {
+        highestBids.set(bid.auction_id, Math.max(highestBids.get(bid.auction_id) || 0, bid.bid_amount));
+      }
+      
+      const { data: auctions, error } = await supabase
+        .from('auctions')
+        .select(`
+          *,
+          listing:listings (
+            *,
+            seller:seller_id (*)
+          )
+        `)
+        .in('id', [...highestBids.keys()])
+        .order('auction_end', { ascending: true });
+
+      if (error) {
+        return [];
+      }
+
+      return (auctions || []).map(auction => {
+        const isWinner = auction.winning_bidder_id === userId;
+        const isOpen = auction.status === 'active';
+
+        return {
+          ...this.enrichAuctionData(auction),
+          user_bid_status: isOpen
+            ? (isWinner ? 'leading' : 'outbid')
+            : (isWinner ? 'won' : 'lost'),
+          user_highest_bid: highestBids.get(auction.id),
+        };
+      });
+    } catch (error) {
+      return [];
+    }
+  }
+
+  async watchAuction(auctionId: string, userId: string): Promise<void> {
+    const supabase = this.supabaseService.getClient();
+
+    await this.findById(auctionId);
+
+    const { error } = await supabase
+      .from('auction_watches')
+      .upsert({
+        auction_id: auctionId,
+        user_id: userId,
+        created_at: new Date().toISOString(),
+      }, { onConflict: 'auction_id,user_id', ignoreDuplicates: true });
+
+    if (error) {
+      throw new BadRequestException(`Failed to watch auction: ${error.message}`);
+    }
+  }
+
+  async unwatchAuction(auctionId: string, userId: string): Promise<void> {
+    const supabase = this.supabaseService.getClient();
+
+    const { error } = await supabase
+      .from('auction_watches')
+      .delete()
+      .eq('auction_id', auctionId)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new BadRequestException(`Failed to unwatch auction: ${error.message}`);
+    }
+  }
+
+  async getWatchedAuctions(userId: string): Promise<Auction[]> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: watches, error } = await supabase
+      .from('auction_watches')
+      .select(`
+        auction:auctions (
+          *,
+          listing:listings (*)
+        )
+      `)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new BadRequestException(`Failed to fetch watched auctions: ${error.message}`);
+    }
+
+    return (watches || [])
+      .map((watch: any) => Array.isArray(watch.auction) ? watch.auction[0] : watch.auction)
+      .filter(Boolean)
+      .map(auction => this.enrichAuctionData(auction));
+  }
+
+  async getAuctionWatcherIds(auctionId: string): Promise<string[]> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: watches } = await supabase
+      .from('auction_watches')
+      .select('user_id')
+      .eq('auction_id', auctionId);
+
+    return (watches || []).map(watch => watch.user_id);
+  }
+
+  async getAuctionBidderIds(auctionId: string): Promise<string[]> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: bids } = await supabase
+      .from('bids')
+      .select('bidder_id')
+      .eq('auction_id', auctionId);
+
+    return [...new Set((bids || []).map(bid => bid.bidder_id as string))];
+  }
+
+  async getUserAuctions(userId: string): Promise<Auction[]> {
+    const supabase = this.supabaseService.getClient();
+    
+    const { data: auctions, error } = await supabase
+      .from('auctions')
+      .select(`
+        *,
+        listing:listings!inner (
+          *,
+          seller:seller_id (*)
+        )
+      `)
+      .eq('listing.seller_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new BadRequestException(`Failed to fetch user auctions: ${error.message}`);
+    }
+
+    return (auctions || []).map(auction => this.enrichAuctionData(auction));
+  }
+
+  async extendAuction(auctionId: string, additionalMinutes: number): Promise<Auction> {
+    const supabase = this.supabaseService.getClient();
+    
+    // Get current end time
+    const { data: auction } = await supabase
+      .from('auctions')
+      .select('auction_end, status')
+      .eq('id', auctionId)
+      .single();
+
+    if (!auction) {
+      throw new NotFoundException('Auction not found');
+    }
+
+    if (auction.status !== 'active') {
+      throw new BadRequestException('Only active auctions can be extended');
+    }
+
+    // Calculate new end time (max 24 hours extension)
+    const maxExtension = 24 * 60; // 24 hours in minutes
+    if (additionalMinutes > maxExtension) {
+      throw new BadRequestException(`Cannot extend auction by more than ${maxExtension} minutes (24 hours)`);
+    }
+
+    const currentEnd = new Date(auction.auction_end);
+    const newEndTime = new Date(currentEnd.getTime() + additionalMinutes * 60000);
+
+    // Update auction end time
+    const { data: updatedAuction, error } = await supabase
+      .from('auctions')
+      .update({
+        auction_end: newEndTime.toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', auctionId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new BadRequestException(`Failed to extend auction: ${error.message}`);
+    }
+
+    const enriched = this.enrichAuctionData(updatedAuction);
+
+    this.auctionEvents.emit('auction_extended', enriched, {
+      previous_end: auction.auction_end,
+      auction_end: enriched.auction_end,
+    });
+
+    return enriched;
+  }
+
+  async cancelAuction(auctionId: string, reason: string): Promise<Auction> {
+    const supabase = this.supabaseService.getClient();
+    
+    // Check if auction has bids
+    const { data: bids } = await supabase
+      .from('bids')
+      .select('id')
       .eq('auction_id', auctionId)
       .limit(1);
 
@@ -593,10 +1257,10 @@ export class AuctionsService {
     return stats;
   }
 
-  async checkAndEndExpiredAuctions(): Promise<void> {
+  async checkAndEndExpiredAuctions(at: Date = new Date()): Promise<number> {
     const supabase = this.supabaseService.getClient();
     
-    const now = new Date().toISOString();
+    const now = at.toISOString();
     
     // Find expired active auctions
     const { data: expiredAuctions } = await supabase
@@ -605,16 +1269,589 @@ export class AuctionsService {
       .eq('status', 'active')
       .lt('auction_end', now);
 
-    if (!expiredAuctions || expiredAuctions.length === 0) return;
+    if (!expiredAuctions || expiredAuctions.length === 0) return 0;
+
+    let ended = 0;
 
     // End each expired auction
     for (const auction of expiredAuctions) {
       try {
         await this.endAuction(auction.id);
+        ended++;
       } catch (error) {
         console.error(`Failed to end auction ${auction.id}:`, error);
       }
     }
+
+    return ended;
+  }
+
+  // Opens scheduled auctions whose start_time has arrived
+  async startScheduledAuctions(at: Date = new Date()): Promise<number> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: started, error } = await supabase
+      .from('auctions')
+      .update({
+        status: 'active',
+        updated_at: at.toISOString(),
+      })
+      .eq('status', 'scheduled')
+      .lte('start_time', at.toISOString())
+      .select('id');
+
+    if (error) {
+      throw new BadRequestException(`Failed to start scheduled auctions: ${error.message}`);
+    }
+
+    return started?.length || 0;
+  }
+
+  // Announces auctions entering their last hour, once per auction
+  async sendEndingSoonReminders(at: Date = new Date()): Promise<number> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: auctions, error } = await supabase
+      .from('auctions')
+      .update({ ending_soon_notified_at: at.toISOString() })
+      .eq('status', 'active')
+      .is('ending_soon_notified_at', null)
+      .gt('auction_end', at.toISOString())
+      .lte('auction_end', new Date(at.getTime() + this.ENDING_SOON_MS).toISOString())
+      .select(`
+        *,
+        listing:listings (*)
+      `);
+
+    if (error) {
+      throw new BadRequestException(`Failed to send ending-soon reminders: ${error.message}`);
+    }
+
+    for (const auction of auctions || []) {
+      this.auctionEvents.emit('auction_ending_soon', this.enrichAuctionData(auction));
+    }
+
+    return auctions?.length || 0;
+  }
+
+  // Cancels auction orders whose payment deadline passed without a completed
+  // payment, and offers the item to the next-highest bidder instead
+  async releaseUnpaidAuctionWins(at: Date = new Date()): Promise<number> {
+    const supabase = this.supabaseService.getClient();
+
+    // Only auction checkouts carry a payment deadline
+    const { data: overdueOrders, error } = await supabase
+      .from('orders')
+      .select('id, buyer_id, seller_id, listing_id')
+      .eq('status', 'pending')
+      .lt('payment_due_at', at.toISOString());
+
+    if (error) {
+      throw new BadRequestException(`Failed to fetch overdue orders: ${error.message}`);
+    }
+
+    let released = 0;
+
+    for (const order of overdueOrders || []) {
+      try {
+        if (await this.paymentsService.isOrderPaid(order.id)) {
+          continue;
+        }
+
+        await this.releaseUnpaidWin(order);
+        released++;
+      } catch (releaseError) {
+        console.error(`Failed to release unpaid order ${order.id}:`, releaseError);
+      }
+    }
+
+    return released;
+  }
+
+  // The fallback after an unpaid win goes down the bidders one at a time:
+  // when an offer lapses or is declined, the next bidder in line gets one,
+  // until an offer is accepted or nobody is left
+  async continueSecondChanceFallbacks(): Promise<number> {
+    const supabase = this.supabaseService.getClient();
+
+    // Unsold auctions whose winner did not pay
+    const { data: auctions, error } = await supabase
+      .from('auctions')
+      .select('id, listing:listings (seller_id)')
+      .eq('status', 'ended')
+      .is('winning_bidder_id', null)
+      .neq('defaulted_bidder_ids', '{}');
+
+    if (error) {
+      throw new BadRequestException(`Failed to fetch unsold auctions: ${error.message}`);
+    }
+
+    let offered = 0;
+
+    for (const auction of auctions || []) {
+      const listing: any = Array.isArray(auction.listing) ? auction.listing[0] : auction.listing;
+
+      try {
+        await this.createSecondChanceOffer(auction.id, listing?.seller_id);
+        offered++;
+      } catch (offerError) {
+        // An offer is still open, or no bidders are left to offer to
+        if (!(offerError instanceof BadRequestException)) {
+          console.error(`Failed to continue second-chance offers for auction ${auction.id}:`, offerError);
+        }
+      }
+    }
+
+    return offered;
+  }
+
+  // Auctions that ended with a winner but no winner order (creating it failed
+  // when the auction ended) get their order now
+  async createMissingWinnerOrders(at: Date = new Date()): Promise<number> {
+    const supabase = this.supabaseService.getClient();
+
+    // Left alone for a while, so an order still being created is not duplicated
+    const endedBefore = new Date(at.getTime() - this.WINNER_ORDER_RETRY_MINUTES * 60000);
+
+    const { data: auctions, error } = await supabase
+      .from('auctions')
+      .select('id, listing_id, winning_bidder_id, current_bid, listing:listings (price_currency)')
+      .eq('status', 'ended')
+      .not('winning_bidder_id', 'is', null)
+      .is('winner_order_id', null)
+      .lt('updated_at', endedBefore.toISOString());
+
+    if (error) {
+      throw new BadRequestException(`Failed to fetch auctions without winner order: ${error.message}`);
+    }
+
+    let created = 0;
+
+    for (const auction of auctions || []) {
+      try {
+        const listing: any = Array.isArray(auction.listing) ? auction.listing[0] : auction.listing;
+
+        // The winner pays their winning bid
+        const { data: winningBid } = await supabase
+          .from('bids')
+          .select('bid_amount, bid_currency')
+          .eq('auction_id', auction.id)
+          .eq('bidder_id', auction.winning_bidder_id)
+          .eq('status', 'active')
+          .order('bid_amount', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        await this.createWinnerOrder(
+          auction,
+          auction.winning_bidder_id,
+          winningBid?.bid_amount ?? auction.current_bid,
+          winningBid?.bid_currency || listing?.price_currency,
+        );
+        created++;
+      } catch (orderError) {
+        console.error(`Failed to create winner order for auction ${auction.id}:`, orderError);
+      }
+    }
+
+    return created;
+  }
+
+  private async releaseUnpaidWin(order: { id: string; buyer_id: string; seller_id: string; listing_id: string }): Promise<void> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: auction } = await supabase
+      .from('auctions')
+      .select('id, defaulted_bidder_ids')
+      .eq('winner_order_id', order.id)
+      .maybeSingle();
+
+    await this.ordersService.cancelOrder(order.id, null, 'Auction payment deadline passed');
+
+    if (!auction) {
+      return;
+    }
+
+    // Back to "ended unsold", remembering who defaulted
+    await supabase
+      .from('auctions')
+      .update({
+        winning_bidder_id: null,
+        winner_order_id: null,
+        defaulted_bidder_ids: [...(auction.defaulted_bidder_ids || []), order.buyer_id],
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', auction.id);
+
+    await supabase
+      .from('bids')
+      .update({ is_winning: false })
+      .eq('auction_id', auction.id);
+
+    await supabase
+      .from('listings')
+      .update({ status: 'expired', updated_at: new Date().toISOString() })
+      .eq('id', order.listing_id);
+
+    try {
+      await this.createSecondChanceOffer(auction.id, order.seller_id);
+    } catch (offerError) {
+      // No bidders left to offer to: the listing simply stays unsold. Any
+      // other failure is retried by continueSecondChanceFallbacks.
+      if (!(offerError instanceof BadRequestException)) {
+        throw offerError;
+      }
+    }
+  }
+
+  private async createWinnerOrder(auction: any, bidderId: string, amount: number, currency?: string): Promise<Order> {
+    const supabase = this.supabaseService.getClient();
+
+    // The listing is already marked sold, so skip the active-listing check
+    const order = await this.ordersService.createOrder({
+      listing_id: auction.listing_id,
+      quantity: 1,
+      currency: currency || 'USD',
+    }, bidderId, {
+      unitPrice: amount,
+      allowInactiveListing: true,
+      paymentDueAt: this.getWinnerPaymentDeadline(),
+    });
+
+    // Linked only if no other order was linked meanwhile
+    const { data: linked } = await supabase
+      .from('auctions')
+      .update({ winner_order_id: order.id })
+      .eq('id', auction.id)
+      .is('winner_order_id', null)
+      .select('id')
+      .maybeSingle();
+
+    if (!linked) {
+      // Rollback: the winner already has an order
+      await this.ordersService.cancelOrder(order.id, null, 'Duplicate auction winner order');
+      throw new ConflictException('The auction already has a winner order');
+    }
+
+    return order;
+  }
+
+  private async isAdmin(userId: string): Promise<boolean> {
+    const { data: user } = await this.supabaseService
+      .getClient()
+      .from('users')
+      .select('role')
+      .eq('id', userId)
+      .single();
+
+    return user?.role === 'admin';
+  }
+
+  private getWinnerPaymentDeadline(): Date {
+    return new Date(Date.now() + this.WINNER_PAYMENT_HOURS * 3600000);
+  }
+
+  private async getBidForRemoval(auctionId: string, bidId: string): Promise<{ auction: any; bid: any }> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: auction, error: auctionError } = await supabase
+      .from('auctions')
+      .select(`
+        status,
+        auction_end,
+        listing:listings (seller_id)
+      `)
+      .eq('id', auctionId)
+      .single();
+
+    if (auctionError || !auction) {
+      throw new NotFoundException('Auction not found');
+    }
+
+    if (auction.status !== 'active') {
+      throw new BadRequestException('Bids can only be removed while the auction is active');
+    }
+
+    const { data: bid, error: bidError } = await supabase
+      .from('bids')
+      .select('id, bidder_id, bid_amount, bid_time, status')
+      .eq('id', bidId)
+      .eq('auction_id', auctionId)
+      .single();
+
+    if (bidError || !bid) {
+      throw new NotFoundException('Bid not found');
+    }
+
+    if (bid.status !== 'active') {
+      throw new BadRequestException(`Bid has already been ${bid.status}`);
+    }
+
+    return { auction, bid };
+  }
+
+  private async removeBid(
+    auctionId: string,
+    bid: any,
+    actorId: string,
+    action: 'retracted' | 'cancelled',
+    reason: string,
+  ): Promise<Auction> {
+    const supabase = this.supabaseService.getClient();
+
+    // Only one removal can win the race for an active bid
+    const { data: removed, error } = await supabase
+      .from('bids')
+      .update({ status: action, is_winning: false })
+      .eq('id', bid.id)
+      .eq('status', 'active')
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestException(`Failed to remove bid: ${error.message}`);
+    }
+
+    if (!removed) {
+      throw new BadRequestException('Bid has already been removed');
+    }
+
+    // The bidder's maximum must not keep bidding on their behalf
+    await supabase
+      .from('proxy_bids')
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq('auction_id', auctionId)
+      .eq('bidder_id', bid.bidder_id);
+
+    const { previous, updated } = await this.recalculateAuctionFromBids(auctionId);
+
+    const { error: auditError } = await supabase
+      .from('bid_audit_log')
+      .insert({
+        id: uuidv4(),
+        auction_id: auctionId,
+        bid_id: bid.id,
+        action,
+        actor_id: actorId,
+        reason,
+        bid_amount: bid.bid_amount,
+        previous_current_bid: previous.current_bid,
+        new_current_bid: updated.current_bid,
+        created_at: new Date().toISOString(),
+      });
+
+    if (auditError) {
+      console.error(`Failed to write audit entry for bid ${bid.id}:`, auditError);
+    }
+
+    const auction = this.enrichAuctionData(updated);
+    this.auctionEvents.emit('bid_removed', auction, { bid_id: bid.id, action });
+
+    return auction;
+  }
+
+  // Rebuilds current_bid, bid_count, the leader and is_winning from the bids
+  // that are still active. Retries if a bid lands while we recalculate.
+  private async recalculateAuctionFromBids(auctionId: string): Promise<{ previous: any; updated: any }> {
+    const supabase = this.supabaseService.getClient();
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const { data: auction, error: auctionError } = await supabase
+        .from('auctions')
+        .select('status, current_bid, starting_price, bid_count, reserve_price')
+        .eq('id', auctionId)
+        .single();
+
+      if (auctionError || !auction) {
+        throw new NotFoundException('Auction not found');
+      }
+
+      const { data: bids, error: bidsError } = await supabase
+        .from('bids')
+        .select('id, bidder_id, bid_amount')
+        .eq('auction_id', auctionId)
+        .eq('status', 'active')
+        .order('bid_amount', { ascending: false })
+        .order('bid_time', { ascending: true });
+
+      if (bidsError) {
+        throw new BadRequestException(`Failed to fetch bids: ${bidsError.message}`);
+      }
+
+      const top = bids?.[0];
+
+      const updated = await this.updateAuctionIfUnchanged(auctionId, auction, {
+        current_bid: top ? top.bid_amount : auction.starting_price,
+        bid_count: bids?.length || 0,
+        winning_bidder_id: top ? top.bidder_id : null,
+        reserve_met: auction.reserve_price === null || auction.reserve_price === undefined ||
+          (!!top && top.bid_amount >= auction.reserve_price),
+      });
+
+      if (!updated) {
+        continue;
+      }
+
+      await supabase
+        .from('bids')
+        .update({ is_winning: false })
+        .eq('auction_id', auctionId);
+
+      if (top) {
+        await supabase
+          .from('bids')
+          .update({ is_winning: true })
+          .eq('id', top.id);
+      }
+
+      return { previous: auction, updated };
+    }
+
+    throw await this.buildStaleBidException(auctionId);
+  }
+
+  private async getActiveProxyBid(auctionId: string, bidderId: string): Promise<any | null> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: proxy } = await supabase
+      .from('proxy_bids')
+      .select('id, max_amount')
+      .eq('auction_id', auctionId)
+      .eq('bidder_id', bidderId)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    return proxy;
+  }
+
+  // One proxy per bidder per auction; a new maximum replaces the previous one
+  private async saveProxyBid(
+    auctionId: string,
+    bidderId: string,
+    maxAmount: number,
+    currency: string,
+    isActive: boolean,
+  ): Promise<void> {
+    const supabase = this.supabaseService.getClient();
+
+    const { error } = await supabase
+      .from('proxy_bids')
+      .upsert({
+        auction_id: auctionId,
+        bidder_id: bidderId,
+        max_amount: maxAmount,
+        currency: currency || 'USD',
+        is_active: isActive,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'auction_id,bidder_id' });
+
+    if (error) {
+      throw new BadRequestException(`Failed to save maximum bid: ${error.message}`);
+    }
+  }
+
+  private async getLeadingBid(auctionId: string, bidderId: string, maxBidAmount: number): Promise<Bid> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: bid, error } = await supabase
+      .from('bids')
+      .select('*')
+      .eq('auction_id', auctionId)
+      .eq('bidder_id', bidderId)
+      .eq('is_winning', true)
+      .single();
+
+    if (error || !bid) {
+      throw new NotFoundException('Leading bid not found');
+    }
+
+    return {
+      id: bid.id,
+      auction_id: bid.auction_id,
+      bidder_id: bid.bidder_id,
+      bid_amount: bid.bid_amount,
+      bid_currency: bid.bid_currency,
+      bid_time: bid.bid_time,
+      is_winning: true,
+      is_auto: bid.is_auto,
+      max_bid_amount: maxBidAmount,
+      status: 'winning',
+    } as Bid;
+  }
+
+  // Conditional update used as a compare-and-set on the auction row: it only
+  // applies while the auction still has the snapshot's status (active unless
+  // given) and current_bid/bid_count. Returns the updated row, or null if
+  // someone else got there first.
+  private async updateAuctionIfUnchanged(
+    auctionId: string,
+    snapshot: { current_bid: number | null; bid_count: number | null; status?: string },
+    changes: Record<string, any>,
+  ): Promise<any | null> {
+    const supabase = this.supabaseService.getClient();
+
+    let query = supabase
+      .from('auctions')
+      .update({
+        ...changes,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', auctionId)
+      .eq('status', snapshot.status || 'active');
+
+    query = snapshot.current_bid === null
+      ? query.is('current_bid', null)
+      : query.eq('current_bid', snapshot.current_bid);
+
+    query = snapshot.bid_count === null
+      ? query.is('bid_count', null)
+      : query.eq('bid_count', snapshot.bid_count);
+
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) {
+      throw new BadRequestException(`Failed to update auction: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  private async buildStaleBidException(auctionId: string): Promise<ConflictException> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: latest } = await supabase
+      .from('auctions')
+      .select('status, current_bid, starting_price, bid_count')
+      .eq('id', auctionId)
+      .single();
+
+    const currentBid = latest ? (latest.current_bid || latest.starting_price) : null;
+
+    return new ConflictException({
+      statusCode: 409,
+      error: 'Conflict',
+      message: currentBid !== null
+        ? `Another bid was accepted first. Current bid is now $${Number(currentBid).toFixed(2)}`
+        : 'Another bid was accepted first',
+      current_bid: currentBid,
+      bid_count: latest?.bid_count ?? null,
+      minimum_bid: currentBid !== null ? minimumNextBid(currentBid) : null,
+      auction_status: latest?.status ?? null,
+    });
+  }
+
+  // Buy-It-Now disappears once bidding takes off: after the first bid on a
+  // no-reserve auction, or once the reserve has been met
+  private isBuyNowAvailable(auction: any): boolean {
+    if (auction.buy_now_price === null || auction.buy_now_price === undefined) {
+      return false;
+    }
+
+    if (auction.reserve_price !== null && auction.reserve_price !== undefined) {
+      return !auction.reserve_met;
+    }
+
+    return !auction.bid_count;
   }
 
   // Helper method to enrich auction data with calculated fields
@@ -622,11 +1859,16 @@ export class AuctionsService {
     const now = new Date();
     const endTime = new Date(auction.auction_end);
     const timeRemaining = Math.max(0, endTime.getTime() - now.getTime());
+
+    // Only whether the reserve is met is public, never the reserve itself
+    const { reserve_price, ...publicAuction } = auction;
     
     return {
-      ...auction,
+      ...publicAuction,
+      has_reserve: reserve_price !== null && reserve_price !== undefined,
+      buy_now_available: auction.status === 'active' && this.isBuyNowAvailable(auction),
       time_remaining: timeRemaining,
-      ending_soon: timeRemaining < 3600000, // Less than 1 hour
+      ending_soon: timeRemaining < this.ENDING_SOON_MS, // Less than 1 hour
       is_expired: timeRemaining === 0 && auction.status === 'active',
       minutes_remaining: Math.floor(timeRemaining / 60000),
       hours_remaining: Math.floor(timeRemaining / 3600000),
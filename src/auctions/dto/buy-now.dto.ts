@@ -0,0 +1,21 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString } from 'class-validator';
+
+export class BuyNowDto {
+  @ApiPropertyOptional({
+    description: 'Payment method',
+    example: 'ecocash',
+    enum: ['ecocash', 'onemoney', 'bank_transfer', 'cash'],
+  })
+  @IsOptional()
+  @IsString()
+  payment_method?: string;
+
+  @ApiPropertyOptional({
+    description: 'Shipping address',
+    example: '123 Main St, Harare, Zimbabwe',
+  })
+  @IsOptional()
+  @IsString()
+  shipping_address?: string;
+}
@@ -46,4 +46,47 @@ export class CreateAuctionDto {
   @IsNumber()
   @Min(0)
   reserve_price?: number;
+
+  @ApiPropertyOptional({
+    description: 'Buy-It-Now price (instantly ends the auction)',
+    example: 300.00,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  buy_now_price?: number;
+
+  @ApiPropertyOptional({
+    description: 'Soft close window: bids in the last N minutes extend the auction (0 disables)',
+    example: 2,
+    default: 2,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  soft_close_window_minutes?: number;
+
+  @ApiPropertyOptional({
+    description: 'Minutes added to the end time per soft-close extension',
+    example: 2,
+    default: 2,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  soft_close_extension_minutes?: number;
+
+  @ApiPropertyOptional({
+    description: 'Maximum number of soft-close extensions',
+    example: 10,
+    default: 10,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  max_extensions?: number;
 }
\ No newline at end of file
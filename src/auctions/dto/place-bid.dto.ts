@@ -1,16 +1,18 @@
-import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsNumber, Min, IsOptional, IsString } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNotEmpty, IsNumber, Min, IsOptional, IsString, ValidateIf } from 'class-validator';
 
 export class PlaceBidDto {
   @ApiProperty({
-    description: 'Bid amount',
+    description: 'Bid amount (optional when max_bid_amount is given)',
     example: 175.50,
     minimum: 0.01,
+    required: false,
   })
+  @ValidateIf(o => o.max_bid_amount === undefined || o.bid_amount !== undefined)
   @IsNotEmpty()
   @IsNumber()
   @Min(0.01)
-  bid_amount: number;
+  bid_amount?: number;
 
   @ApiProperty({
     description: 'Currency code',
@@ -22,5 +24,13 @@ export class PlaceBidDto {
   @IsString()
   currency?: string = 'USD'; // CHANGE: Set default value
 
-  // CHANGE: Removed max_bid_amount if you don't need it
+  @ApiPropertyOptional({
+    description: 'Maximum you are willing to pay. The system bids the minimum increment on your behalf up to this amount; it is never shown to other users.',
+    example: 250.00,
+    minimum: 0.01,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.01)
+  max_bid_amount?: number;
 }
\ No newline at end of file
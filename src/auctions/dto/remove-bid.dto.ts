@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+// Body for retracting (bidder) or cancelling (seller) a bid
+export class RemoveBidDto {
+  @ApiProperty({
+    description: 'Why the bid is being removed (kept in the audit trail)',
+    example: 'Typed 10000 instead of 100',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
@@ -0,0 +1,13 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsUUID } from 'class-validator';
+
+export class CreateSecondChanceOfferDto {
+  @ApiPropertyOptional({
+    description:
+      'Bidder to offer the item to (defaults to the highest bidder without an offer)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsOptional()
+  @IsUUID()
+  bidder_id?: string;
+}
@@ -15,6 +15,12 @@ export class Auction {
   })
   listing_id: string;
 
+  @ApiPropertyOptional({
+    description: 'Auction start time (scheduled auctions open at this time)',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  start_time?: string;
+
   @ApiProperty({
     description: 'Auction end time',
     example: '2024-01-07T23:59:59.000Z',
@@ -46,9 +52,77 @@ export class Auction {
   })
   winning_bidder_id?: string; // CHANGED: from 'winning_bid_id' to 'winning_bidder_id'
 
+  @ApiPropertyOptional({
+    description: 'Soft close window in minutes (bids inside it extend the auction)',
+    example: 2,
+  })
+  soft_close_window_minutes?: number;
+
+  @ApiPropertyOptional({
+    description: 'Minutes added to auction_end per soft-close extension',
+    example: 2,
+  })
+  soft_close_extension_minutes?: number;
+
+  @ApiPropertyOptional({
+    description: 'Maximum number of soft-close extensions',
+    example: 10,
+  })
+  max_extensions?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of times the auction has been extended by late bids',
+    example: 1,
+    default: 0,
+  })
+  extension_count?: number;
+
+  @ApiPropertyOptional({
+    description: 'When the auction was last extended',
+    example: '2024-01-07T23:58:30.000Z',
+  })
+  last_extended_at?: string;
+
+  @ApiPropertyOptional({
+    description: 'Has the reserve price been met? (the reserve itself is never exposed)',
+    example: false,
+  })
+  reserve_met?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Buy-It-Now price',
+    example: 300.00,
+  })
+  buy_now_price?: number;
+
+  @ApiPropertyOptional({
+    description: 'Was the auction ended by a Buy-It-Now purchase?',
+    example: false,
+  })
+  bought_now?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Order created for the winner when the auction ended',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  winner_order_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Winners who did not pay in time (excluded from second-chance offers)',
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+    type: [String],
+  })
+  defaulted_bidder_ids?: string[];
+
+  @ApiPropertyOptional({
+    description: 'When the ending-soon reminder went out',
+    example: '2024-01-07T22:59:59.000Z',
+  })
+  ending_soon_notified_at?: string;
+
   @ApiProperty({
     description: 'Auction status',
-    enum: ['active', 'ended', 'cancelled'],
+    enum: ['scheduled', 'active', 'ended', 'cancelled'],
     example: 'active',
   })
   status: string; // CHANGED: simplified status options
@@ -72,6 +146,18 @@ export class Auction {
   listing?: Listing;
 
   // Calculated fields (added by service)
+  @ApiPropertyOptional({
+    description: 'Does the auction have a reserve price?',
+    example: true,
+  })
+  has_reserve?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Can the item still be bought at buy_now_price?',
+    example: true,
+  })
+  buy_now_available?: boolean;
+
   @ApiPropertyOptional({
     description: 'Time remaining in milliseconds',
     example: 604800000, // 7 days
@@ -107,4 +193,18 @@ export class Auction {
     example: 7,
   })
   days_remaining?: number;
+
+  // Only set by GET /auctions/user/my-bids
+  @ApiPropertyOptional({
+    description: "The current user's position in this auction",
+    enum: ['leading', 'outbid', 'won', 'lost'],
+    example: 'leading',
+  })
+  user_bid_status?: 'leading' | 'outbid' | 'won' | 'lost';
+
+  @ApiPropertyOptional({
+    description: "The current user's highest bid",
+    example: 150.5,
+  })
+  user_highest_bid?: number;
 }
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+// Insert-only record of a bid being retracted or cancelled
+export class BidAuditEntry {
+  @ApiProperty({
+    description: 'Audit entry ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Auction ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  auction_id: string;
+
+  @ApiProperty({
+    description: 'Bid ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  bid_id: string;
+
+  @ApiProperty({
+    description: 'What happened to the bid',
+    enum: ['retracted', 'cancelled'],
+    example: 'retracted',
+  })
+  action: string;
+
+  @ApiProperty({
+    description: 'User who removed the bid (bidder or seller)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  actor_id: string;
+
+  @ApiProperty({
+    description: 'Reason given',
+    example: 'Typed 10000 instead of 100',
+  })
+  reason: string;
+
+  @ApiProperty({
+    description: 'Bid amount',
+    example: 10000,
+  })
+  bid_amount: number;
+
+  @ApiProperty({
+    description: 'Current bid before the removal',
+    example: 10000,
+  })
+  previous_current_bid: number;
+
+  @ApiPropertyOptional({
+    description: 'Current bid after recalculating from the remaining bids',
+    example: 105,
+  })
+  new_current_bid?: number;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  created_at: string;
+}
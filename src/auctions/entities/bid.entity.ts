@@ -1,4 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { BidAuditEntry } from './bid-audit-entry.entity';
 import { User } from '../../users/entities/user.entity';
 
 export class Bid {
@@ -53,9 +54,28 @@ export class Bid {
   is_winning: boolean; // CHANGE: Added to match database
 
   @ApiPropertyOptional({
-    description: 'Bid status (derived from is_winning)',
-    enum: ['active', 'outbid', 'winning'],
+    description: 'Was this bid placed automatically by a proxy (max) bid?',
+    example: false,
+    default: false,
+  })
+  is_auto?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Your maximum bid (only returned to the bidder who set it)',
+    example: 250.00,
+  })
+  max_bid_amount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Bid status (derived from is_winning unless the bid was removed)',
+    enum: ['active', 'outbid', 'winning', 'retracted', 'cancelled'],
     example: 'active',
   })
   status?: string; // CHANGE: Optional, can be derived from is_winning
+
+  @ApiPropertyOptional({
+    description: 'Retractions and cancellations of this bid',
+    type: () => [BidAuditEntry],
+  })
+  audit_log?: BidAuditEntry[];
 }
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Listing } from '../../listings/entities/listing.entity';
+
+export class SecondChanceOffer {
+  @ApiProperty({
+    description: 'Offer ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Auction ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  auction_id: string;
+
+  @ApiProperty({
+    description: 'Listing ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  listing_id: string;
+
+  @ApiPropertyOptional({
+    description: 'Listing details',
+    type: () => Listing,
+  })
+  listing?: Listing;
+
+  @ApiProperty({
+    description: 'Seller ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  seller_id: string;
+
+  @ApiProperty({
+    description: 'Bidder the item is offered to',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  bidder_id: string;
+
+  @ApiProperty({
+    description: "Offer price (the bidder's highest bid)",
+    example: 140.0,
+  })
+  amount: number;
+
+  @ApiProperty({
+    description: 'Currency',
+    example: 'USD',
+    default: 'USD',
+  })
+  currency: string;
+
+  @ApiProperty({
+    description: 'Offer status',
+    enum: ['pending', 'accepted', 'declined', 'expired'],
+    example: 'pending',
+  })
+  status: string;
+
+  @ApiProperty({
+    description: 'Offer expiry',
+    example: '2024-01-09T23:59:59.000Z',
+  })
+  expires_at: string;
+
+  @ApiPropertyOptional({
+    description: 'When the bidder accepted or declined',
+    example: '2024-01-08T10:00:00.000Z',
+  })
+  responded_at?: string;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2024-01-08T00:00:00.000Z',
+  })
+  created_at: string;
+
+  @ApiProperty({
+    description: 'Last update timestamp',
+    example: '2024-01-08T00:00:00.000Z',
+  })
+  updated_at: string;
+}
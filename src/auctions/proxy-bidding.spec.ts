@@ -0,0 +1,80 @@
+import { minimumNextBid, resolveProxyBids } from './proxy-bidding';
+
+describe('resolveProxyBids', () => {
+  it('opens a proxy at the minimum increment when nobody is leading', () => {
+    const steps = resolveProxyBids({
+      currentBid: 100,
+      leader: null,
+      bidder: { bidderId: 'alice', maxAmount: 200 },
+    });
+
+    expect(steps).toEqual([
+      { bidder_id: 'alice', bid_amount: 105, is_auto: true },
+    ]);
+  });
+
+  it('keeps a plain bid at the amount the bidder chose', () => {
+    const steps = resolveProxyBids({
+      currentBid: 100,
+      leader: { bidderId: 'alice' },
+      bidder: { bidderId: 'bob', bidAmount: 120 },
+    });
+
+    expect(steps).toEqual([
+      { bidder_id: 'bob', bid_amount: 120, is_auto: false },
+    ]);
+  });
+
+  it('lets a leading proxy answer a lower plain bid with one increment more', () => {
+    const steps = resolveProxyBids({
+      currentBid: 105,
+      leader: { bidderId: 'alice', maxAmount: 200 },
+      bidder: { bidderId: 'bob', bidAmount: 120 },
+    });
+
+    expect(steps).toEqual([
+      { bidder_id: 'bob', bid_amount: 120, is_auto: false },
+      { bidder_id: 'alice', bid_amount: 126, is_auto: true },
+    ]);
+  });
+
+  it('resolves two proxies in favour of the higher maximum', () => {
+    const steps = resolveProxyBids({
+      currentBid: 105,
+      leader: { bidderId: 'alice', maxAmount: 150 },
+      bidder: { bidderId: 'bob', maxAmount: 300 },
+    });
+
+    expect(steps).toEqual([
+      { bidder_id: 'alice', bid_amount: 150, is_auto: true },
+      { bidder_id: 'bob', bid_amount: minimumNextBid(150), is_auto: true },
+    ]);
+  });
+
+  it('never bids a proxy past its maximum', () => {
+    const steps = resolveProxyBids({
+      currentBid: 105,
+      leader: { bidderId: 'alice', maxAmount: 150 },
+      bidder: { bidderId: 'bob', maxAmount: 152 },
+    });
+
+    expect(steps[steps.length - 1]).toEqual({
+      bidder_id: 'bob',
+      bid_amount: 152,
+      is_auto: true,
+    });
+  });
+
+  it('gives a tie to the proxy that was leading first', () => {
+    const steps = resolveProxyBids({
+      currentBid: 105,
+      leader: { bidderId: 'alice', maxAmount: 200 },
+      bidder: { bidderId: 'bob', maxAmount: 200 },
+    });
+
+    expect(steps).toEqual([
+      { bidder_id: 'bob', bid_amount: 200, is_auto: true },
+      { bidder_id: 'alice', bid_amount: 200, is_auto: true },
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+// Proxy (automatic maximum) bidding rules shared by auction bid placement.
+// Everything here is pure so the resolution order can be reasoned about and
+// tested without a database.
+
+export interface ProxyBidStep {
+  bidder_id: string;
+  bid_amount: number;
+  is_auto: boolean;
+}
+
+export interface ProxyBidInput {
+  // Current visible price (current_bid, or starting_price before any bids)
+  currentBid: number;
+  // Bidder currently in the lead, with their hidden maximum if they have one
+  leader: { bidderId: string; maxAmount?: number } | null;
+  // Incoming bid: a plain bid_amount, a proxy maxAmount, or both
+  bidder: { bidderId: string; bidAmount?: number; maxAmount?: number };
+}
+
+export function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// 5% minimum increment or $1, whichever is larger
+export function minimumIncrement(currentBid: number): number {
+  return Math.max(currentBid * 0.05, 1);
+}
+
+export function minimumNextBid(currentBid: number): number {
+  return roundToCents(currentBid + minimumIncrement(currentBid));
+}
+
+/**
+ * Works out the visible bids produced by an incoming bid, eBay style.
+ *
+ * A proxy bidder only ever bids the minimum increment needed to take the lead,
+ * up to their maximum. When two proxies meet, the lower maximum is bid in full
+ * and the higher one answers with one increment more (capped at its maximum).
+ * Ties go to the bidder who was leading first.
+ *
+ * Steps are returned in the order they should be recorded; the last step is
+ * the new leading bid.
+ */
+export function resolveProxyBids(input: ProxyBidInput): ProxyBidStep[] {
+  const { currentBid, leader, bidder } = input;
+  const isProxy = bidder.maxAmount !== undefined;
+  const challengerMax = (bidder.maxAmount ?? bidder.bidAmount) as number;
+
+  // Visible amount for the incoming bidder when they need at least `needed`
+  const openingBid = (needed: number): number => {
+    if (!isProxy) {
+      return bidder.bidAmount as number;
+    }
+    return roundToCents(
+      Math.min(challengerMax, Math.max(needed, bidder.bidAmount ?? needed)),
+    );
+  };
+
+  const minimumBid = minimumNextBid(currentBid);
+
+  if (!leader || leader.bidderId === bidder.bidderId) {
+    return [
+      {
+        bidder_id: bidder.bidderId,
+        bid_amount: openingBid(minimumBid),
+        is_auto: isProxy,
+      },
+    ];
+  }
+
+  const leaderMax = Math.max(leader.maxAmount ?? currentBid, currentBid);
+
+  if (challengerMax > leaderMax) {
+    const steps: ProxyBidStep[] = [];
+
+    // The leader's proxy bids its full maximum before being overtaken
+    if (leaderMax > currentBid) {
+      steps.push({
+        bidder_id: leader.bidderId,
+        bid_amount: roundToCents(leaderMax),
+        is_auto: true,
+      });
+    }
+
+    const needed = Math.max(minimumBid, minimumNextBid(leaderMax));
+    steps.push({
+      bidder_id: bidder.bidderId,
+      bid_amount: openingBid(needed),
+      is_auto: isProxy,
+    });
+
+    return steps;
+  }
+
+  // The leader's proxy holds: the challenger is recorded at their maximum and
+  // the leader answers with one increment more, never exceeding their own maximum
+  return [
+    {
+      bidder_id: bidder.bidderId,
+      bid_amount: roundToCents(challengerMax),
+      is_auto: isProxy,
+    },
+    {
+      bidder_id: leader.bidderId,
+      bid_amount: roundToCents(
+        Math.min(leaderMax, challengerMax + minimumIncrement(challengerMax)),
+      ),
+      is_auto: true,
+    },
+  ];
+}
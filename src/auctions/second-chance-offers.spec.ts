@@ -0,0 +1,202 @@
+import { BadRequestException } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { OrdersService } from '../orders/orders.service';
+import { PaymentsService } from '../payments/payments.service';
+import { AuctionsService } from './auctions.service';
+import { AuctionEventsService } from './auction-events.service';
+
+// In-memory tables behind a chainable query builder
+function createSupabaseMock(tables: Record<string, any[]>) {
+  const from = (table: string) => {
+    const rows = tables[table];
+    const filters: ((row: any) => boolean)[] = [];
+    let patch: Record<string, any> | null = null;
+    let inserted: any[] | null = null;
+    let sort: { column: string; ascending: boolean } | null = null;
+
+    const run = () => {
+      if (inserted) {
+        rows.push(...inserted);
+        return inserted.map((row) => ({ ...row }));
+      }
+      const matched = rows.filter((row) => filters.every((f) => f(row)));
+      if (patch) matched.forEach((row) => Object.assign(row, patch));
+      if (sort) {
+        const { column, ascending } = sort;
+        matched.sort((a, b) =>
+          ascending ? a[column] - b[column] : b[column] - a[column],
+        );
+      }
+      return matched.map((row) => ({ ...row }));
+    };
+
+    const builder: any = {
+      select: () => builder,
+      update: (values: Record<string, any>) => {
+        patch = values;
+        return builder;
+      },
+      insert: (values: any) => {
+        inserted = Array.isArray(values) ? values : [values];
+        return builder;
+      },
+      eq: (column: string, value: any) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      neq: (column: string, value: any) => {
+        // Arrays compare in their Postgres literal form, e.g. '{}'
+        const literal = (v: any) => (Array.isArray(v) ? `{${v.join(',')}}` : v);
+        filters.push((row) => literal(row[column]) !== value);
+        return builder;
+      },
+      is: (column: string, value: null) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      lte: (column: string, value: string) => {
+        filters.push((row) => row[column] <= value);
+        return builder;
+      },
+      gt: (column: string, value: string) => {
+        filters.push((row) => row[column] > value);
+        return builder;
+      },
+      order: (column: string, { ascending = true } = {}) => {
+        sort = { column, ascending };
+        return builder;
+      },
+      single: () => {
+        const [row] = run();
+        return Promise.resolve({
+          data: row ?? null,
+          error: row ? null : { message: 'not found' },
+        });
+      },
+      maybeSingle: () => {
+        const [row] = run();
+        return Promise.resolve({ data: row ?? null, error: null });
+      },
+      then: (resolve: any, reject: any) =>
+        Promise.resolve({ data: run(), error: null }).then(resolve, reject),
+    };
+    return builder;
+  };
+
+  return { from };
+}
+
+describe('AuctionsService second-chance offers', () => {
+  const hoursAgo = (hours: number) =>
+    new Date(Date.now() - hours * 3600000).toISOString();
+  const inHours = (hours: number) =>
+    new Date(Date.now() + hours * 3600000).toISOString();
+
+  let tables: Record<string, any[]>;
+  let service: AuctionsService;
+
+  const offer = (bidderId: string, expiresAt: string) => ({
+    id: `offer-${bidderId}`,
+    auction_id: 'auction-1',
+    listing_id: 'listing-1',
+    seller_id: 'seller-1',
+    bidder_id: bidderId,
+    amount: 90,
+    currency: 'USD',
+    status: 'pending',
+    expires_at: expiresAt,
+  });
+
+  beforeEach(() => {
+    tables = {
+      auctions: [
+        {
+          id: 'auction-1',
+          status: 'ended',
+          listing_id: 'listing-1',
+          winning_bidder_id: null,
+          defaulted_bidder_ids: [],
+          listing: { seller_id: 'seller-1', status: 'expired' },
+        },
+      ],
+      bids: [
+        {
+          auction_id: 'auction-1',
+          bidder_id: 'alice',
+          bid_amount: 90,
+          status: 'active',
+        },
+        {
+          auction_id: 'auction-1',
+          bidder_id: 'bob',
+          bid_amount: 80,
+          status: 'active',
+        },
+      ],
+      second_chance_offers: [],
+    };
+
+    service = new AuctionsService(
+      {
+        getClient: () => createSupabaseMock(tables),
+      } as unknown as SupabaseService,
+      new AuctionEventsService(),
+      {} as OrdersService,
+      {} as PaymentsService,
+    );
+  });
+
+  it('offers to the highest bidder who has not had an offer yet', async () => {
+    const created = await service.createSecondChanceOffer(
+      'auction-1',
+      'seller-1',
+    );
+
+    expect(created).toMatchObject({
+      bidder_id: 'alice',
+      amount: 90,
+      status: 'pending',
+    });
+  });
+
+  it('refuses a new offer while one is still waiting for an answer', async () => {
+    tables.second_chance_offers.push(offer('alice', inHours(1)));
+
+    await expect(
+      service.createSecondChanceOffer('auction-1', 'seller-1'),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('expires a lapsed offer and moves on to the next bidder', async () => {
+    tables.second_chance_offers.push(offer('alice', hoursAgo(1)));
+
+    const created = await service.createSecondChanceOffer(
+      'auction-1',
+      'seller-1',
+    );
+
+    expect(created).toMatchObject({ bidder_id: 'bob', amount: 80 });
+    expect(tables.second_chance_offers[0].status).toBe('expired');
+  });
+
+  it('offers to the next bidder once the fallback offer after an unpaid win lapses', async () => {
+    tables.auctions[0].defaulted_bidder_ids = ['carol'];
+    tables.second_chance_offers.push(offer('alice', hoursAgo(1)));
+
+    expect(await service.continueSecondChanceFallbacks()).toBe(1);
+    expect(tables.second_chance_offers[1]).toMatchObject({
+      bidder_id: 'bob',
+      status: 'pending',
+    });
+
+    // Bob's offer is still open, so nothing more happens for now
+    expect(await service.continueSecondChanceFallbacks()).toBe(0);
+  });
+
+  it('leaves auctions that ended unsold without an unpaid win to the seller', async () => {
+    tables.second_chance_offers.push(offer('alice', hoursAgo(1)));
+
+    expect(await service.continueSecondChanceFallbacks()).toBe(0);
+    expect(tables.second_chance_offers).toHaveLength(1);
+  });
+});
@@ -0,0 +1,60 @@
+// Anti-sniping soft close: a bid placed in the last few minutes of an auction
+// pushes auction_end out, up to a maximum number of extensions per auction.
+
+export const DEFAULT_SOFT_CLOSE_WINDOW_MINUTES = 2;
+export const DEFAULT_SOFT_CLOSE_EXTENSION_MINUTES = 2;
+export const DEFAULT_MAX_EXTENSIONS = 10;
+
+export interface SoftCloseSettings {
+  auction_end: string;
+  soft_close_window_minutes?: number | null;
+  soft_close_extension_minutes?: number | null;
+  max_extensions?: number | null;
+  extension_count?: number | null;
+}
+
+export interface SoftCloseExtension {
+  auction_end: string;
+  extension_count: number;
+  last_extended_at: string;
+}
+
+/**
+ * Returns the auction changes to apply when a bid arrives at `bidTime`, or
+ * null when the bid is outside the window or the auction has used up its
+ * extensions. Unset settings fall back to the defaults above; a window of 0
+ * turns soft close off for that auction.
+ */
+export function getSoftCloseExtension(
+  auction: SoftCloseSettings,
+  bidTime: Date,
+): SoftCloseExtension | null {
+  const windowMinutes =
+    auction.soft_close_window_minutes ?? DEFAULT_SOFT_CLOSE_WINDOW_MINUTES;
+  const extensionMinutes =
+    auction.soft_close_extension_minutes ??
+    DEFAULT_SOFT_CLOSE_EXTENSION_MINUTES;
+  const maxExtensions = auction.max_extensions ?? DEFAULT_MAX_EXTENSIONS;
+  const extensionCount = auction.extension_count ?? 0;
+
+  if (windowMinutes <= 0 || extensionMinutes <= 0) {
+    return null;
+  }
+
+  if (extensionCount >= maxExtensions) {
+    return null;
+  }
+
+  const endTime = new Date(auction.auction_end).getTime();
+  const remaining = endTime - bidTime.getTime();
+
+  if (remaining < 0 || remaining > windowMinutes * 60000) {
+    return null;
+  }
+
+  return {
+    auction_end: new Date(endTime + extensionMinutes * 60000).toISOString(),
+    extension_count: extensionCount + 1,
+    last_extended_at: bidTime.toISOString(),
+  };
+}
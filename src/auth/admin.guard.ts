@@ -0,0 +1,35 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+
+// Use after SupabaseGuard: it needs request.user to be set
+@Injectable()
+export class AdminGuard implements CanActivate {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const userId = request.user?.id;
+
+    if (!userId) {
+      throw new ForbiddenException('Admin access required');
+    }
+
+    const { data: user } = await this.supabaseService
+      .getClient()
+      .from('users')
+      .select('role')
+      .eq('id', userId)
+      .single();
+
+    if (user?.role !== 'admin') {
+      throw new ForbiddenException('Admin access required');
+    }
+
+    return true;
+  }
+}
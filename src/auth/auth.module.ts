@@ -4,6 +4,7 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller'
 import { SupabaseGuard } from './supabase.guard';
+import { AdminGuard } from './admin.guard';
 import { SupabaseService } from '../supabase/supabase.service';
 import { SupabaseModule } from 'src/supabase/supabase.module';
 
@@ -22,7 +23,7 @@ import { SupabaseModule } from 'src/supabase/supabase.module';
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, SupabaseService, SupabaseGuard],
-  exports: [AuthService, SupabaseGuard, JwtModule],
+  providers: [AuthService, SupabaseService, SupabaseGuard, AdminGuard],
+  exports: [AuthService, SupabaseGuard, AdminGuard, JwtModule],
 })
 export class AuthModule {}
\ No newline at end of file
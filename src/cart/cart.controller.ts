@@ -0,0 +1,150 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { CartService } from './cart.service';
+import { Cart, CheckoutResult } from './entities/cart.entity';
+import { AddCartItemDto, UpdateCartItemDto } from './dto/cart-item.dto';
+import { CheckoutDto } from './dto/checkout.dto';
+import { DeliveryQuote } from '../delivery/entities/delivery-option.entity';
+import { SupabaseGuard } from '../auth/supabase.guard';
+import { User } from '../common/decorators/user.decorator';
+
+@ApiTags('cart')
+@Controller('cart')
+@UseGuards(SupabaseGuard)
+@ApiBearerAuth()
+export class CartController {
+  constructor(private readonly cartService: CartService) {}
+
+  @Get()
+  @ApiOperation({ summary: "Get the current user's cart" })
+  @ApiResponse({
+    status: 200,
+    description: 'Cart with current prices',
+    type: Cart,
+  })
+  async getCart(@User() user: any): Promise<Cart> {
+    return this.cartService.getCart(user.id);
+  }
+
+  @Post('items')
+  @ApiOperation({ summary: 'Add a listing to the cart' })
+  @ApiResponse({ status: 201, description: 'Item added', type: Cart })
+  @ApiResponse({
+    status: 400,
+    description: 'Listing unavailable or not enough stock',
+  })
+  @ApiResponse({ status: 404, description: 'Listing not found' })
+  async addItem(
+    @User() user: any,
+    @Body() itemData: AddCartItemDto,
+  ): Promise<Cart> {
+    return this.cartService.addItem(user.id, itemData);
+  }
+
+  @Put('items/:listingId')
+  @ApiOperation({ summary: 'Change the quantity of a cart item' })
+  @ApiParam({
+    name: 'listingId',
+    description: 'Listing ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({ status: 200, description: 'Quantity updated', type: Cart })
+  @ApiResponse({ status: 400, description: 'Not enough stock' })
+  @ApiResponse({ status: 404, description: 'Item is not in the cart' })
+  async updateItem(
+    @User() user: any,
+    @Param('listingId') listingId: string,
+    @Body() itemData: UpdateCartItemDto,
+  ): Promise<Cart> {
+    return this.cartService.updateItemQuantity(
+      user.id,
+      listingId,
+      itemData.quantity,
+    );
+  }
+
+  @Delete('items/:listingId')
+  @ApiOperation({ summary: 'Remove an item from the cart' })
+  @ApiParam({
+    name: 'listingId',
+    description: 'Listing ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({ status: 200, description: 'Item removed', type: Cart })
+  async removeItem(
+    @User() user: any,
+    @Param('listingId') listingId: string,
+  ): Promise<Cart> {
+    return this.cartService.removeItem(user.id, listingId);
+  }
+
+  @Delete()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Empty the cart' })
+  @ApiResponse({ status: 204, description: 'Cart emptied' })
+  async clearCart(@User() user: any): Promise<void> {
+    return this.cartService.clearCart(user.id);
+  }
+
+  @Get('delivery-quote')
+  @ApiOperation({
+    summary: 'Quote delivery for the cart',
+    description:
+      "Each seller's items travel as one parcel; the fee is the highest among them",
+  })
+  @ApiQuery({ name: 'city', required: true, example: 'Bulawayo' })
+  @ApiResponse({
+    status: 200,
+    description: 'One quote per seller',
+    type: [DeliveryQuote],
+  })
+  async getDeliveryQuote(
+    @User() user: any,
+    @Query('city') city: string,
+  ): Promise<DeliveryQuote[]> {
+    return this.cartService.getDeliveryQuote(user.id, city || '');
+  }
+
+  @Post('checkout')
+  @ApiOperation({
+    summary: 'Check out the cart',
+    description:
+      'Creates one order per seller and a single payment intent for all of them',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Orders created',
+    type: CheckoutResult,
+  })
+  @ApiResponse({ status: 400, description: 'Cart empty or mixed currencies' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Items unavailable, out of stock or changed price (see issues)',
+  })
+  async checkout(
+    @User() user: any,
+    @Body() checkoutData: CheckoutDto,
+  ): Promise<CheckoutResult> {
+    return this.cartService.checkout(user.id, checkoutData);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { OrdersModule } from '../orders/orders.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { DeliveryModule } from '../delivery/delivery.module';
+import { CartService } from './cart.service';
+import { CartController } from './cart.controller';
+
+@Module({
+  imports: [SupabaseModule, OrdersModule, PaymentsModule, DeliveryModule],
+  providers: [CartService],
+  controllers: [CartController],
+  exports: [CartService],
+})
+export class CartModule {}
@@ -0,0 +1,380 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { OrdersService, CheckoutOrderItem } from '../orders/orders.service';
+import { Order } from '../orders/entities/order.entity';
+import { PaymentsService } from '../payments/payments.service';
+import { DeliveryService } from '../delivery/delivery.service';
+import { DeliveryQuote } from '../delivery/entities/delivery-option.entity';
+import { Cart, CartItem, CheckoutResult } from './entities/cart.entity';
+import { AddCartItemDto } from './dto/cart-item.dto';
+import { CheckoutDto } from './dto/checkout.dto';
+
+interface CheckoutIssue {
+  listing_id: string;
+  title?: string;
+  problem: 'unavailable' | 'insufficient_stock' | 'price_changed';
+  quantity_available?: number;
+  old_price?: number;
+  new_price?: number;
+}
+
+@Injectable()
+export class CartService {
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly ordersService: OrdersService,
+    private readonly paymentsService: PaymentsService,
+    private readonly deliveryService: DeliveryService,
+  ) {}
+
+  async getCart(userId: string): Promise<Cart> {
+    const items = (await this.getCartItems(userId)).map((item) => {
+      const listing = item.listing;
+      const available =
+        !!listing &&
+        listing.status === 'active' &&
+        (listing.quantity_available ?? 1) >= item.quantity;
+
+      return {
+        ...item,
+        price_changed: !!listing && listing.price_amount !== item.unit_price,
+        available,
+      };
+    });
+
+    const total = items.reduce(
+      (sum, item) =>
+        sum + (item.listing?.price_amount ?? item.unit_price) * item.quantity,
+      0,
+    );
+
+    return {
+      items,
+      total: Math.round(total * 100) / 100,
+      item_count: items.reduce((sum, item) => sum + item.quantity, 0),
+    };
+  }
+
+  async addItem(userId: string, itemData: AddCartItemDto): Promise<Cart> {
+    const supabase = this.supabaseService.getClient();
+    const quantity = itemData.quantity || 1;
+
+    const listing = await this.getPurchasableListing(
+      itemData.listing_id,
+      userId,
+    );
+
+    const { data: existing } = await supabase
+      .from('cart_items')
+      .select('id, quantity')
+      .eq('user_id', userId)
+      .eq('listing_id', itemData.listing_id)
+      .maybeSingle();
+
+    const newQuantity = (existing?.quantity || 0) + quantity;
+    this.assertInStock(listing, newQuantity);
+
+    // Re-adding an item refreshes the price the buyer agreed to
+    const { error } = await supabase.from('cart_items').upsert(
+      {
+        user_id: userId,
+        listing_id: itemData.listing_id,
+        quantity: newQuantity,
+        unit_price: listing.price_amount,
+        currency: listing.price_currency || 'USD',
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id,listing_id' },
+    );
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to add item to cart: ${error.message}`,
+      );
+    }
+
+    return this.getCart(userId);
+  }
+
+  async updateItemQuantity(
+    userId: string,
+    listingId: string,
+    quantity: number,
+  ): Promise<Cart> {
+    const supabase = this.supabaseService.getClient();
+
+    const listing = await this.getPurchasableListing(listingId, userId);
+    this.assertInStock(listing, quantity);
+
+    const { data: item, error } = await supabase
+      .from('cart_items')
+      .update({ quantity, updated_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('listing_id', listingId)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestException(`Failed to update cart: ${error.message}`);
+    }
+
+    if (!item) {
+      throw new NotFoundException('Item is not in your cart');
+    }
+
+    return this.getCart(userId);
+  }
+
+  async removeItem(userId: string, listingId: string): Promise<Cart> {
+    const supabase = this.supabaseService.getClient();
+
+    const { error } = await supabase
+      .from('cart_items')
+      .delete()
+      .eq('user_id', userId)
+      .eq('listing_id', listingId);
+
+    if (error) {
+      throw new BadRequestException(`Failed to remove item: ${error.message}`);
+    }
+
+    return this.getCart(userId);
+  }
+
+  async clearCart(userId: string): Promise<void> {
+    const supabase = this.supabaseService.getClient();
+
+    const { error } = await supabase
+      .from('cart_items')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new BadRequestException(`Failed to clear cart: ${error.message}`);
+    }
+  }
+
+  // Delivery options for the cart to a city, one parcel per seller
+  async getDeliveryQuote(
+    userId: string,
+    city: string,
+  ): Promise<DeliveryQuote[]> {
+    const items = await this.getCartItems(userId);
+
+    if (items.length === 0) {
+      return [];
+    }
+
+    return this.deliveryService.quote(
+      items.map((item) => item.listing_id),
+      city,
+    );
+  }
+
+  // Turns the cart into one order per seller plus a single payment intent.
+  // Nothing is ordered if any item is unavailable, or if prices changed and
+  // the buyer has not accepted the new prices.
+  async checkout(
+    userId: string,
+    checkoutData: CheckoutDto,
+  ): Promise<CheckoutResult> {
+    const supabase = this.supabaseService.getClient();
+
+    const items = await this.getCartItems(userId);
+
+    if (items.length === 0) {
+      throw new BadRequestException('Your cart is empty');
+    }
+
+    const issues: CheckoutIssue[] = [];
+
+    for (const item of items) {
+      const listing = item.listing;
+
+      if (
+        !listing ||
+        listing.status !== 'active' ||
+        listing.listing_type === 'auction'
+      ) {
+        issues.push({
+          listing_id: item.listing_id,
+          title: listing?.title,
+          problem: 'unavailable',
+        });
+      } else if ((listing.quantity_available ?? 1) < item.quantity) {
+        issues.push({
+          listing_id: item.listing_id,
+          title: listing.title,
+          problem: 'insufficient_stock',
+          quantity_available: listing.quantity_available ?? 1,
+        });
+      } else if (
+        listing.price_amount !== item.unit_price &&
+        !checkoutData.accept_price_changes
+      ) {
+        issues.push({
+          listing_id: item.listing_id,
+          title: listing.title,
+          problem: 'price_changed',
+          old_price: item.unit_price,
+          new_price: listing.price_amount,
+        });
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new ConflictException({
+        statusCode: 409,
+        error: 'Conflict',
+        message: 'Some items in your cart changed since you added them',
+        issues,
+      });
+    }
+
+    const currencies = new Set(
+      items.map((item) => item.listing!.price_currency || 'USD'),
+    );
+    if (currencies.size > 1) {
+      throw new BadRequestException(
+        'All items in a checkout must be in the same currency',
+      );
+    }
+    const [listingCurrency] = currencies;
+    // Every order is paid in the same currency, converted from the listings'
+    const currency = checkoutData.currency || listingCurrency;
+
+    // Group the lines by seller, priced at the current listing price
+    const bySeller = new Map<string, CheckoutOrderItem[]>();
+    for (const item of items) {
+      const sellerId = item.listing!.seller_id;
+      bySeller.set(sellerId, [
+        ...(bySeller.get(sellerId) || []),
+        {
+          listing_id: item.listing_id,
+          quantity: item.quantity,
+          unit_price: item.listing!.price_amount,
+          currency: listingCurrency,
+        },
+      ]);
+    }
+
+    const orders: Order[] = [];
+    try {
+      for (const [sellerId, sellerItems] of bySeller) {
+        orders.push(
+          await this.ordersService.createCheckoutOrder(
+            userId,
+            sellerId,
+            sellerItems,
+            {
+              payment_method: checkoutData.payment_method,
+              shipping_address: checkoutData.shipping_address,
+              delivery_method: checkoutData.delivery_method,
+              delivery_city: checkoutData.delivery_city,
+              currency,
+            },
+          ),
+        );
+      }
+    } catch (error) {
+      // Rollback: cancelling puts the reserved stock back
+      await this.cancelOrders(orders);
+      throw error;
+    }
+
+    let paymentIntent;
+    try {
+      paymentIntent = await this.paymentsService.createPaymentIntent(
+        userId,
+        orders,
+        currency,
+      );
+    } catch (error) {
+      await this.cancelOrders(orders);
+      throw error;
+    }
+
+    await supabase.from('cart_items').delete().eq('user_id', userId);
+
+    return { orders, payment_intent: paymentIntent };
+  }
+
+  private async cancelOrders(orders: Order[]): Promise<void> {
+    for (const order of orders) {
+      try {
+        await this.ordersService.cancelOrder(order.id, null, 'Checkout failed');
+      } catch (error) {
+        console.error(`Failed to roll back order ${order.id}:`, error);
+      }
+    }
+  }
+
+  private async getCartItems(userId: string): Promise<CartItem[]> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: items, error } = await supabase
+      .from('cart_items')
+      .select(
+        `
+        *,
+        listing:listings (*)
+      `,
+      )
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new BadRequestException(`Failed to fetch cart: ${error.message}`);
+    }
+
+    return items || [];
+  }
+
+  private async getPurchasableListing(listingId: string, userId: string) {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: listing, error } = await supabase
+      .from('listings')
+      .select(
+        'id, seller_id, status, listing_type, price_amount, price_currency, quantity_available',
+      )
+      .eq('id', listingId)
+      .single();
+
+    if (error || !listing) {
+      throw new NotFoundException('Listing not found');
+    }
+
+    if (listing.listing_type === 'auction') {
+      throw new BadRequestException(
+        'Auction items cannot be added to the cart',
+      );
+    }
+
+    if (listing.status !== 'active') {
+      throw new BadRequestException('This listing is no longer available');
+    }
+
+    if (listing.seller_id === userId) {
+      throw new BadRequestException('You cannot buy your own listing');
+    }
+
+    return listing;
+  }
+
+  private assertInStock(
+    listing: { quantity_available?: number | null },
+    quantity: number,
+  ): void {
+    const available = listing.quantity_available ?? 1;
+
+    if (quantity > available) {
+      throw new BadRequestException(`Only ${available} left in stock`);
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, IsUUID, Min } from 'class-validator';
+
+export class AddCartItemDto {
+  @ApiProperty({
+    description: 'Listing to add',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID()
+  listing_id: string;
+
+  @ApiPropertyOptional({
+    description: 'Units to add (added to any already in the cart)',
+    example: 1,
+    default: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  quantity?: number = 1;
+}
+
+export class UpdateCartItemDto {
+  @ApiProperty({
+    description: 'New quantity',
+    example: 2,
+  })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
@@ -0,0 +1,59 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsEnum, IsOptional, IsString } from 'class-validator';
+import { DeliveryMethod } from '../../delivery/entities/delivery-option.entity';
+
+export class CheckoutDto {
+  @ApiPropertyOptional({
+    description: 'Payment method',
+    example: 'ecocash',
+    enum: ['ecocash', 'onemoney', 'bank_transfer', 'cash'],
+  })
+  @IsOptional()
+  @IsString()
+  payment_method?: string;
+
+  @ApiPropertyOptional({
+    description: 'Shipping address',
+    example: '123 Main St, Harare, Zimbabwe',
+  })
+  @IsOptional()
+  @IsString()
+  shipping_address?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Delivery method for every seller in the cart (see GET /cart/delivery-quote)',
+    enum: DeliveryMethod,
+    example: DeliveryMethod.ZIMPOST,
+  })
+  @IsOptional()
+  @IsEnum(DeliveryMethod)
+  delivery_method?: DeliveryMethod;
+
+  @ApiPropertyOptional({
+    description: 'Destination city (required unless collecting)',
+    example: 'Bulawayo',
+  })
+  @IsOptional()
+  @IsString()
+  delivery_city?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Currency for payment (default: the listings' currency). Other currencies are converted at today's rate",
+    enum: ['USD', 'ZWL'],
+  })
+  @IsOptional()
+  @IsEnum(['USD', 'ZWL'])
+  currency?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Check out at current prices even if some changed since they were added to the cart',
+    example: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  accept_price_changes?: boolean;
+}
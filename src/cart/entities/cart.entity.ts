@@ -0,0 +1,89 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Listing } from '../../listings/entities/listing.entity';
+import { Order } from '../../orders/entities/order.entity';
+import { PaymentIntent } from '../../payments/entities/payment-intent.entity';
+
+export class CartItem {
+  @ApiProperty({
+    description: 'Cart item ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Listing ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  listing_id: string;
+
+  @ApiProperty({
+    description: 'Units in the cart',
+    example: 2,
+  })
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Price per unit when the item was added',
+    example: 25.0,
+  })
+  unit_price: number;
+
+  @ApiProperty({
+    description: 'Currency',
+    example: 'USD',
+  })
+  currency: string;
+
+  @ApiPropertyOptional({
+    description: 'Listing details',
+    type: () => Listing,
+  })
+  listing?: Listing;
+
+  // Calculated fields (added by service)
+  @ApiPropertyOptional({
+    description: 'Has the listing price changed since the item was added?',
+    example: false,
+  })
+  price_changed?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Can the item still be bought in this quantity?',
+    example: true,
+  })
+  available?: boolean;
+
+  @ApiProperty({
+    description: 'When the item was added',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  created_at: string;
+}
+
+export class Cart {
+  @ApiProperty({ description: 'Items in the cart', type: [CartItem] })
+  items: CartItem[];
+
+  @ApiProperty({
+    description: 'Total at current listing prices',
+    example: 75.0,
+  })
+  total: number;
+
+  @ApiProperty({
+    description: 'Number of units in the cart',
+    example: 3,
+  })
+  item_count: number;
+}
+
+export class CheckoutResult {
+  @ApiProperty({ description: 'One order per seller', type: [Order] })
+  orders: Order[];
+
+  @ApiProperty({
+    description: 'Single payment covering all orders',
+    type: PaymentIntent,
+  })
+  payment_intent: PaymentIntent;
+}
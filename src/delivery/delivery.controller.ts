@@ -0,0 +1,73 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { DeliveryService } from './delivery.service';
+import {
+  DeliveryOption,
+  DeliveryQuote,
+} from './entities/delivery-option.entity';
+import { SetDeliveryOptionsDto } from './dto/delivery-option.dto';
+import { SupabaseGuard } from '../auth/supabase.guard';
+import { User } from '../common/decorators/user.decorator';
+
+@ApiTags('delivery')
+@Controller('delivery')
+export class DeliveryController {
+  constructor(private readonly deliveryService: DeliveryService) {}
+
+  @Get('quote')
+  @ApiOperation({ summary: 'Quote the delivery options for a listing' })
+  @ApiQuery({ name: 'listing_id', required: true })
+  @ApiQuery({ name: 'city', required: true, example: 'Bulawayo' })
+  @ApiResponse({ status: 200, type: DeliveryQuote })
+  @ApiResponse({ status: 404, description: 'Listing not found' })
+  async quote(
+    @Query('listing_id') listingId: string,
+    @Query('city') city: string,
+  ): Promise<DeliveryQuote> {
+    const [quote] = await this.deliveryService.quote([listingId], city || '');
+    return quote;
+  }
+
+  @Get('listings/:listingId')
+  @ApiOperation({ summary: 'Get the delivery options of a listing' })
+  @ApiResponse({ status: 200, type: [DeliveryOption] })
+  async getListingOptions(
+    @Param('listingId') listingId: string,
+  ): Promise<DeliveryOption[]> {
+    return this.deliveryService.getListingOptions(listingId);
+  }
+
+  @Put('listings/:listingId')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Set the delivery options of my listing (replaces existing ones)',
+  })
+  @ApiResponse({ status: 200, type: [DeliveryOption] })
+  @ApiResponse({ status: 403, description: 'Not your listing' })
+  async setListingOptions(
+    @Param('listingId') listingId: string,
+    @User() user: any,
+    @Body() optionsData: SetDeliveryOptionsDto,
+  ): Promise<DeliveryOption[]> {
+    return this.deliveryService.setListingOptions(
+      listingId,
+      user.id,
+      optionsData,
+    );
+  }
+}
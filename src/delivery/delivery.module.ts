@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { DeliveryService } from './delivery.service';
+import { DeliveryController } from './delivery.controller';
+
+@Module({
+  imports: [SupabaseModule],
+  providers: [DeliveryService],
+  controllers: [DeliveryController],
+  exports: [DeliveryService],
+})
+export class DeliveryModule {}
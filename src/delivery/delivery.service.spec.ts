@@ -0,0 +1,129 @@
+import { BadRequestException } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { DeliveryService } from './delivery.service';
+import { DeliveryMethod } from './entities/delivery-option.entity';
+
+// Read-only listings and listing_delivery_options behind a chainable builder
+function createSupabaseMock(tables: Record<string, any[]>) {
+  const from = (table: string) => {
+    const filters: ((row: any) => boolean)[] = [];
+
+    const builder: any = {
+      select: () => builder,
+      in: (column: string, values: any[]) => {
+        filters.push((row) => values.includes(row[column]));
+        return builder;
+      },
+      then: (resolve: any, reject: any) =>
+        Promise.resolve({
+          data: tables[table].filter((row) => filters.every((f) => f(row))),
+          error: null,
+        }).then(resolve, reject),
+    };
+    return builder;
+  };
+
+  return { from };
+}
+
+const option = (
+  listing_id: string,
+  method: DeliveryMethod,
+  fee: number,
+  destination_city: string | null = null,
+  estimated_days: number | null = null,
+) => ({ listing_id, method, fee, destination_city, estimated_days });
+
+describe('DeliveryService', () => {
+  let delivery: DeliveryService;
+
+  beforeEach(() => {
+    const client = createSupabaseMock({
+      listings: [
+        {
+          id: 'stool',
+          seller_id: 'seller-1',
+          price_currency: 'USD',
+          city: 'Harare',
+          suburb: 'Avondale',
+        },
+        {
+          id: 'pot',
+          seller_id: 'seller-1',
+          price_currency: 'USD',
+          city: 'Harare',
+          suburb: 'Avondale',
+        },
+        {
+          id: 'basket',
+          seller_id: 'seller-2',
+          price_currency: 'USD',
+          city: 'Gweru',
+          suburb: null,
+        },
+      ],
+      listing_delivery_options: [
+        option('stool', DeliveryMethod.COLLECTION, 0),
+        option('stool', DeliveryMethod.ZIMPOST, 6, null, 5),
+        option('stool', DeliveryMethod.ZIMPOST, 4, 'Bulawayo', 3),
+        option('stool', DeliveryMethod.BUS_PARCEL, 3),
+        option('pot', DeliveryMethod.COLLECTION, 0),
+        option('pot', DeliveryMethod.ZIMPOST, 5, null, 4),
+        option('basket', DeliveryMethod.LOCAL_COURIER, 2, 'Gweru'),
+      ],
+    });
+
+    delivery = new DeliveryService({
+      getClient: () => client,
+    } as unknown as SupabaseService);
+  });
+
+  it('prefers the fee set for the destination city', async () => {
+    const [bulawayo] = await delivery.quote(['stool'], 'bulawayo');
+    const [mutare] = await delivery.quote(['stool'], 'Mutare');
+
+    expect(
+      bulawayo.options.find((o) => o.method === DeliveryMethod.ZIMPOST),
+    ).toMatchObject({ fee: 4, estimated_days: 3 });
+    expect(
+      mutare.options.find((o) => o.method === DeliveryMethod.ZIMPOST),
+    ).toMatchObject({ fee: 6, estimated_days: 5 });
+  });
+
+  it('quotes one parcel per seller with methods offered for every item', async () => {
+    const quotes = await delivery.quote(['stool', 'pot', 'basket'], 'Gweru');
+
+    expect(quotes).toHaveLength(2);
+    expect(quotes[0]).toMatchObject({
+      seller_id: 'seller-1',
+      listing_ids: ['stool', 'pot'],
+      options: [
+        {
+          method: DeliveryMethod.COLLECTION,
+          fee: 0,
+          collection_point: 'Avondale, Harare',
+        },
+        { method: DeliveryMethod.ZIMPOST, fee: 6, estimated_days: 5 },
+      ],
+    });
+    expect(quotes[1].options).toEqual([
+      { method: DeliveryMethod.LOCAL_COURIER, fee: 2, estimated_days: null },
+    ]);
+  });
+
+  it('rejects methods that are not offered to the city', async () => {
+    await expect(
+      delivery.getDeliveryFee(
+        ['basket'],
+        DeliveryMethod.LOCAL_COURIER,
+        'Harare',
+      ),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      delivery.getDeliveryFee(['stool'], DeliveryMethod.ZIMPOST),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    await expect(
+      delivery.getDeliveryFee(['stool'], DeliveryMethod.COLLECTION),
+    ).resolves.toMatchObject({ fee: 0 });
+  });
+});
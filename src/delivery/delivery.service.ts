@@ -0,0 +1,271 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import {
+  DeliveryMethod,
+  DeliveryOption,
+  DeliveryQuote,
+  DeliveryQuoteOption,
+} from './entities/delivery-option.entity';
+import { SetDeliveryOptionsDto } from './dto/delivery-option.dto';
+
+interface QuotedListing {
+  id: string;
+  seller_id: string;
+  price_currency: string | null;
+  city: string | null;
+  suburb: string | null;
+}
+
+// Sellers set delivery options per listing, with fees by destination city.
+// Items a seller ships together travel as one parcel, so a parcel costs the
+// highest fee among its items.
+@Injectable()
+export class DeliveryService {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async getListingOptions(listingId: string): Promise<DeliveryOption[]> {
+    const { data: options, error } = await this.supabaseService
+      .getClient()
+      .from('listing_delivery_options')
+      .select('*')
+      .eq('listing_id', listingId)
+      .order('method')
+      .order('destination_city', { nullsFirst: true });
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch delivery options: ${error.message}`,
+      );
+    }
+
+    return options || [];
+  }
+
+  async setListingOptions(
+    listingId: string,
+    sellerId: string,
+    optionsData: SetDeliveryOptionsDto,
+  ): Promise<DeliveryOption[]> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: listing } = await supabase
+      .from('listings')
+      .select('seller_id')
+      .eq('id', listingId)
+      .single();
+
+    if (!listing) {
+      throw new NotFoundException('Listing not found');
+    }
+
+    if (listing.seller_id !== sellerId) {
+      throw new ForbiddenException(
+        'Only the seller can change delivery options',
+      );
+    }
+
+    const rows = optionsData.options.map((option) =>
+      option.method === DeliveryMethod.COLLECTION
+        ? {
+            listing_id: listingId,
+            method: option.method,
+            destination_city: null,
+            fee: 0,
+            estimated_days: option.estimated_days ?? null,
+          }
+        : {
+            listing_id: listingId,
+            method: option.method,
+            destination_city: option.destination_city?.trim() || null,
+            fee: option.fee,
+            estimated_days: option.estimated_days ?? null,
+          },
+    );
+
+    const keys = new Set(
+      rows.map(
+        (row) => `${row.method}:${(row.destination_city || '').toLowerCase()}`,
+      ),
+    );
+    if (keys.size !== rows.length) {
+      throw new BadRequestException(
+        'Each method can only have one fee per destination city',
+      );
+    }
+
+    // Kept without their ids so a rollback can insert them again as they were
+    const { data: previous } = await supabase
+      .from('listing_delivery_options')
+      .select(
+        'listing_id, method, destination_city, fee, estimated_days, created_at',
+      )
+      .eq('listing_id', listingId);
+
+    await supabase
+      .from('listing_delivery_options')
+      .delete()
+      .eq('listing_id', listingId);
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const { error } = await supabase
+      .from('listing_delivery_options')
+      .insert(
+        rows.map((row) => ({ ...row, created_at: new Date().toISOString() })),
+      );
+
+    if (error) {
+      // Rollback: put the old options back
+      if (previous && previous.length > 0) {
+        await supabase.from('listing_delivery_options').insert(previous);
+      }
+      throw new BadRequestException(
+        `Failed to save delivery options: ${error.message}`,
+      );
+    }
+
+    return this.getListingOptions(listingId);
+  }
+
+  // What it costs to get the listings to a city, one quote per seller
+  async quote(listingIds: string[], city: string): Promise<DeliveryQuote[]> {
+    const supabase = this.supabaseService.getClient();
+    const uniqueIds = [...new Set(listingIds)];
+
+    const { data: listings } = await supabase
+      .from('listings')
+      .select('id, seller_id, price_currency, city, suburb')
+      .in('id', uniqueIds);
+
+    if (!listings || listings.length < uniqueIds.length) {
+      throw new NotFoundException('Listing not found');
+    }
+
+    const { data: options, error } = await supabase
+      .from('listing_delivery_options')
+      .select('*')
+      .in('listing_id', uniqueIds);
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch delivery options: ${error.message}`,
+      );
+    }
+
+    const bySeller = new Map<string, QuotedListing[]>();
+    for (const listing of listings as QuotedListing[]) {
+      bySeller.set(listing.seller_id, [
+        ...(bySeller.get(listing.seller_id) || []),
+        listing,
+      ]);
+    }
+
+    return [...bySeller.entries()].map(([sellerId, sellerListings]) => ({
+      seller_id: sellerId,
+      listing_ids: sellerListings.map((listing) => listing.id),
+      currency: sellerListings[0].price_currency || 'USD',
+      options: this.quoteParcel(sellerListings, options || [], city),
+    }));
+  }
+
+  // Fee for sending one seller's listings with the chosen method. Throws if
+  // the method isn't offered for all of them to that city.
+  async getDeliveryFee(
+    listingIds: string[],
+    method: DeliveryMethod,
+    city?: string,
+  ): Promise<DeliveryQuoteOption> {
+    if (method !== DeliveryMethod.COLLECTION && !city) {
+      throw new BadRequestException(
+        'delivery_city is required for this delivery method',
+      );
+    }
+
+    const [quote] = await this.quote(listingIds, city || '');
+    const option = quote?.options.find((o) => o.method === method);
+
+    if (!option) {
+      throw new BadRequestException(
+        method === DeliveryMethod.COLLECTION
+          ? 'Collection is not offered for these items'
+          : `Delivery by ${method} to ${city} is not offered for these items`,
+      );
+    }
+
+    return option;
+  }
+
+  private quoteParcel(
+    listings: QuotedListing[],
+    options: DeliveryOption[],
+    city: string,
+  ): DeliveryQuoteOption[] {
+    const quoted: DeliveryQuoteOption[] = [];
+
+    for (const method of Object.values(DeliveryMethod)) {
+      const matches = listings.map((listing) =>
+        this.findOption(options, listing.id, method, city),
+      );
+
+      if (matches.some((match) => !match)) {
+        continue;
+      }
+
+      const quote: DeliveryQuoteOption = {
+        method,
+        fee: Math.max(...matches.map((match) => Number(match!.fee))),
+        estimated_days: matches.reduce<number | null>(
+          (days, match) =>
+            match!.estimated_days === null
+              ? days
+              : Math.max(days ?? 0, match!.estimated_days),
+          null,
+        ),
+      };
+
+      // Collection only makes sense if everything is in one place
+      if (method === DeliveryMethod.COLLECTION) {
+        const points = new Set(
+          listings.map((listing) =>
+            [listing.suburb, listing.city].filter(Boolean).join(', '),
+          ),
+        );
+        if (points.size > 1) {
+          continue;
+        }
+        quote.collection_point = [...points][0] || undefined;
+      }
+
+      quoted.push(quote);
+    }
+
+    return quoted;
+  }
+
+  // A fee set for the destination city wins over the listing's default fee
+  private findOption(
+    options: DeliveryOption[],
+    listingId: string,
+    method: DeliveryMethod,
+    city: string,
+  ): DeliveryOption | undefined {
+    const forMethod = options.filter(
+      (option) => option.listing_id === listingId && option.method === method,
+    );
+
+    return (
+      forMethod.find(
+        (option) =>
+          !!option.destination_city &&
+          option.destination_city.toLowerCase() === city.trim().toLowerCase(),
+      ) || forMethod.find((option) => !option.destination_city)
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { DeliveryMethod } from '../entities/delivery-option.entity';
+
+export class DeliveryOptionDto {
+  @ApiProperty({ enum: DeliveryMethod, example: DeliveryMethod.ZIMPOST })
+  @IsEnum(DeliveryMethod)
+  method: DeliveryMethod;
+
+  @ApiPropertyOptional({
+    description:
+      'City this fee applies to (leave empty for all other cities; ignored for collection)',
+    example: 'Bulawayo',
+  })
+  @IsOptional()
+  @IsString()
+  destination_city?: string;
+
+  @ApiProperty({
+    description: 'Fee in the listing currency (collection is always free)',
+    example: 5,
+  })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  fee: number;
+
+  @ApiPropertyOptional({
+    description: 'Estimated days until the buyer has the item',
+    example: 3,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  estimated_days?: number;
+}
+
+export class SetDeliveryOptionsDto {
+  @ApiProperty({
+    description: 'Replaces all delivery options of the listing',
+    type: [DeliveryOptionDto],
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => DeliveryOptionDto)
+  options: DeliveryOptionDto[];
+}
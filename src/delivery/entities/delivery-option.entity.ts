@@ -0,0 +1,93 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export enum DeliveryMethod {
+  // Buyer picks the item up in the listing's city/suburb
+  COLLECTION = 'collection',
+  LOCAL_COURIER = 'local_courier',
+  ZIMPOST = 'zimpost',
+  // Parcel sent on an inter-city bus, collected at the destination rank
+  BUS_PARCEL = 'bus_parcel',
+}
+
+export class DeliveryOption {
+  @ApiProperty({
+    description: 'Delivery option ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Listing ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  listing_id: string;
+
+  @ApiProperty({ enum: DeliveryMethod, example: DeliveryMethod.ZIMPOST })
+  method: DeliveryMethod;
+
+  @ApiPropertyOptional({
+    description:
+      'City this fee applies to; empty means every city without its own fee',
+    example: 'Bulawayo',
+  })
+  destination_city: string | null;
+
+  @ApiProperty({
+    description: 'Fee in the listing currency',
+    example: 5,
+  })
+  fee: number;
+
+  @ApiPropertyOptional({
+    description: 'Estimated days until the buyer has the item',
+    example: 3,
+  })
+  estimated_days: number | null;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  created_at: string;
+}
+
+export class DeliveryQuoteOption {
+  @ApiProperty({ enum: DeliveryMethod, example: DeliveryMethod.ZIMPOST })
+  method: DeliveryMethod;
+
+  @ApiProperty({ description: 'Shipping fee for the parcel', example: 5 })
+  fee: number;
+
+  @ApiPropertyOptional({
+    description: 'Estimated days until the buyer has the item',
+    example: 3,
+  })
+  estimated_days: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Where to collect the item (collection only)',
+    example: 'Avondale, Harare',
+  })
+  collection_point?: string;
+}
+
+// Delivery choices for the items one seller would ship together
+export class DeliveryQuote {
+  @ApiProperty({
+    description: 'Seller ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  seller_id: string;
+
+  @ApiProperty({ description: 'Listings in the parcel', type: [String] })
+  listing_ids: string[];
+
+  @ApiProperty({ description: 'Currency of the fees', example: 'USD' })
+  currency: string;
+
+  @ApiProperty({
+    description: 'Methods offered for every listing in the parcel',
+    type: [DeliveryQuoteOption],
+  })
+  options: DeliveryQuoteOption[];
+}
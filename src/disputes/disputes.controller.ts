@@ -0,0 +1,131 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Put,
+  UploadedFiles,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { DisputesService } from './disputes.service';
+import { Dispute } from './entities/dispute.entity';
+import { DisputeMessage } from './entities/dispute-message.entity';
+import {
+  DisputeMessageDto,
+  OpenDisputeDto,
+  ResolveDisputeDto,
+} from './dto/dispute.dto';
+import { SupabaseGuard } from '../auth/supabase.guard';
+import { AdminGuard } from '../auth/admin.guard';
+import { User } from '../common/decorators/user.decorator';
+
+@ApiTags('disputes')
+@Controller('disputes')
+@UseGuards(SupabaseGuard)
+@ApiBearerAuth('JWT-auth')
+export class DisputesController {
+  constructor(private readonly disputesService: DisputesService) {}
+
+  @Post()
+  @UseInterceptors(FilesInterceptor('evidence', 5))
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Open a dispute on one of my orders, with evidence images',
+  })
+  @ApiResponse({ status: 201, type: Dispute })
+  @ApiResponse({
+    status: 409,
+    description: 'Order already has an open dispute',
+  })
+  async openDispute(
+    @User() user: any,
+    @Body() disputeData: OpenDisputeDto,
+    @UploadedFiles() evidence?: Express.Multer.File[],
+  ): Promise<Dispute> {
+    return this.disputesService.openDispute(user.id, disputeData, evidence);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get disputes I am a party to' })
+  @ApiResponse({ status: 200, type: [Dispute] })
+  async getMyDisputes(@User() user: any): Promise<Dispute[]> {
+    return this.disputesService.getUserDisputes(user.id);
+  }
+
+  @Get('active')
+  @UseGuards(AdminGuard)
+  @ApiOperation({ summary: 'Get disputes awaiting a decision (admin only)' })
+  @ApiResponse({ status: 200, description: 'Oldest first', type: [Dispute] })
+  async getActiveDisputes(): Promise<Dispute[]> {
+    return this.disputesService.getActiveDisputes();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a dispute with its messages' })
+  @ApiResponse({ status: 200, type: Dispute })
+  @ApiResponse({ status: 404, description: 'Dispute not found' })
+  async getDispute(
+    @Param('id') id: string,
+    @User() user: any,
+  ): Promise<Dispute> {
+    return this.disputesService.getDispute(id, user.id);
+  }
+
+  @Post(':id/messages')
+  @UseInterceptors(FilesInterceptor('attachments', 5))
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary:
+      'Reply on a dispute (buyer, seller or admin), with optional images',
+  })
+  @ApiResponse({ status: 201, type: DisputeMessage })
+  async addMessage(
+    @Param('id') id: string,
+    @User() user: any,
+    @Body() messageData: DisputeMessageDto,
+    @UploadedFiles() attachments?: Express.Multer.File[],
+  ): Promise<DisputeMessage> {
+    return this.disputesService.addMessage(
+      id,
+      user.id,
+      messageData,
+      attachments,
+    );
+  }
+
+  @Put(':id/resolve')
+  @UseGuards(AdminGuard)
+  @ApiOperation({
+    summary:
+      'Resolve a dispute: refund, partial refund or release (admin only)',
+  })
+  @ApiResponse({ status: 200, type: Dispute })
+  @ApiResponse({ status: 409, description: 'Dispute already closed' })
+  async resolveDispute(
+    @Param('id') id: string,
+    @User() user: any,
+    @Body() resolutionData: ResolveDisputeDto,
+  ): Promise<Dispute> {
+    return this.disputesService.resolveDispute(id, user.id, resolutionData);
+  }
+
+  @Put(':id/withdraw')
+  @ApiOperation({ summary: 'Withdraw my dispute (buyer only)' })
+  @ApiResponse({ status: 200, type: Dispute })
+  async withdrawDispute(
+    @Param('id') id: string,
+    @User() user: any,
+  ): Promise<Dispute> {
+    return this.disputesService.withdrawDispute(id, user.id);
+  }
+}
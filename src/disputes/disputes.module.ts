@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { MulterModule } from '@nestjs/platform-express';
+import { memoryStorage } from 'multer';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { DisputesService } from './disputes.service';
+import { DisputesController } from './disputes.controller';
+
+@Module({
+  imports: [
+    SupabaseModule,
+    PaymentsModule,
+    NotificationsModule,
+    MulterModule.register({
+      storage: memoryStorage(),
+      limits: {
+        fileSize: 5 * 1024 * 1024, // 5MB limit
+      },
+    }),
+  ],
+  providers: [DisputesService],
+  controllers: [DisputesController],
+})
+export class DisputesModule {}
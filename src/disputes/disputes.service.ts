@@ -0,0 +1,417 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { EscrowService } from '../payments/escrow.service';
+import { PaymentsService } from '../payments/payments.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  ACTIVE_DISPUTE_STATUSES,
+  Dispute,
+  DisputeResolution,
+  DisputeStatus,
+} from './entities/dispute.entity';
+import { DisputeMessage } from './entities/dispute-message.entity';
+import {
+  DisputeMessageDto,
+  OpenDisputeDto,
+  ResolveDisputeDto,
+} from './dto/dispute.dto';
+
+// Orders a buyer can dispute: paid for and on its way or arrived. Pending
+// orders can simply be cancelled instead.
+const DISPUTABLE_ORDER_STATUSES = ['confirmed', 'shipped', 'delivered'];
+
+@Injectable()
+export class DisputesService {
+  private readonly EVIDENCE_BUCKET = 'dispute-evidence';
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly escrowService: EscrowService,
+    private readonly paymentsService: PaymentsService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  async openDispute(
+    buyerId: string,
+    disputeData: OpenDisputeDto,
+    evidence: Express.Multer.File[] = [],
+  ): Promise<Dispute> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: order } = await supabase
+      .from('orders')
+      .select('id, buyer_id, seller_id, status')
+      .eq('id', disputeData.order_id)
+      .single();
+
+    if (!order || order.buyer_id !== buyerId) {
+      throw new NotFoundException('Order not found');
+    }
+
+    if (!DISPUTABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new BadRequestException(
+        `Orders that are ${order.status} cannot be disputed`,
+      );
+    }
+
+    const evidenceUrls = await this.uploadEvidence(evidence, order.id);
+
+    const { data: dispute, error } = await supabase
+      .from('disputes')
+      .insert({
+        order_id: order.id,
+        buyer_id: buyerId,
+        seller_id: order.seller_id,
+        reason: disputeData.reason,
+        description: disputeData.description,
+        evidence_urls: evidenceUrls,
+        status: DisputeStatus.OPEN,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // One active dispute per order (see migration)
+      if (error.code === '23505') {
+        throw new ConflictException('This order already has an open dispute');
+      }
+      throw new BadRequestException(`Failed to open dispute: ${error.message}`);
+    }
+
+    await this.escrowService.freezeForOrder(order.id);
+
+    await this.notificationsService.notifyUsers([order.seller_id], {
+      type: 'dispute_opened',
+      title: 'A buyer opened a dispute',
+      message: 'Please respond to the dispute on your order.',
+      data: { dispute_id: dispute.id, order_id: order.id },
+    });
+
+    return dispute;
+  }
+
+  async addMessage(
+    id: string,
+    userId: string,
+    messageData: DisputeMessageDto,
+    attachments: Express.Multer.File[] = [],
+  ): Promise<DisputeMessage> {
+    const supabase = this.supabaseService.getClient();
+    const dispute = await this.findDispute(id);
+    const role = await this.getRole(dispute, userId);
+
+    if (!ACTIVE_DISPUTE_STATUSES.includes(dispute.status)) {
+      throw new BadRequestException(`Dispute is ${dispute.status}`);
+    }
+
+    const attachmentUrls = await this.uploadEvidence(
+      attachments,
+      dispute.order_id,
+    );
+
+    const { data: message, error } = await supabase
+      .from('dispute_messages')
+      .insert({
+        dispute_id: id,
+        sender_id: userId,
+        sender_role: role,
+        message: messageData.message,
+        attachment_urls: attachmentUrls,
+        created_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new BadRequestException(`Failed to add message: ${error.message}`);
+    }
+
+    // The seller's first response hands the dispute to an admin
+    if (role === 'seller' && dispute.status === DisputeStatus.OPEN) {
+      await supabase
+        .from('disputes')
+        .update({
+          status: DisputeStatus.UNDER_REVIEW,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .eq('status', DisputeStatus.OPEN);
+    }
+
+    await this.notificationsService.notifyUsers(
+      [dispute.buyer_id, dispute.seller_id].filter((p) => p !== userId),
+      {
+        type: 'dispute_message',
+        title: 'New message on a dispute',
+        message: messageData.message.slice(0, 140),
+        data: { dispute_id: id, order_id: dispute.order_id },
+      },
+    );
+
+    return message;
+  }
+
+  async getDispute(id: string, userId: string): Promise<Dispute> {
+    const supabase = this.supabaseService.getClient();
+    const dispute = await this.findDispute(id);
+    await this.getRole(dispute, userId);
+
+    const { data: messages } = await supabase
+      .from('dispute_messages')
+      .select('*')
+      .eq('dispute_id', id)
+      .order('created_at', { ascending: true });
+
+    return { ...dispute, messages: messages || [] };
+  }
+
+  // Disputes the user is a party to, as buyer or seller
+  async getUserDisputes(userId: string): Promise<Dispute[]> {
+    const { data: disputes, error } = await this.supabaseService
+      .getClient()
+      .from('disputes')
+      .select('*')
+      .or(`buyer_id.eq.${userId},seller_id.eq.${userId}`)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch disputes: ${error.message}`,
+      );
+    }
+
+    return disputes || [];
+  }
+
+  async getActiveDisputes(): Promise<Dispute[]> {
+    const { data: disputes, error } = await this.supabaseService
+      .getClient()
+      .from('disputes')
+      .select('*')
+      .in('status', ACTIVE_DISPUTE_STATUSES)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch disputes: ${error.message}`,
+      );
+    }
+
+    return disputes || [];
+  }
+
+  // Admin decision. The escrow is unfrozen and then refunded and/or released
+  // to the seller according to the resolution.
+  async resolveDispute(
+    id: string,
+    adminId: string,
+    resolutionData: ResolveDisputeDto,
+  ): Promise<Dispute> {
+    const dispute = await this.findDispute(id);
+
+    if (
+      resolutionData.resolution === DisputeResolution.PARTIAL_REFUND &&
+      !resolutionData.amount
+    ) {
+      throw new BadRequestException('amount is required for a partial refund');
+    }
+
+    const resolved = await this.closeDispute(dispute, DisputeStatus.RESOLVED, {
+      resolution: resolutionData.resolution,
+      resolution_note: resolutionData.note,
+      resolved_by: adminId,
+    });
+
+    const reason = `Dispute resolved${resolutionData.note ? `: ${resolutionData.note}` : ''}`;
+
+    try {
+      await this.escrowService.unfreezeForOrder(dispute.order_id);
+
+      let refundAmount = 0;
+      if (resolutionData.resolution !== DisputeResolution.RELEASE) {
+        const refunds = await this.paymentsService.refundOrder(
+          dispute.order_id,
+          reason,
+          {
+            amount:
+              resolutionData.resolution === DisputeResolution.PARTIAL_REFUND
+                ? resolutionData.amount
+                : undefined,
+            createdBy: adminId,
+          },
+        );
+        refundAmount = refunds.reduce((sum, r) => sum + Number(r.amount), 0);
+      }
+
+      if (resolutionData.resolution !== DisputeResolution.REFUND) {
+        await this.escrowService.releaseForOrder(dispute.order_id);
+      }
+
+      await this.supabaseService
+        .getClient()
+        .from('disputes')
+        .update({ refund_amount: refundAmount })
+        .eq('id', id);
+      resolved.refund_amount = refundAmount;
+    } catch (error) {
+      // Put the dispute back so the admin can try again
+      await this.supabaseService
+        .getClient()
+        .from('disputes')
+        .update({
+          status: dispute.status,
+          resolution: null,
+          resolution_note: null,
+          resolved_by: null,
+          resolved_at: null,
+        })
+        .eq('id', id);
+      await this.escrowService.freezeForOrder(dispute.order_id);
+      throw error;
+    }
+
+    await this.notificationsService.notifyUsers(
+      [dispute.buyer_id, dispute.seller_id],
+      {
+        type: 'dispute_resolved',
+        title: 'Dispute resolved',
+        message: reason,
+        data: {
+          dispute_id: id,
+          order_id: dispute.order_id,
+          resolution: resolutionData.resolution,
+        },
+      },
+    );
+
+    return resolved;
+  }
+
+  // The buyer drops the dispute; the funds carry on as if it never happened
+  async withdrawDispute(id: string, buyerId: string): Promise<Dispute> {
+    const dispute = await this.findDispute(id);
+
+    if (dispute.buyer_id !== buyerId) {
+      throw new ForbiddenException('Only the buyer can withdraw a dispute');
+    }
+
+    const withdrawn = await this.closeDispute(
+      dispute,
+      DisputeStatus.WITHDRAWN,
+      {},
+    );
+    await this.escrowService.unfreezeForOrder(dispute.order_id);
+
+    await this.notificationsService.notifyUsers([dispute.seller_id], {
+      type: 'dispute_withdrawn',
+      title: 'Dispute withdrawn',
+      message: 'The buyer withdrew their dispute.',
+      data: { dispute_id: id, order_id: dispute.order_id },
+    });
+
+    return withdrawn;
+  }
+
+  private async closeDispute(
+    dispute: Dispute,
+    status: DisputeStatus,
+    changes: Record<string, any>,
+  ): Promise<Dispute> {
+    const now = new Date().toISOString();
+
+    const { data: closed } = await this.supabaseService
+      .getClient()
+      .from('disputes')
+      .update({ ...changes, status, resolved_at: now, updated_at: now })
+      .eq('id', dispute.id)
+      .in('status', ACTIVE_DISPUTE_STATUSES)
+      .select()
+      .maybeSingle();
+
+    if (!closed) {
+      throw new ConflictException('Dispute is already closed');
+    }
+
+    return closed;
+  }
+
+  private async findDispute(id: string): Promise<Dispute> {
+    const { data: dispute } = await this.supabaseService
+      .getClient()
+      .from('disputes')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (!dispute) {
+      throw new NotFoundException('Dispute not found');
+    }
+
+    return dispute;
+  }
+
+  private async getRole(
+    dispute: Dispute,
+    userId: string,
+  ): Promise<'buyer' | 'seller' | 'admin'> {
+    if (dispute.buyer_id === userId) return 'buyer';
+    if (dispute.seller_id === userId) return 'seller';
+
+    const { data: user } = await this.supabaseService
+      .getClient()
+      .from('users')
+      .select('role')
+      .eq('id', userId)
+      .single();
+
+    if (user?.role === 'admin') return 'admin';
+
+    // Outsiders can't tell whether the dispute exists
+    throw new NotFoundException('Dispute not found');
+  }
+
+  private async uploadEvidence(
+    files: Express.Multer.File[],
+    orderId: string,
+  ): Promise<string[]> {
+    const supabase = this.supabaseService.getAdminClient();
+    const urls: string[] = [];
+
+    for (const file of files) {
+      if (!file.mimetype.startsWith('image/')) {
+        throw new BadRequestException('Evidence must be images');
+      }
+
+      const extension = file.originalname.split('.').pop();
+      const path = `${orderId}/${Date.now()}-${Math.random().toString(36).substring(2, 15)}.${extension}`;
+
+      const { data, error } = await supabase.storage
+        .from(this.EVIDENCE_BUCKET)
+        .upload(path, file.buffer, {
+          contentType: file.mimetype,
+          upsert: false,
+        });
+
+      if (error) {
+        throw new BadRequestException(
+          `Failed to upload evidence: ${error.message}`,
+        );
+      }
+
+      urls.push(
+        supabase.storage.from(this.EVIDENCE_BUCKET).getPublicUrl(data.path).data
+          .publicUrl,
+      );
+    }
+
+    return urls;
+  }
+}
@@ -0,0 +1,80 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { DisputeResolution } from '../entities/dispute.entity';
+
+export class OpenDisputeDto {
+  @ApiProperty({
+    description: 'Order being disputed',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @IsUUID()
+  order_id: string;
+
+  @ApiProperty({
+    description: 'Reason',
+    enum: ['not_received', 'not_as_described', 'damaged', 'other'],
+    example: 'not_received',
+  })
+  @IsEnum(['not_received', 'not_as_described', 'damaged', 'other'])
+  reason: string;
+
+  @ApiProperty({
+    description: 'What went wrong',
+    example: 'Tracking shows delivered but nothing arrived.',
+    maxLength: 2000,
+  })
+  @IsString()
+  @MaxLength(2000)
+  description: string;
+}
+
+export class DisputeMessageDto {
+  @ApiProperty({
+    description: 'Message text',
+    example: 'The parcel was handed to the courier on 3 January.',
+    maxLength: 2000,
+  })
+  @IsString()
+  @MaxLength(2000)
+  message: string;
+}
+
+export class ResolveDisputeDto {
+  @ApiProperty({
+    description:
+      'refund: everything back to the buyer; partial_refund: amount back to the buyer, the rest to the seller; release: everything to the seller',
+    enum: DisputeResolution,
+  })
+  @IsEnum(DisputeResolution)
+  resolution: DisputeResolution;
+
+  @ApiPropertyOptional({
+    description: 'Amount refunded to the buyer (partial_refund only)',
+    example: 20.0,
+  })
+  @ValidateIf((o) => o.resolution === DisputeResolution.PARTIAL_REFUND)
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  amount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Explanation shown to buyer and seller',
+    example: 'Seller could not show proof of delivery.',
+    maxLength: 1000,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
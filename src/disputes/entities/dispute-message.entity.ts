@@ -0,0 +1,47 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class DisputeMessage {
+  @ApiProperty({
+    description: 'Message ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Dispute the message belongs to',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  dispute_id: string;
+
+  @ApiProperty({
+    description: 'Author',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  sender_id: string;
+
+  @ApiProperty({
+    description: 'Role of the author in the dispute',
+    enum: ['buyer', 'seller', 'admin'],
+    example: 'seller',
+  })
+  sender_role: string;
+
+  @ApiProperty({
+    description: 'Message text',
+    example: 'The parcel was handed to the courier on 3 January.',
+  })
+  message: string;
+
+  @ApiProperty({
+    description: 'Evidence images attached to the message',
+    type: [String],
+    example: ['https://example.com/evidence/receipt.jpg'],
+  })
+  attachment_urls: string[];
+
+  @ApiProperty({
+    description: 'When the message was posted',
+    example: '2024-01-10T00:00:00.000Z',
+  })
+  created_at: string;
+}
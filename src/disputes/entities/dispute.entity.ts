@@ -0,0 +1,124 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DisputeMessage } from './dispute-message.entity';
+
+export enum DisputeStatus {
+  // Waiting for the seller to respond
+  OPEN = 'open',
+  // The seller responded; waiting for an admin decision
+  UNDER_REVIEW = 'under_review',
+  RESOLVED = 'resolved',
+  WITHDRAWN = 'withdrawn',
+}
+
+export enum DisputeResolution {
+  REFUND = 'refund',
+  PARTIAL_REFUND = 'partial_refund',
+  RELEASE = 'release',
+}
+
+// Disputes in these states hold the order's escrow and the seller's payouts
+export const ACTIVE_DISPUTE_STATUSES = [
+  DisputeStatus.OPEN,
+  DisputeStatus.UNDER_REVIEW,
+];
+
+export class Dispute {
+  @ApiProperty({
+    description: 'Dispute ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Disputed order',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  order_id: string;
+
+  @ApiProperty({
+    description: 'Buyer who opened the dispute',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  buyer_id: string;
+
+  @ApiProperty({
+    description: 'Seller of the order',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  seller_id: string;
+
+  @ApiProperty({
+    description: 'Reason',
+    enum: ['not_received', 'not_as_described', 'damaged', 'other'],
+    example: 'not_received',
+  })
+  reason: string;
+
+  @ApiProperty({
+    description: "Buyer's description of the problem",
+    example: 'Tracking shows delivered but nothing arrived.',
+  })
+  description: string;
+
+  @ApiProperty({
+    description: 'Evidence images uploaded with the dispute',
+    type: [String],
+    example: ['https://example.com/evidence/photo.jpg'],
+  })
+  evidence_urls: string[];
+
+  @ApiProperty({
+    description: 'Dispute status',
+    enum: DisputeStatus,
+    example: DisputeStatus.OPEN,
+  })
+  status: DisputeStatus;
+
+  @ApiPropertyOptional({
+    description: 'How an admin resolved the dispute',
+    enum: DisputeResolution,
+  })
+  resolution?: DisputeResolution;
+
+  @ApiPropertyOptional({
+    description: 'Amount refunded to the buyer by the resolution',
+    example: 20.0,
+  })
+  refund_amount?: number;
+
+  @ApiPropertyOptional({
+    description: "Admin's note on the decision",
+    example: 'Seller could not show proof of delivery.',
+  })
+  resolution_note?: string;
+
+  @ApiPropertyOptional({
+    description: 'Admin who resolved the dispute',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  resolved_by?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the dispute was resolved or withdrawn',
+    example: '2024-01-15T00:00:00.000Z',
+  })
+  resolved_at?: string;
+
+  @ApiPropertyOptional({
+    description: 'Conversation between buyer, seller and admin, oldest first',
+    type: () => [DisputeMessage],
+  })
+  messages?: DisputeMessage[];
+
+  @ApiProperty({
+    description: 'When the dispute was opened',
+    example: '2024-01-10T00:00:00.000Z',
+  })
+  created_at: string;
+
+  @ApiProperty({
+    description: 'Last update',
+    example: '2024-01-10T00:00:00.000Z',
+  })
+  updated_at: string;
+}
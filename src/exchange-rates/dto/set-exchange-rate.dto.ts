@@ -0,0 +1,36 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsIn, IsNumber, IsOptional } from 'class-validator';
+import { SUPPORTED_CURRENCIES } from '../exchange-rates.service';
+
+export class SetExchangeRateDto {
+  @ApiProperty({
+    description: 'Currency being priced',
+    enum: SUPPORTED_CURRENCIES,
+    example: 'USD',
+  })
+  @IsIn(SUPPORTED_CURRENCIES)
+  base_currency: string;
+
+  @ApiProperty({
+    description: 'Currency the rate is quoted in',
+    enum: SUPPORTED_CURRENCIES,
+    example: 'ZWL',
+  })
+  @IsIn(SUPPORTED_CURRENCIES)
+  quote_currency: string;
+
+  @ApiProperty({
+    description: 'Units of quote_currency per unit of base_currency',
+    example: 26.75,
+  })
+  @IsNumber()
+  rate: number;
+
+  @ApiPropertyOptional({
+    description: 'Day the rate applies from (default: today)',
+    example: '2024-06-01',
+  })
+  @IsOptional()
+  @IsDateString()
+  effective_date?: string;
+}
@@ -0,0 +1,59 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+// One day's rate for a currency pair: 1 base_currency = rate quote_currency
+export class ExchangeRate {
+  @ApiProperty({
+    description: 'Rate ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({ description: 'Currency being priced', example: 'USD' })
+  base_currency: string;
+
+  @ApiProperty({
+    description: 'Currency the rate is quoted in',
+    example: 'ZWL',
+  })
+  quote_currency: string;
+
+  @ApiProperty({
+    description: 'Units of quote_currency per unit of base_currency',
+    example: 26.75,
+  })
+  rate: number;
+
+  @ApiProperty({
+    description: 'Day the rate applies from (until a newer one is set)',
+    example: '2024-06-01',
+  })
+  effective_date: string;
+
+  @ApiProperty({
+    description: 'How the rate was entered',
+    enum: ['manual', 'import'],
+    example: 'manual',
+  })
+  source: string;
+
+  @ApiPropertyOptional({
+    description: 'Admin who entered the rate',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  created_by?: string;
+
+  @ApiProperty({
+    description: 'When the rate was entered',
+    example: '2024-06-01T08:00:00.000Z',
+  })
+  created_at: string;
+}
+
+// An amount converted at a snapshotted rate
+export interface ConvertedAmount {
+  amount: number;
+  currency: string;
+  rate: number;
+  // effective_date of the rate used; null when no conversion was needed
+  rate_date: string | null;
+}
@@ -0,0 +1,116 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Post,
+  Query,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { ExchangeRate } from './entities/exchange-rate.entity';
+import { SetExchangeRateDto } from './dto/set-exchange-rate.dto';
+import { SupabaseGuard } from '../auth/supabase.guard';
+import { AdminGuard } from '../auth/admin.guard';
+import { User } from '../common/decorators/user.decorator';
+
+@ApiTags('exchange-rates')
+@Controller('exchange-rates')
+export class ExchangeRatesController {
+  constructor(private readonly exchangeRatesService: ExchangeRatesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get the exchange rates in force today' })
+  @ApiResponse({ status: 200, type: [ExchangeRate] })
+  async getCurrentRates(): Promise<ExchangeRate[]> {
+    return this.exchangeRatesService.getCurrentRates();
+  }
+
+  @Get('history')
+  @ApiOperation({ summary: 'Get the rate history of a currency pair' })
+  @ApiQuery({ name: 'base', example: 'USD' })
+  @ApiQuery({ name: 'quote', example: 'ZWL' })
+  @ApiQuery({ name: 'from', required: false, example: '2024-01-01' })
+  @ApiQuery({ name: 'to', required: false, example: '2024-12-31' })
+  @ApiResponse({
+    status: 200,
+    description: 'Newest first',
+    type: [ExchangeRate],
+  })
+  async getHistory(
+    @Query('base') base: string,
+    @Query('quote') quote: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ): Promise<ExchangeRate[]> {
+    if (!base || !quote) {
+      throw new BadRequestException('base and quote are required');
+    }
+    return this.exchangeRatesService.getHistory(
+      base.toUpperCase(),
+      quote.toUpperCase(),
+      from,
+      to,
+    );
+  }
+
+  @Post()
+  @UseGuards(SupabaseGuard, AdminGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Set the rate for a day (admin only)' })
+  @ApiResponse({ status: 201, type: ExchangeRate })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async setRate(
+    @Body() rateData: SetExchangeRateDto,
+    @User() user: any,
+  ): Promise<ExchangeRate> {
+    return this.exchangeRatesService.setRate(rateData, user.id);
+  }
+
+  @Post('import')
+  @UseGuards(SupabaseGuard, AdminGuard)
+  @UseInterceptors(FileInterceptor('file'))
+  @ApiBearerAuth('JWT-auth')
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description:
+            'CSV lines of effective_date,base_currency,quote_currency,rate',
+        },
+      },
+    },
+  })
+  @ApiOperation({ summary: 'Import daily rates from a CSV file (admin only)' })
+  @ApiResponse({ status: 201, type: [ExchangeRate] })
+  @ApiResponse({ status: 400, description: 'Invalid line; nothing imported' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async importRates(
+    @UploadedFile() file: Express.Multer.File,
+    @User() user: any,
+  ): Promise<ExchangeRate[]> {
+    if (!file) {
+      throw new BadRequestException('A CSV file is required');
+    }
+    return this.exchangeRatesService.importRates(
+      file.buffer.toString('utf8'),
+      user.id,
+    );
+  }
+}
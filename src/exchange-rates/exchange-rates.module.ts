@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { ExchangeRatesController } from './exchange-rates.controller';
+
+@Module({
+  imports: [SupabaseModule],
+  providers: [ExchangeRatesService],
+  controllers: [ExchangeRatesController],
+  exports: [ExchangeRatesService],
+})
+export class ExchangeRatesModule {}
@@ -0,0 +1,215 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { ConvertedAmount, ExchangeRate } from './entities/exchange-rate.entity';
+import { SetExchangeRateDto } from './dto/set-exchange-rate.dto';
+
+// ZWL is also used for the ZiG, which replaced it
+export const SUPPORTED_CURRENCIES = ['USD', 'ZWL'];
+
+const toDate = (at: Date) => at.toISOString().slice(0, 10);
+
+// Daily exchange rates with full history. A rate stays in force until a
+// newer effective_date is set; a pair can be looked up in either direction.
+@Injectable()
+export class ExchangeRatesService {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async setRate(
+    rateData: SetExchangeRateDto,
+    adminId: string,
+    source: 'manual' | 'import' = 'manual',
+  ): Promise<ExchangeRate> {
+    if (rateData.base_currency === rateData.quote_currency) {
+      throw new BadRequestException('Base and quote currency must differ');
+    }
+    if (!(rateData.rate > 0)) {
+      throw new BadRequestException('Rate must be greater than 0');
+    }
+
+    const supabase = this.supabaseService.getClient();
+
+    // Setting a rate again for the same day corrects it
+    const { data: rate, error } = await supabase
+      .from('exchange_rates')
+      .upsert(
+        {
+          base_currency: rateData.base_currency,
+          quote_currency: rateData.quote_currency,
+          rate: rateData.rate,
+          effective_date: rateData.effective_date
+            ? toDate(new Date(rateData.effective_date))
+            : toDate(new Date()),
+          source,
+          created_by: adminId,
+          created_at: new Date().toISOString(),
+        },
+        { onConflict: 'base_currency,quote_currency,effective_date' },
+      )
+      .select()
+      .single();
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to save exchange rate: ${error.message}`,
+      );
+    }
+
+    return rate;
+  }
+
+  // CSV with one rate per line: effective_date,base_currency,quote_currency,rate
+  // (a header line is allowed). Every line is checked before anything is saved.
+  async importRates(csv: string, adminId: string): Promise<ExchangeRate[]> {
+    const rows: SetExchangeRateDto[] = [];
+
+    csv
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .forEach((line, index) => {
+        if (!line || (index === 0 && /[a-z]/i.test(line.split(',')[0]))) {
+          return;
+        }
+
+        const [effectiveDate, base, quote, rate] = line
+          .split(',')
+          .map((value) => value.trim());
+        const row = {
+          effective_date: effectiveDate,
+          base_currency: (base || '').toUpperCase(),
+          quote_currency: (quote || '').toUpperCase(),
+          rate: Number(rate),
+        };
+
+        if (
+          isNaN(new Date(row.effective_date).getTime()) ||
+          !SUPPORTED_CURRENCIES.includes(row.base_currency) ||
+          !SUPPORTED_CURRENCIES.includes(row.quote_currency) ||
+          row.base_currency === row.quote_currency ||
+          !(row.rate > 0)
+        ) {
+          throw new BadRequestException(
+            `Invalid exchange rate on line ${index + 1}: ${line}`,
+          );
+        }
+
+        rows.push(row);
+      });
+
+    if (rows.length === 0) {
+      throw new BadRequestException('The file contains no exchange rates');
+    }
+
+    const saved: ExchangeRate[] = [];
+    for (const row of rows) {
+      saved.push(await this.setRate(row, adminId, 'import'));
+    }
+    return saved;
+  }
+
+  // The rate in force for every pair today
+  async getCurrentRates(): Promise<ExchangeRate[]> {
+    const current: ExchangeRate[] = [];
+
+    for (const base of SUPPORTED_CURRENCIES) {
+      for (const quote of SUPPORTED_CURRENCIES) {
+        if (base === quote) continue;
+        const rate = await this.findRate(base, quote, new Date());
+        if (rate) current.push(rate);
+      }
+    }
+
+    return current;
+  }
+
+  async getHistory(
+    baseCurrency: string,
+    quoteCurrency: string,
+    from?: string,
+    to?: string,
+  ): Promise<ExchangeRate[]> {
+    const supabase = this.supabaseService.getClient();
+
+    let query = supabase
+      .from('exchange_rates')
+      .select('*')
+      .eq('base_currency', baseCurrency)
+      .eq('quote_currency', quoteCurrency);
+
+    if (from) query = query.gte('effective_date', from);
+    if (to) query = query.lte('effective_date', to);
+
+    const { data: rates, error } = await query.order('effective_date', {
+      ascending: false,
+    });
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch exchange rate history: ${error.message}`,
+      );
+    }
+
+    return rates || [];
+  }
+
+  // Rate to multiply an amount in `from` by to get `to`, as of `at`
+  async getRate(
+    from: string,
+    to: string,
+    at: Date = new Date(),
+  ): Promise<{ rate: number; rate_date: string | null }> {
+    if (from === to) {
+      return { rate: 1, rate_date: null };
+    }
+
+    const direct = await this.findRate(from, to, at);
+    if (direct) {
+      return { rate: Number(direct.rate), rate_date: direct.effective_date };
+    }
+
+    const inverse = await this.findRate(to, from, at);
+    if (inverse) {
+      return {
+        rate: 1 / Number(inverse.rate),
+        rate_date: inverse.effective_date,
+      };
+    }
+
+    throw new BadRequestException(`No exchange rate from ${from} to ${to}`);
+  }
+
+  async convert(
+    amount: number,
+    from: string,
+    to: string,
+    at: Date = new Date(),
+  ): Promise<ConvertedAmount> {
+    const { rate, rate_date } = await this.getRate(from, to, at);
+
+    return {
+      amount: Math.round(amount * rate * 100) / 100,
+      currency: to,
+      rate,
+      rate_date,
+    };
+  }
+
+  private async findRate(
+    base: string,
+    quote: string,
+    at: Date,
+  ): Promise<ExchangeRate | null> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: rate } = await supabase
+      .from('exchange_rates')
+      .select('*')
+      .eq('base_currency', base)
+      .eq('quote_currency', quote)
+      .lte('effective_date', toDate(at))
+      .order('effective_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    return rate;
+  }
+}
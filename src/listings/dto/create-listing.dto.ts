@@ -7,6 +7,7 @@ import {
   IsDate, 
   Min, 
   MaxLength,
+  IsInt,
   ValidateIf,
   IsNumber,
 } from 'class-validator';
@@ -18,6 +19,13 @@ export enum Condition {
   REFURBISHED = 'refurbished'
 }
 
+// How long after delivery the buyer may send the item back
+export enum ReturnPolicy {
+  NONE = 'none',
+  DAYS_7 = '7_days',
+  DAYS_14 = '14_days'
+}
+
 export enum ListingType {
   AUCTION = 'auction',
   FIXED_PRICE = 'fixed_price'
@@ -58,6 +66,15 @@ export class CreateListingDto {
   @IsEnum(Condition)
   condition: Condition;
 
+  @ApiPropertyOptional({ 
+    enum: ReturnPolicy, 
+    description: 'Return policy (default: no returns)',
+    default: ReturnPolicy.NONE
+  })
+  @IsOptional()
+  @IsEnum(ReturnPolicy)
+  return_policy?: ReturnPolicy;
+
   @ApiProperty({ 
     description: 'Price amount', 
     example: 999.99 
@@ -65,6 +82,17 @@ export class CreateListingDto {
   @IsNumber()
   price_amount: number;
 
+  @ApiPropertyOptional({ 
+    description: 'Units in stock for fixed-price listings (default: 1, auctions always 1)', 
+    example: 5,
+    default: 1
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  quantity_available?: number;
+
   @ApiPropertyOptional({ 
     description: 'Currency code (default: USD)', 
     example: 'USD',
@@ -91,6 +119,68 @@ export class CreateListingDto {
   @Type(() => Date)
   auction_end?: Date;
 
+  @ApiPropertyOptional({ 
+    description: 'Auction start date (auctions starting in the future open automatically)', 
+    example: '2024-12-24T08:00:00Z' 
+  })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  auction_start?: Date;
+
+  @ApiPropertyOptional({ 
+    description: 'Auction reserve price: the item only sells if bidding reaches it (never shown to buyers)', 
+    example: 150.00
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  reserve_price?: number;
+
+  @ApiPropertyOptional({ 
+    description: 'Auction Buy-It-Now price: buyers can end the auction instantly at this price', 
+    example: 300.00
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  buy_now_price?: number;
+
+  @ApiPropertyOptional({ 
+    description: 'Auction soft close: bids in the last N minutes extend the auction (0 disables)', 
+    example: 2,
+    default: 2
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  soft_close_window_minutes?: number;
+
+  @ApiPropertyOptional({ 
+    description: 'Auction soft close: minutes added to auction_end per extension', 
+    example: 2,
+    default: 2
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  soft_close_extension_minutes?: number;
+
+  @ApiPropertyOptional({ 
+    description: 'Auction soft close: maximum number of extensions', 
+    example: 10,
+    default: 10
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  max_extensions?: number;
+
   @ApiPropertyOptional({ 
     description: 'City', 
     example: 'Gweru',
@@ -1,7 +1,8 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsOptional, IsString, IsNumber, IsEnum } from 'class-validator';
+import { IsOptional, IsString, IsNumber, IsEnum, IsIn } from 'class-validator';
 import { Type } from 'class-transformer';
 import { Condition, ListingType } from './create-listing.dto';
+import { SUPPORTED_CURRENCIES } from '../../exchange-rates/exchange-rates.service';
 
 export class ListingFiltersDto {
   @ApiPropertyOptional({ description: 'Filter by category' })
@@ -50,4 +51,9 @@ export class ListingFiltersDto {
   @IsOptional()
   @IsString()
   suburb?: string;
+
+  @ApiPropertyOptional({ enum: SUPPORTED_CURRENCIES, description: 'Also show prices converted into this currency' })
+  @IsOptional()
+  @IsIn(SUPPORTED_CURRENCIES)
+  currency?: string;
 }
\ No newline at end of file
@@ -66,6 +66,9 @@ export class ListingResponseDto {
   @ApiProperty({ enum: ['new', 'used', 'refurbished'] })
   condition: string;
 
+  @ApiProperty({ enum: ['none', '7_days', '14_days'] })
+  return_policy: string;
+
   @ApiProperty()
   price_amount: number;
 
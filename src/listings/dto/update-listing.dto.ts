@@ -1,6 +1,7 @@
 // update-listing.dto.ts
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsArray, IsOptional, IsString, IsNumber, IsEnum, Min } from 'class-validator';
+import { IsArray, IsOptional, IsString, IsNumber, IsEnum, IsInt, Min } from 'class-validator';
+import { Type } from 'class-transformer';
 
 export class UpdateListingDto {
   @ApiPropertyOptional({ description: 'Listing title' })
@@ -23,11 +24,23 @@ export class UpdateListingDto {
   @IsString()
   price_currency?: string;
 
+  @ApiPropertyOptional({ description: 'Units in stock (restocking a sold-out listing reactivates it)' })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  quantity_available?: number;
+
   @ApiPropertyOptional({ description: 'Product condition', enum: ['new', 'used', 'refurbished'] })
   @IsEnum(['new', 'used', 'refurbished'])
   @IsOptional()
   condition?: string;
 
+  @ApiPropertyOptional({ description: 'Return policy', enum: ['none', '7_days', '14_days'] })
+  @IsEnum(['none', '7_days', '14_days'])
+  @IsOptional()
+  return_policy?: string;
+
   @ApiPropertyOptional({ description: 'Product category' })
   @IsString()
   @IsOptional()
@@ -48,12 +48,25 @@ export class Listing {
   })
   condition: string;
 
+  @ApiProperty({
+    description: 'How long after delivery the item can be returned',
+    enum: ['none', '7_days', '14_days'],
+    example: '14_days',
+  })
+  return_policy: string;
+
   @ApiProperty({
     description: 'Price amount',
     example: 999.99,
   })
   price_amount: number;
 
+  @ApiPropertyOptional({
+    description: 'Units in stock (auctions always have 1)',
+    example: 5,
+  })
+  quantity_available?: number;
+
   @ApiProperty({
     description: 'Price currency',
     example: 'USD',
@@ -61,6 +74,24 @@ export class Listing {
   })
   price_currency: string;
 
+  @ApiPropertyOptional({
+    description: 'Price converted into the currency asked for with ?currency=',
+    example: 26.75,
+  })
+  display_price_amount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Currency of display_price_amount',
+    example: 'ZWL',
+  })
+  display_currency?: string;
+
+  @ApiPropertyOptional({
+    description: 'Rate used for display_price_amount',
+    example: 26.75,
+  })
+  exchange_rate?: number;
+
   @ApiProperty({
     description: 'Listing type',
     enum: ['fixed_price', 'auction'],
@@ -30,17 +30,22 @@ import {
 } from '@nestjs/swagger';
 import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
 import { ListingsService } from './listings.service';
+import { AuctionsService } from '../auctions/auctions.service';
 import { SupabaseGuard } from '../auth/supabase.guard';
 import { User } from '../common/decorators/user.decorator';
 import { CreateListingDto, Condition, ListingType } from './dto/create-listing.dto';
 import { UpdateListingDto } from './dto/update-listing.dto';
 import { PaginationDto } from '../common/dto/pagination.dto';
 import { ListingFiltersDto } from './dto/listing-filters.dto';
+import { SUPPORTED_CURRENCIES } from '../exchange-rates/exchange-rates.service';
 
 @ApiTags('listings')
 @Controller('listings')
 export class ListingsController {
-  constructor(private readonly listingsService: ListingsService) {}
+  constructor(
+    private readonly listingsService: ListingsService,
+    private readonly auctionsService: AuctionsService,
+  ) {}
 
   @Post()
   @UseGuards(SupabaseGuard)
@@ -73,6 +78,20 @@ export class ListingsController {
         throw new BadRequestException('auction_end must be in the future');
       }
     }
+
+    if (listingData.auction_start && listingData.auction_end &&
+      new Date(listingData.auction_start) >= new Date(listingData.auction_end)) {
+      throw new BadRequestException('auction_start must be before auction_end');
+    }
+
+    if (listingData.reserve_price !== undefined && listingData.reserve_price < listingData.price_amount) {
+      throw new BadRequestException('reserve_price cannot be lower than the starting price');
+    }
+
+    if (listingData.buy_now_price !== undefined &&
+      listingData.buy_now_price <= Math.max(listingData.price_amount, listingData.reserve_price ?? 0)) {
+      throw new BadRequestException('buy_now_price must be higher than the starting and reserve prices');
+    }
     
     // Validate files if provided
     if (files && files.length > 0) {
@@ -310,7 +329,7 @@ export class ListingsController {
   @ApiBearerAuth('JWT-auth')
   @ApiOperation({ 
     summary: 'Place a bid on auction listing',
-    description: 'Place a bid on an auction listing'
+    description: 'Place a bid on the auction for this listing. Same as POST /auctions/:id/bids, addressed by listing ID.'
   })
   @ApiParam({
     name: 'id',
@@ -341,27 +360,32 @@ export class ListingsController {
   })
   @ApiResponse({ 
     status: 404, 
-    description: 'Listing not found',
+    description: 'Auction not found for this listing',
+  })
+  @ApiResponse({ 
+    status: 409, 
+    description: 'Auction changed while bidding, retry with the returned state',
   })
   async placeBid(
     @Param('id') id: string,
     @Body('amount') amount: number,
     @User() user: any
   ) {
-    return this.listingsService.placeBid(id, user.id, amount);
+    const auction = await this.auctionsService.findByListingId(id);
+    return this.auctionsService.placeBid(auction.id, user.id, amount);
   }
 
   @Get('auctions/active')
   @ApiOperation({ 
     summary: 'Get active auctions',
-    description: 'Retrieve all active auction listings'
+    description: 'Retrieve all active auctions with their listings. Same as GET /auctions/active/list.'
   })
   @ApiResponse({ 
     status: 200, 
     description: 'Active auctions retrieved successfully',
   })
   async getActiveAuctions() {
-    return this.listingsService.getActiveAuctions();
+    return this.auctionsService.getActiveAuctions();
   }
 
   @Get('search/advanced')
@@ -432,6 +456,13 @@ export class ListingsController {
     enum: ['asc', 'desc'],
     example: 'desc'
   })
+  @ApiQuery({
+    name: 'currency',
+    required: false,
+    description: 'Also show prices converted into this currency (display_price_amount)',
+    enum: SUPPORTED_CURRENCIES,
+    example: 'ZWL'
+  })
   @ApiResponse({ 
     status: 200, 
     description: 'Search results retrieved successfully',
@@ -445,8 +476,13 @@ export class ListingsController {
     @Query('city') city?: string,
     @Query('suburb') suburb?: string,
     @Query('sortBy') sortBy?: string,
-    @Query('sortOrder') sortOrder?: 'asc' | 'desc'
+    @Query('sortOrder') sortOrder?: 'asc' | 'desc',
+    @Query('currency') currency?: string
   ) {
+    if (currency && !SUPPORTED_CURRENCIES.includes(currency)) {
+      throw new BadRequestException(`currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`);
+    }
+
     return this.listingsService.searchListings({
       query,
       category,
@@ -456,7 +492,8 @@ export class ListingsController {
       city,
       suburb,
       sortBy,
-      sortOrder
+      sortOrder,
+      currency
     });
   }
 }
\ No newline at end of file
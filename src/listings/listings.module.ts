@@ -5,10 +5,14 @@ import { Listing } from './entities/listing.entity';
 import { SupabaseModule } from 'src/supabase/supabase.module';
 import { MulterModule } from '@nestjs/platform-express';
 import { memoryStorage } from 'multer';
+import { AuctionsModule } from '../auctions/auctions.module';
+import { ExchangeRatesModule } from '../exchange-rates/exchange-rates.module';
 
 @Module({
   imports: [
     SupabaseModule,
+    AuctionsModule,
+    ExchangeRatesModule,
     MulterModule.register({
       storage: memoryStorage(),
       limits: {
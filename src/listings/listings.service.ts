@@ -1,16 +1,23 @@
 import { Injectable, NotFoundException, BadRequestException, UnauthorizedException, InternalServerErrorException } from '@nestjs/common';
 import { SupabaseService } from '../supabase/supabase.service';
 import { Listing } from './entities/listing.entity';
-import { CreateListingDto, ListingType } from './dto/create-listing.dto';
+import { CreateListingDto, ListingType, ReturnPolicy } from './dto/create-listing.dto';
 import { UpdateListingDto } from './dto/update-listing.dto';
+import { ExchangeRatesService } from '../exchange-rates/exchange-rates.service';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  DEFAULT_MAX_EXTENSIONS,
+  DEFAULT_SOFT_CLOSE_EXTENSION_MINUTES,
+  DEFAULT_SOFT_CLOSE_WINDOW_MINUTES,
+} from '../auctions/soft-close';
 
 @Injectable()
 export class ListingsService {
   private readonly IMAGE_BUCKET = 'listing-images';
 
   constructor(
-    private readonly supabaseService: SupabaseService
+    private readonly supabaseService: SupabaseService,
+    private readonly exchangeRatesService: ExchangeRatesService,
   ) {}
 
   // ==================== LISTING CRUD ====================
@@ -48,8 +55,11 @@ export class ListingsService {
       title: listingData.title,
       description: listingData.description,
       condition: listingData.condition,
+      return_policy: listingData.return_policy ?? ReturnPolicy.NONE,
       price_amount: listingData.price_amount,
       price_currency: listingData.price_currency,
+      // An auction sells exactly one item
+      quantity_available: listingData.listing_type === ListingType.AUCTION ? 1 : (listingData.quantity_available ?? 1),
       listing_type: listingData.listing_type,
       city: listingData.city,
       suburb: listingData.suburb,
@@ -116,7 +126,16 @@ export class ListingsService {
           starting_price: listingData.price_amount,
           current_bid: listingData.price_amount, // Starting bid is the same as starting price
           bid_count: 0,
-          status: 'active',
+          soft_close_window_minutes: listingData.soft_close_window_minutes ?? DEFAULT_SOFT_CLOSE_WINDOW_MINUTES,
+          soft_close_extension_minutes: listingData.soft_close_extension_minutes ?? DEFAULT_SOFT_CLOSE_EXTENSION_MINUTES,
+          max_extensions: listingData.max_extensions ?? DEFAULT_MAX_EXTENSIONS,
+          extension_count: 0,
+          start_time: listingData.auction_start || new Date().toISOString(),
+          reserve_price: listingData.reserve_price ?? null,
+          reserve_met: listingData.reserve_price === undefined || listingData.reserve_price === null,
+          buy_now_price: listingData.buy_now_price ?? null,
+          // Auctions with a future start open later via the scheduler
+          status: listingData.auction_start && new Date(listingData.auction_start) > new Date() ? 'scheduled' : 'active',
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         });
@@ -229,6 +248,7 @@ export class ListingsService {
       seller_id,
       city, 
       suburb,
+      currency,
     } = filters;
 
     console.log('Parsed filters:', {
@@ -283,7 +303,7 @@ export class ListingsService {
     const parsedListings = listings?.map(listing => this.parseListingData(listing)) || [];
 
     return { 
-      data: parsedListings, 
+      data: await this.withDisplayPrices(parsedListings, currency), 
       total: count || 0 
     };
   }
@@ -294,7 +314,7 @@ export class ListingsService {
     // Check if listing exists
     const { data: existingListing } = await supabase
       .from('listings')
-      .select('id, image_urls')
+      .select('id, image_urls, status, listing_type')
       .eq('id', id)
       .single();
 
@@ -312,6 +332,20 @@ export class ListingsService {
       updatePayload.category = category;
     }
 
+    if (updateFields.quantity_available !== undefined) {
+      if (existingListing.listing_type === 'auction') {
+        throw new BadRequestException('Auction listings always have a quantity of 1');
+      }
+
+      // Restocking a sold-out listing puts it back on sale; setting the stock
+      // to zero takes it off
+      if (updateFields.quantity_available > 0 && existingListing.status === 'sold') {
+        updatePayload.status = 'active';
+      } else if (updateFields.quantity_available === 0 && existingListing.status === 'active') {
+        updatePayload.status = 'sold';
+      }
+    }
+
     let finalImageUrls: string[] = existingListing.image_urls || [];
 
     if (imagesToDelete && imagesToDelete.length > 0) {
@@ -401,12 +435,23 @@ export class ListingsService {
       console.error('Error deleting images from storage:', storageError);
     }
 
-    // Delete bids
-    await supabase
-      .from('bids')
-      .delete()
+    // Delete bids (they hang off the listing's auction)
+    const { data: auctions } = await supabase
+      .from('auctions')
+      .select('id')
       .eq('listing_id', id);
 
+    if (auctions && auctions.length > 0) {
+      const { error: bidsError } = await supabase
+        .from('bids')
+        .delete()
+        .in('auction_id', auctions.map(auction => auction.id));
+
+      if (bidsError) {
+        throw new BadRequestException(`Failed to delete bids: ${bidsError.message}`);
+      }
+    }
+
     // Delete the listing
     const { error: deleteError } = await supabase
       .from('listings')
@@ -465,30 +510,6 @@ export class ListingsService {
     return listings?.map(listing => this.parseListingData(listing)) || [];
   }
 
-  async getActiveAuctions(): Promise<Listing[]> {
-    const supabase = this.supabaseService.getClient();
-    
-    const now = new Date().toISOString();
-    
-    const { data: auctions, error } = await supabase
-      .from('listings')
-      .select(`
-        *,
-        seller:seller_id (*),
-        bids:bids (*)
-      `)
-      .eq('listing_type', 'auction')
-      .eq('status', 'active')
-      .gte('auction_end', now)
-      .order('auction_end', { ascending: true });
-
-    if (error) {
-      throw new BadRequestException(`Failed to fetch auctions: ${error.message}`);
-    }
-
-    return auctions?.map(auction => this.parseListingData(auction)) || [];
-  }
-
   async searchListings(searchParams: {
     query?: string;
     category?: string;
@@ -499,6 +520,7 @@ export class ListingsService {
     suburb?: string;
     sortBy?: string;
     sortOrder?: 'asc' | 'desc';
+    currency?: string;
   }): Promise<Listing[]> {
     const supabase = this.supabaseService.getClient();
     
@@ -549,7 +571,10 @@ export class ListingsService {
       throw new BadRequestException(`Search failed: ${error.message}`);
     }
 
-    return listings?.map(listing => this.parseListingData(listing)) || [];
+    return this.withDisplayPrices(
+      listings?.map(listing => this.parseListingData(listing)) || [],
+      searchParams.currency,
+    );
   }
 
   // ==================== AUXILIARY METHODS ====================
@@ -574,112 +599,6 @@ export class ListingsService {
     }
   }
 
-  async placeBid(listingId: string, userId: string, amount: number): Promise<any> {
-    const supabase = this.supabaseService.getClient();
-    
-    const { data: listing, error: listingError } = await supabase
-      .from('listings')
-      .select('listing_type, auction_end, price_amount, seller_id')
-      .eq('id', listingId)
-      .single();
-
-    if (listingError || !listing) {
-      throw new NotFoundException('Listing not found');
-    }
-
-    if (listing.listing_type !== 'auction') {
-      throw new BadRequestException('This listing is not an auction');
-    }
-
-    if (listing.seller_id === userId) {
-      throw new BadRequestException('You cannot bid on your own listing');
-    }
-
-    if (listing.auction_end && new Date(listing.auction_end) < new Date()) {
-      throw new BadRequestException('Auction has ended');
-    }
-
-    const { data: highestBid } = await supabase
-      .from('bids')
-      .select('amount')
-      .eq('listing_id', listingId)
-      .order('amount', { ascending: false })
-      .limit(1)
-      .single();
-
-    const currentPrice = highestBid?.amount || listing.price_amount;
-    
-    if (amount <= currentPrice) {
-      throw new BadRequestException(`Bid amount must be higher than current price ($${currentPrice})`);
-    }
-
-    const { data: bid, error: bidError } = await supabase
-      .from('bids')
-      .insert({
-        listing_id: listingId,
-        bidder_id: userId,
-        amount,
-        status: 'active',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .select()
-      .single();
-
-    if (bidError) {
-      throw new BadRequestException(`Failed to place bid: ${bidError.message}`);
-    }
-
-    await supabase
-      .from('listings')
-      .update({
-        price_amount: amount,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', listingId);
-
-    return bid;
-  }
-
-  async getHighestBid(listingId: string): Promise<number> {
-    const supabase = this.supabaseService.getClient();
-    
-    const { data: highestBid } = await supabase
-      .from('bids')
-      .select('amount')
-      .eq('listing_id', listingId)
-      .order('amount', { ascending: false })
-      .limit(1)
-      .single();
-
-    return highestBid?.amount || 0;
-  }
-
-  async closeExpiredAuctions(): Promise<void> {
-    const supabase = this.supabaseService.getClient();
-    
-    const now = new Date().toISOString();
-    
-    const { data: expiredListings } = await supabase
-      .from('listings')
-      .select('id')
-      .eq('listing_type', 'auction')
-      .eq('status', 'active')
-      .lt('auction_end', now);
-
-    if (!expiredListings || expiredListings.length === 0) return;
-
-    for (const listing of expiredListings) {
-      await supabase
-        .from('listings')
-        .update({
-          status: 'expired',
-          updated_at: now,
-        })
-        .eq('id', listing.id);
-    }
-  }
-
   // ==================== IMAGE UPLOAD METHODS ====================
 
   private async uploadFileToSupabase(file: Express.Multer.File, folderName: string): Promise<string> {
@@ -768,6 +687,29 @@ export class ListingsService {
 
   // ==================== DATA PARSING ====================
 
+  // Adds display_price_amount in the currency the buyer browses in. Prices
+  // themselves stay in the listing currency.
+  private async withDisplayPrices(listings: Listing[], currency?: string): Promise<Listing[]> {
+    if (!currency) {
+      return listings;
+    }
+
+    const rates = new Map<string, number>();
+    for (const listing of listings) {
+      const from = listing.price_currency || 'USD';
+      if (!rates.has(from)) {
+        rates.set(from, (await this.exchangeRatesService.getRate(from, currency)).rate);
+      }
+
+      const rate = rates.get(from)!;
+      listing.display_price_amount = Math.round(listing.price_amount * rate * 100) / 100;
+      listing.display_currency = currency;
+      listing.exchange_rate = rate;
+    }
+
+    return listings;
+  }
+
   private parseListingData(listing: any): Listing {
     try {
       
@@ -4,7 +4,10 @@ import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create(AppModule, {
+    // Payment webhooks verify signatures over the exact bytes received
+    rawBody: true,
+  });
 
   // Global validation
   app.useGlobalPipes(new ValidationPipe({
@@ -83,10 +86,17 @@ async function bootstrap() {
     .addTag('listings', 'Product listings')
     .addTag('auctions', 'Auction management')
     .addTag('orders', 'Order processing')
+    .addTag('cart', 'Shopping cart and checkout')
+    .addTag('delivery', 'Delivery options and shipping quotes')
     .addTag('payments', 'Payment processing')
+    .addTag('exchange-rates', 'USD/ZWL exchange rates')
+    .addTag('wallet', 'Seller wallet, statement and payouts')
+    .addTag('disputes', 'Order disputes between buyers and sellers')
     .addTag('reviews', 'User reviews')
     .addTag('chat', 'Real-time messagging between users')
     .addTag('artisans', 'Artisan/handy person management')
+    .addTag('notifications', 'User notifications')
+    .addTag('scheduler', 'Background job scheduling (admin)')
     .build();
   
   const document = SwaggerModule.createDocument(app, config);
@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class Notification {
+  @ApiProperty({
+    description: 'Notification ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Recipient user ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  user_id: string;
+
+  @ApiProperty({
+    description: 'Notification type',
+    enum: ['outbid', 'auction_ending_soon', 'auction_won', 'auction_lost'],
+    example: 'outbid',
+  })
+  type: string;
+
+  @ApiProperty({
+    description: 'Short title',
+    example: 'You have been outbid',
+  })
+  title: string;
+
+  @ApiProperty({
+    description: 'Notification text',
+    example: 'Someone bid $155.00 on "Vintage camera".',
+  })
+  message: string;
+
+  @ApiPropertyOptional({
+    description: 'Related data (auction_id, listing_id...)',
+    example: { auction_id: '123e4567-e89b-12d3-a456-426614174000' },
+  })
+  data?: Record<string, any>;
+
+  @ApiPropertyOptional({
+    description: 'When the user read it',
+    example: '2024-01-01T00:05:00.000Z',
+  })
+  read_at?: string;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  created_at: string;
+}
@@ -0,0 +1,74 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { NotificationsService } from './notifications.service';
+import { Notification } from './entities/notification.entity';
+import { SupabaseGuard } from '../auth/supabase.guard';
+import { User } from '../common/decorators/user.decorator';
+
+@ApiTags('notifications')
+@Controller('notifications')
+@UseGuards(SupabaseGuard)
+@ApiBearerAuth()
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  @Get()
+  @ApiOperation({ summary: "Get the current user's notifications" })
+  @ApiQuery({ name: 'unread_only', required: false, type: Boolean })
+  @ApiResponse({
+    status: 200,
+    description: 'Latest notifications, newest first',
+    type: [Notification],
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getMyNotifications(
+    @User() user: any,
+    @Query('unread_only') unreadOnly?: string,
+  ): Promise<Notification[]> {
+    return this.notificationsService.findByUser(user.id, unreadOnly === 'true');
+  }
+
+  @Put('read-all')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Mark all notifications as read' })
+  @ApiResponse({ status: 204, description: 'Notifications marked as read' })
+  async markAllAsRead(@User() user: any): Promise<void> {
+    return this.notificationsService.markAllAsRead(user.id);
+  }
+
+  @Put(':id/read')
+  @ApiOperation({ summary: 'Mark a notification as read' })
+  @ApiParam({
+    name: 'id',
+    description: 'Notification ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Notification marked as read',
+    type: Notification,
+  })
+  @ApiResponse({ status: 404, description: 'Notification not found' })
+  async markAsRead(
+    @Param('id') id: string,
+    @User() user: any,
+  ): Promise<Notification> {
+    return this.notificationsService.markAsRead(id, user.id);
+  }
+}
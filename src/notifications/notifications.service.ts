@@ -0,0 +1,118 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { SupabaseService } from '../supabase/supabase.service';
+import { Notification } from './entities/notification.entity';
+
+export interface CreateNotificationInput {
+  type: string;
+  title: string;
+  message: string;
+  data?: Record<string, any>;
+}
+
+@Injectable()
+export class NotificationsService {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  // Sends the same notification to several users (duplicates are dropped)
+  async notifyUsers(
+    userIds: string[],
+    notification: CreateNotificationInput,
+  ): Promise<void> {
+    const recipients = [...new Set(userIds.filter(Boolean))];
+    if (recipients.length === 0) return;
+
+    const supabase = this.supabaseService.getClient();
+    const now = new Date().toISOString();
+
+    const { error } = await supabase.from('notifications').insert(
+      recipients.map((userId) => ({
+        id: uuidv4(),
+        user_id: userId,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        data: notification.data || {},
+        created_at: now,
+      })),
+    );
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to create notifications: ${error.message}`,
+      );
+    }
+  }
+
+  async findByUser(
+    userId: string,
+    unreadOnly: boolean = false,
+  ): Promise<Notification[]> {
+    const supabase = this.supabaseService.getClient();
+
+    let query = supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (unreadOnly) {
+      query = query.is('read_at', null);
+    }
+
+    const { data: notifications, error } = await query;
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch notifications: ${error.message}`,
+      );
+    }
+
+    return notifications || [];
+  }
+
+  async markAsRead(id: string, userId: string): Promise<Notification> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: notification, error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to update notification: ${error.message}`,
+      );
+    }
+
+    if (!notification) {
+      throw new NotFoundException('Notification not found');
+    }
+
+    return notification;
+  }
+
+  async markAllAsRead(userId: string): Promise<void> {
+    const supabase = this.supabaseService.getClient();
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to update notifications: ${error.message}`,
+      );
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsString, IsNumber, IsOptional, IsEnum, Min, IsUUID } from 'class-validator';
+import { IsString, IsNumber, IsOptional, IsEnum, Min, IsUUID, Matches } from 'class-validator';
+import { DeliveryMethod } from '../../delivery/entities/delivery-option.entity';
 
 export enum OrderStatus {
   PENDING = 'pending',
@@ -7,6 +8,9 @@ export enum OrderStatus {
   SHIPPED = 'shipped',
   DELIVERED = 'delivered',
   CANCELLED = 'cancelled',
+  RETURN_REQUESTED = 'return_requested',
+  RETURNED = 'returned',
+  REFUNDED = 'refunded',
 }
 
 export class CreateOrderDto {
@@ -45,13 +49,29 @@ export class CreateOrderDto {
   shipping_address?: string;
 
   @ApiPropertyOptional({
-    description: 'Currency for payment',
+    description: 'How the item gets to the buyer (see GET /delivery/quote)',
+    enum: DeliveryMethod,
+    example: DeliveryMethod.ZIMPOST,
+  })
+  @IsOptional()
+  @IsEnum(DeliveryMethod)
+  delivery_method?: DeliveryMethod;
+
+  @ApiPropertyOptional({
+    description: 'Destination city (required unless collecting)',
+    example: 'Bulawayo',
+  })
+  @IsOptional()
+  @IsString()
+  delivery_city?: string;
+
+  @ApiPropertyOptional({
+    description: 'Currency for payment (default: the listing currency). Other currencies are converted at today\'s rate',
     enum: ['USD', 'ZWL'],
-    default: 'USD',
   })
   @IsOptional()
   @IsEnum(['USD', 'ZWL'])
-  currency?: string = 'USD';
+  currency?: string;
 
   @ApiPropertyOptional({
     description: 'Notes for the seller',
@@ -80,4 +100,57 @@ export class CancelOrderDto {
   @IsOptional()
   @IsString()
   reason?: string;
+}
+
+// Shipping details, for the seller's shipment and for the buyer's return
+export class OrderTrackingDto {
+  @ApiProperty({
+    description: 'Tracking number',
+    example: 'TRK123456789',
+  })
+  @IsString()
+  tracking_number: string;
+
+  @ApiProperty({
+    description: 'Shipping carrier',
+    example: 'ZimPost',
+  })
+  @IsString()
+  carrier: string;
+
+  @ApiPropertyOptional({
+    description: 'Estimated delivery date',
+    example: '2024-01-08T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsString()
+  estimated_delivery?: string;
+}
+
+export class RequestReturnDto {
+  @ApiProperty({
+    description: 'Why the item is being returned',
+    example: 'Item does not match the description',
+  })
+  @IsString()
+  reason: string;
+}
+
+export class RejectReturnDto {
+  @ApiPropertyOptional({
+    description: 'Why the return was refused',
+    example: 'Return window has passed',
+  })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class ConfirmHandoverDto {
+  @ApiProperty({
+    description: 'Handover code from the buyer',
+    example: '482913',
+  })
+  @Matches(/^\d{6}$/, { message: 'code must be 6 digits' })
+  code: string;
 }
\ No newline at end of file
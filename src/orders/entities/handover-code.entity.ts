@@ -0,0 +1,24 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+// Shown to the buyer only. The seller enters the code (or scans the QR
+// payload) when the item and the cash change hands.
+export class HandoverCode {
+  @ApiProperty({
+    description: 'Order ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  order_id: string;
+
+  @ApiProperty({
+    description: 'One-time 6-digit code',
+    example: '482913',
+  })
+  code: string;
+
+  @ApiProperty({
+    description: 'Text to encode in a QR code for the seller to scan',
+    example:
+      'zimmarket://handover?order=123e4567-e89b-12d3-a456-426614174000&code=482913',
+  })
+  qr_payload: string;
+}
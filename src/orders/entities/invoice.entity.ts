@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+// The number a seller gave an order's invoice. Numbers are assigned the first
+// time the invoice is downloaded and never change afterwards.
+export class Invoice {
+  @ApiProperty({
+    description: 'Invoice ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Order ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  order_id: string;
+
+  @ApiProperty({
+    description: 'Seller ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  seller_id: string;
+
+  @ApiProperty({
+    description: "Sequential number among the seller's invoices",
+    example: 42,
+  })
+  sequence: number;
+
+  @ApiProperty({
+    description: 'Printed invoice number',
+    example: 'INV-000042',
+  })
+  invoice_number: string;
+
+  @ApiProperty({
+    description: 'Issue timestamp',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  issued_at: string;
+}
@@ -0,0 +1,46 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Listing } from '../../listings/entities/listing.entity';
+
+export class OrderItem {
+  @ApiProperty({
+    description: 'Order item ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Order ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  order_id: string;
+
+  @ApiProperty({
+    description: 'Listing ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  listing_id: string;
+
+  @ApiPropertyOptional({
+    description: 'Listing details',
+    type: () => Listing,
+  })
+  listing?: Listing;
+
+  @ApiProperty({
+    description: 'Units ordered',
+    example: 2,
+  })
+  quantity: number;
+
+  @ApiProperty({
+    description: 'Price per unit at checkout',
+    example: 25.0,
+  })
+  unit_price: number;
+
+  @ApiProperty({
+    description: 'Line total',
+    example: 50.0,
+  })
+  total_amount: number;
+}
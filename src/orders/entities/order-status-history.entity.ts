@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class OrderStatusHistoryEntry {
+  @ApiProperty({
+    description: 'History entry ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Order ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  order_id: string;
+
+  @ApiPropertyOptional({
+    description: 'Previous status (empty when the order was created)',
+    example: 'pending',
+  })
+  from_status?: string;
+
+  @ApiProperty({
+    description: 'New status',
+    example: 'confirmed',
+  })
+  to_status: string;
+
+  @ApiPropertyOptional({
+    description: 'User who made the change (empty for system changes)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  actor_id?: string;
+
+  @ApiProperty({
+    description: 'Role of the actor',
+    enum: ['buyer', 'seller', 'system'],
+    example: 'seller',
+  })
+  actor_role: string;
+
+  @ApiPropertyOptional({
+    description: 'Note, e.g. the cancellation reason',
+    example: 'Changed my mind',
+  })
+  note?: string;
+
+  @ApiProperty({
+    description: 'When the change happened',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  created_at: string;
+}
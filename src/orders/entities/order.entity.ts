@@ -1,6 +1,8 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { User } from '../../users/entities/user.entity';
 import { Listing } from '../../listings/entities/listing.entity';
+import { OrderItem } from './order-item.entity';
+import { Dispute } from '../../disputes/entities/dispute.entity';
 
 export class Order {
   @ApiProperty({
@@ -53,11 +55,17 @@ export class Order {
 
   @ApiProperty({
     description: 'Order status',
-    enum: ['pending', 'confirmed', 'shipped', 'delivered', 'cancelled'],
+    enum: ['pending', 'confirmed', 'shipped', 'delivered', 'cancelled', 'return_requested', 'returned', 'refunded'],
     example: 'pending',
   })
   status: string;
 
+  @ApiPropertyOptional({
+    description: 'Number of units ordered',
+    example: 1,
+  })
+  quantity?: number;
+
   @ApiProperty({
     description: 'Total amount',
     example: 100.50,
@@ -71,6 +79,36 @@ export class Order {
   })
   currency: string;
 
+  @ApiPropertyOptional({
+    description: 'Order total in the listing currency, before conversion',
+    example: 100.50,
+  })
+  listing_amount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Delivery fee, charged on top of total_amount',
+    example: 5,
+  })
+  shipping_fee?: number;
+
+  @ApiPropertyOptional({
+    description: 'Currency the listing is priced in',
+    example: 'USD',
+  })
+  listing_currency?: string;
+
+  @ApiPropertyOptional({
+    description: 'Rate used to convert listing_amount into currency (1 when they match)',
+    example: 26.75,
+  })
+  exchange_rate?: number;
+
+  @ApiPropertyOptional({
+    description: 'Effective date of the exchange rate used (empty when no conversion)',
+    example: '2024-06-01',
+  })
+  exchange_rate_date?: string;
+
   @ApiPropertyOptional({
     description: 'Payment method',
     example: 'ecocash',
@@ -83,6 +121,62 @@ export class Order {
   })
   shipping_address?: string;
 
+  @ApiPropertyOptional({
+    description: 'How the item gets to the buyer',
+    enum: ['collection', 'local_courier', 'zimpost', 'bus_parcel'],
+    example: 'zimpost',
+  })
+  delivery_method?: string;
+
+  @ApiPropertyOptional({
+    description: 'Destination city',
+    example: 'Bulawayo',
+  })
+  delivery_city?: string;
+
+  @ApiPropertyOptional({
+    description: 'Order lines (orders created from the cart)',
+    type: () => [OrderItem],
+  })
+  items?: OrderItem[];
+
+  @ApiPropertyOptional({
+    description: 'Disputes raised on this order (an active one freezes the escrowed payment)',
+    type: () => [Dispute],
+  })
+  disputes?: Dispute[];
+
+  @ApiPropertyOptional({
+    description: 'Where the buyer\'s money is: not paid yet, held in escrow, released to the seller or refunded',
+    enum: ['unpaid', 'held', 'released', 'refunded'],
+    example: 'held',
+  })
+  payment_status?: string;
+
+  @ApiPropertyOptional({
+    description: 'Total refunded to the buyer so far',
+    example: 0,
+  })
+  refunded_amount?: number;
+
+  @ApiPropertyOptional({
+    description: 'When the escrowed payment was released to the seller',
+    example: '2024-01-10T00:00:00.000Z',
+  })
+  payment_released_at?: string;
+
+  @ApiPropertyOptional({
+    description: 'Payment intent covering this order (cart checkout)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  payment_intent_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Payment deadline (auction orders are cancelled if unpaid by then)',
+    example: '2024-01-03T00:00:00.000Z',
+  })
+  payment_due_at?: string;
+
   @ApiPropertyOptional({
     description: 'Transaction ID',
     example: '123e4567-e89b-12d3-a456-426614174000',
@@ -137,6 +231,48 @@ export class Order {
   })
   cancelled_at?: string;
 
+  @ApiPropertyOptional({
+    description: 'Why the buyer is returning the order',
+    example: 'Item does not match the description',
+  })
+  return_reason?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the buyer asked to return the order',
+    example: '2024-01-09T00:00:00.000Z',
+  })
+  return_requested_at?: string;
+
+  @ApiPropertyOptional({
+    description: 'Tracking number of the return shipment',
+    example: 'TRK987654321',
+  })
+  return_tracking_number?: string;
+
+  @ApiPropertyOptional({
+    description: 'Carrier of the return shipment',
+    example: 'ZimPost',
+  })
+  return_carrier?: string;
+
+  @ApiPropertyOptional({
+    description: 'Estimated arrival of the return shipment at the seller',
+    example: '2024-01-14T00:00:00.000Z',
+  })
+  return_estimated_delivery?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the buyer sent the item back',
+    example: '2024-01-10T00:00:00.000Z',
+  })
+  return_shipped_at?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the seller received the returned item',
+    example: '2024-01-13T00:00:00.000Z',
+  })
+  returned_at?: string;
+
   @ApiPropertyOptional({
     description: 'Order notes',
     example: 'Please handle with care',
@@ -0,0 +1,46 @@
+import { InvoiceDocument, renderInvoicePdf } from './invoice-pdf';
+
+const invoice: InvoiceDocument = {
+  invoice_number: 'INV-000007',
+  issued_at: '2024-01-10T00:00:00.000Z',
+  order_id: '123e4567-e89b-12d3-a456-426614174000',
+  order_date: '2024-01-01T00:00:00.000Z',
+  currency: 'USD',
+  seller: {
+    name: 'Tendai Moyo',
+    business_name: "Tendai's Trading Store",
+    tax_id: '123456789A',
+    address: 'Avondale, Harare',
+  },
+  buyer: { name: 'Rudo Ncube', address: '123 Main St, Gweru' },
+  lines: [
+    { description: 'Wooden stool', quantity: 2, unit_price: 15, total: 30 },
+    { description: 'Clay pot', quantity: 1, unit_price: 12.5, total: 12.5 },
+  ],
+  total: 42.5,
+  refunded: 0,
+  payment: null,
+};
+
+describe('renderInvoicePdf', () => {
+  it('renders a PDF locally', async () => {
+    const pdf = await renderInvoicePdf(invoice);
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(pdf.length).toBeGreaterThan(1000);
+  });
+
+  it('renders receipts with payment and refund details', async () => {
+    const pdf = await renderInvoicePdf({
+      ...invoice,
+      refunded: 12.5,
+      payment: {
+        method: 'ecocash',
+        reference: 'MP240110.1234.A56789',
+        paid_at: '2024-01-02T00:00:00.000Z',
+      },
+    });
+
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+});
@@ -0,0 +1,172 @@
+import PDFDocument from 'pdfkit';
+
+export interface InvoiceParty {
+  name: string;
+  business_name?: string | null;
+  tax_id?: string | null;
+  email?: string | null;
+  phone_number?: string | null;
+  address?: string | null;
+}
+
+export interface InvoiceLine {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  total: number;
+}
+
+export interface InvoicePayment {
+  method: string;
+  reference: string | null;
+  paid_at: string | null;
+}
+
+export interface InvoiceDocument {
+  invoice_number: string;
+  issued_at: string;
+  order_id: string;
+  order_date: string;
+  currency: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  lines: InvoiceLine[];
+  total: number;
+  refunded: number;
+  // Set once the buyer has paid, which turns the invoice into a receipt
+  payment: InvoicePayment | null;
+}
+
+const formatAmount = (amount: number, currency: string) =>
+  `${currency} ${amount.toFixed(2)}`;
+
+const formatDate = (date: string) => new Date(date).toISOString().slice(0, 10);
+
+// Renders an invoice with the built-in PDF fonts, so it needs no network
+// access or font files
+export function renderInvoicePdf(invoice: InvoiceDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50 });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const title = invoice.seller.tax_id ? 'TAX INVOICE' : 'INVOICE';
+
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(20)
+      .text(invoice.payment ? `${title} / RECEIPT` : title);
+    doc.moveDown(0.5);
+    doc
+      .font('Helvetica')
+      .fontSize(10)
+      .text(`Invoice number: ${invoice.invoice_number}`)
+      .text(`Issued: ${formatDate(invoice.issued_at)}`)
+      .text(`Order: ${invoice.order_id}`)
+      .text(`Order date: ${formatDate(invoice.order_date)}`);
+    doc.moveDown();
+
+    const partiesTop = doc.y;
+    writeParty(doc, 'From', invoice.seller, 50, partiesTop);
+    const sellerBottom = doc.y;
+    writeParty(doc, 'Bill to', invoice.buyer, 300, partiesTop);
+    doc.y = Math.max(sellerBottom, doc.y);
+    doc.x = 50;
+    doc.moveDown();
+
+    writeLines(doc, invoice);
+    doc.moveDown();
+
+    if (invoice.payment) {
+      doc
+        .font('Helvetica-Bold')
+        .text('Payment received')
+        .font('Helvetica')
+        .text(`Method: ${invoice.payment.method}`)
+        .text(`Reference: ${invoice.payment.reference || '-'}`);
+      if (invoice.payment.paid_at) {
+        doc.text(`Paid on: ${formatDate(invoice.payment.paid_at)}`);
+      }
+    } else {
+      doc.font('Helvetica-Bold').text('Payment due');
+    }
+
+    doc.end();
+  });
+}
+
+function writeParty(
+  doc: PDFKit.PDFDocument,
+  heading: string,
+  party: InvoiceParty,
+  x: number,
+  y: number,
+) {
+  doc.font('Helvetica-Bold').fontSize(10).text(heading, x, y, { width: 230 });
+  doc.font('Helvetica');
+  for (const line of [
+    party.business_name,
+    party.name,
+    party.tax_id ? `Tax ID: ${party.tax_id}` : null,
+    party.address,
+    party.email,
+    party.phone_number,
+  ]) {
+    if (line) {
+      doc.text(line, x, undefined, { width: 230 });
+    }
+  }
+}
+
+function writeLines(doc: PDFKit.PDFDocument, invoice: InvoiceDocument) {
+  const columns = { description: 50, quantity: 300, unit: 360, total: 460 };
+  const row = (
+    values: [string, string, string, string],
+    font = 'Helvetica',
+  ) => {
+    const y = doc.y;
+    doc.font(font);
+    doc.text(values[0], columns.description, y, { width: 240 });
+    const bottom = doc.y;
+    doc.text(values[1], columns.quantity, y, { width: 50, align: 'right' });
+    doc.text(values[2], columns.unit, y, { width: 90, align: 'right' });
+    doc.text(values[3], columns.total, y, { width: 90, align: 'right' });
+    doc.x = columns.description;
+    doc.y = Math.max(bottom, doc.y) + 4;
+  };
+
+  row(['Item', 'Qty', 'Unit price', 'Amount'], 'Helvetica-Bold');
+  for (const line of invoice.lines) {
+    row([
+      line.description,
+      String(line.quantity),
+      formatAmount(line.unit_price, invoice.currency),
+      formatAmount(line.total, invoice.currency),
+    ]);
+  }
+  row(
+    ['Total', '', '', formatAmount(invoice.total, invoice.currency)],
+    'Helvetica-Bold',
+  );
+
+  if (invoice.refunded > 0) {
+    row([
+      'Refunded',
+      '',
+      '',
+      `-${formatAmount(invoice.refunded, invoice.currency)}`,
+    ]);
+    row(
+      [
+        'Net paid',
+        '',
+        '',
+        formatAmount(invoice.total - invoice.refunded, invoice.currency),
+      ],
+      'Helvetica-Bold',
+    );
+  }
+}
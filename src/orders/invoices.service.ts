@@ -0,0 +1,232 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { Invoice } from './entities/invoice.entity';
+import {
+  InvoiceDocument,
+  InvoiceLine,
+  InvoiceParty,
+  renderInvoicePdf,
+} from './invoice-pdf';
+
+const MAX_NUMBERING_ATTEMPTS = 5;
+
+@Injectable()
+export class InvoicesService {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  // Invoice of an order as a PDF, for its buyer, its seller or an admin. Once
+  // the order is paid the invoice doubles as the receipt.
+  async getOrderInvoicePdf(
+    orderId: string,
+    userId: string,
+  ): Promise<{ invoice: Invoice; pdf: Buffer }> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: order } = await supabase
+      .from('orders')
+      .select(
+        `
+        *,
+        buyer:buyer_id (*),
+        seller:seller_id (*),
+        listing:listing_id (title),
+        items:order_items (
+          *,
+          listing:listing_id (title)
+        )
+      `,
+      )
+      .eq('id', orderId)
+      .single();
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    if (
+      order.buyer_id !== userId &&
+      order.seller_id !== userId &&
+      !(await this.isAdmin(userId))
+    ) {
+      throw new ForbiddenException('You do not have access to this order');
+    }
+
+    if (order.status === 'cancelled') {
+      throw new BadRequestException('Cancelled orders have no invoice');
+    }
+
+    const invoice = await this.issueInvoice(order.id, order.seller_id);
+
+    // The payment that settled the order, refunded or not
+    const { data: transaction } = await supabase
+      .from('transactions')
+      .select('*')
+      .eq('order_id', order.id)
+      .in('status', ['completed', 'refunded'])
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const document: InvoiceDocument = {
+      invoice_number: invoice.invoice_number,
+      issued_at: invoice.issued_at,
+      order_id: order.id,
+      order_date: order.order_date || order.created_at,
+      currency: order.currency || 'USD',
+      seller: this.toParty(order.seller, [
+        order.seller?.suburb,
+        order.seller?.city,
+      ]),
+      buyer: this.toParty(order.buyer, [order.shipping_address]),
+      lines: this.toLines(order),
+      total: Number(order.total_amount) + Number(order.shipping_fee || 0),
+      refunded: Number(order.refunded_amount || 0),
+      payment: transaction
+        ? {
+            method: transaction.payment_method,
+            reference:
+              transaction.provider_reference ||
+              transaction.mobile_money_reference ||
+              transaction.bank_transfer_reference ||
+              transaction.id,
+            paid_at: transaction.payment_date || transaction.updated_at,
+          }
+        : null,
+    };
+
+    return { invoice, pdf: await renderInvoicePdf(document) };
+  }
+
+  // Gives the order the seller's next invoice number, or returns the number it
+  // already has. Two orders numbered at once collide on the unique
+  // (seller_id, sequence) index and the loser retries with the next number.
+  private async issueInvoice(
+    orderId: string,
+    sellerId: string,
+  ): Promise<Invoice> {
+    const supabase = this.supabaseService.getClient();
+
+    for (let attempt = 0; attempt < MAX_NUMBERING_ATTEMPTS; attempt++) {
+      const { data: existing } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('order_id', orderId)
+        .maybeSingle();
+
+      if (existing) {
+        return existing;
+      }
+
+      const { data: last } = await supabase
+        .from('invoices')
+        .select('sequence')
+        .eq('seller_id', sellerId)
+        .order('sequence', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const sequence = (last?.sequence || 0) + 1;
+
+      const { data: invoice, error } = await supabase
+        .from('invoices')
+        .insert({
+          order_id: orderId,
+          seller_id: sellerId,
+          sequence,
+          invoice_number: `INV-${String(sequence).padStart(6, '0')}`,
+          issued_at: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+      if (!error) {
+        return invoice;
+      }
+
+      if (error.code !== '23505') {
+        throw new BadRequestException(
+          `Failed to issue invoice: ${error.message}`,
+        );
+      }
+    }
+
+    throw new ConflictException(
+      'Could not number the invoice, please try again',
+    );
+  }
+
+  private toParty(
+    user: any,
+    address: (string | null | undefined)[],
+  ): InvoiceParty {
+    const name =
+      [user?.first_name, user?.last_name].filter(Boolean).join(' ') ||
+      user?.username ||
+      '';
+
+    return {
+      name,
+      // Business details only appear for business accounts
+      business_name: user?.user_type === 'business' ? user.business_name : null,
+      tax_id: user?.user_type === 'business' ? user.tax_id : null,
+      email: user?.email,
+      phone_number: user?.phone_number,
+      address: address.filter(Boolean).join(', ') || null,
+    };
+  }
+
+  private toLines(order: any): InvoiceLine[] {
+    const lines: InvoiceLine[] = [];
+
+    // Cart orders list their lines; single-listing orders are one line
+    if (order.items && order.items.length > 0) {
+      for (const item of order.items) {
+        lines.push({
+          description: item.listing?.title || 'Item',
+          quantity: item.quantity,
+          unit_price: Number(item.unit_price),
+          total: Number(item.total_amount),
+        });
+      }
+    } else {
+      const quantity = order.quantity || 1;
+      const total = Number(order.total_amount);
+
+      lines.push({
+        description: order.listing?.title || 'Item',
+        quantity,
+        unit_price: Math.round((total / quantity) * 100) / 100,
+        total,
+      });
+    }
+
+    const shippingFee = Number(order.shipping_fee || 0);
+    if (shippingFee > 0) {
+      lines.push({
+        description: `Delivery (${order.delivery_method}${order.delivery_city ? ` to ${order.delivery_city}` : ''})`,
+        quantity: 1,
+        unit_price: shippingFee,
+        total: shippingFee,
+      });
+    }
+
+    return lines;
+  }
+
+  private async isAdmin(userId: string): Promise<boolean> {
+    const { data: user } = await this.supabaseService
+      .getClient()
+      .from('users')
+      .select('role')
+      .eq('id', userId)
+      .single();
+
+    return user?.role === 'admin';
+  }
+}
@@ -0,0 +1,118 @@
+import { OrderStatus } from './dto/create-order.dto';
+import {
+  canTransitionOrder,
+  getAllowedOrderTransitions,
+} from './order-state-machine';
+
+describe('order state machine', () => {
+  it('lets the seller confirm and ship', () => {
+    expect(
+      canTransitionOrder(OrderStatus.PENDING, OrderStatus.CONFIRMED, 'seller'),
+    ).toBe(true);
+    expect(
+      canTransitionOrder(OrderStatus.CONFIRMED, OrderStatus.SHIPPED, 'seller'),
+    ).toBe(true);
+  });
+
+  it('only lets the buyer confirm receipt', () => {
+    expect(
+      canTransitionOrder(OrderStatus.SHIPPED, OrderStatus.DELIVERED, 'buyer'),
+    ).toBe(true);
+    expect(
+      canTransitionOrder(OrderStatus.SHIPPED, OrderStatus.DELIVERED, 'seller'),
+    ).toBe(false);
+  });
+
+  it('delivers meet-up orders without shipping only through the platform', () => {
+    expect(
+      canTransitionOrder(
+        OrderStatus.CONFIRMED,
+        OrderStatus.DELIVERED,
+        'system',
+      ),
+    ).toBe(true);
+    expect(
+      canTransitionOrder(
+        OrderStatus.CONFIRMED,
+        OrderStatus.DELIVERED,
+        'seller',
+      ),
+    ).toBe(false);
+  });
+
+  it('does not let the buyer confirm or ship their own order', () => {
+    expect(
+      canTransitionOrder(OrderStatus.PENDING, OrderStatus.CONFIRMED, 'buyer'),
+    ).toBe(false);
+    expect(
+      canTransitionOrder(OrderStatus.CONFIRMED, OrderStatus.SHIPPED, 'buyer'),
+    ).toBe(false);
+  });
+
+  it('allows cancelling only while pending', () => {
+    expect(
+      canTransitionOrder(OrderStatus.PENDING, OrderStatus.CANCELLED, 'buyer'),
+    ).toBe(true);
+    expect(
+      canTransitionOrder(OrderStatus.CONFIRMED, OrderStatus.CANCELLED, 'buyer'),
+    ).toBe(false);
+    expect(
+      canTransitionOrder(OrderStatus.SHIPPED, OrderStatus.CANCELLED, 'seller'),
+    ).toBe(false);
+  });
+
+  it('treats cancelled and refunded as final', () => {
+    expect(getAllowedOrderTransitions(OrderStatus.DELIVERED, 'seller')).toEqual(
+      [],
+    );
+    expect(
+      canTransitionOrder(OrderStatus.CANCELLED, OrderStatus.PENDING, 'seller'),
+    ).toBe(false);
+    expect(getAllowedOrderTransitions(OrderStatus.REFUNDED, 'system')).toEqual(
+      [],
+    );
+  });
+
+  it('lets the buyer request a return and the seller accept or refuse it', () => {
+    expect(getAllowedOrderTransitions(OrderStatus.DELIVERED, 'buyer')).toEqual([
+      OrderStatus.RETURN_REQUESTED,
+    ]);
+    expect(
+      canTransitionOrder(
+        OrderStatus.RETURN_REQUESTED,
+        OrderStatus.RETURNED,
+        'seller',
+      ),
+    ).toBe(true);
+    expect(
+      canTransitionOrder(
+        OrderStatus.RETURN_REQUESTED,
+        OrderStatus.DELIVERED,
+        'seller',
+      ),
+    ).toBe(true);
+    expect(
+      canTransitionOrder(
+        OrderStatus.RETURN_REQUESTED,
+        OrderStatus.RETURNED,
+        'buyer',
+      ),
+    ).toBe(false);
+  });
+
+  it('only refunds returned orders through the platform', () => {
+    expect(
+      canTransitionOrder(OrderStatus.RETURNED, OrderStatus.REFUNDED, 'system'),
+    ).toBe(true);
+    expect(
+      canTransitionOrder(OrderStatus.RETURNED, OrderStatus.REFUNDED, 'seller'),
+    ).toBe(false);
+  });
+
+  it('rejects unknown statuses', () => {
+    expect(canTransitionOrder('lost', OrderStatus.PENDING, 'system')).toBe(
+      false,
+    );
+    expect(getAllowedOrderTransitions('lost', 'buyer')).toEqual([]);
+  });
+});
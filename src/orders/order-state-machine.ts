@@ -0,0 +1,58 @@
+import { OrderStatus } from './dto/create-order.dto';
+
+// Who is changing the order: one of its two parties, or the platform itself
+// (e.g. cancelling an unpaid auction order)
+export type OrderActor = 'buyer' | 'seller' | 'system';
+
+// For each status, the statuses it can move to and who may make that move
+const ORDER_TRANSITIONS: Record<
+  OrderStatus,
+  Partial<Record<OrderStatus, OrderActor[]>>
+> = {
+  [OrderStatus.PENDING]: {
+    [OrderStatus.CONFIRMED]: ['seller'],
+    [OrderStatus.CANCELLED]: ['buyer', 'seller', 'system'],
+  },
+  [OrderStatus.CONFIRMED]: {
+    [OrderStatus.SHIPPED]: ['seller'],
+    // Handed over at a meet-up, confirmed with the buyer's handover code
+    [OrderStatus.DELIVERED]: ['system'],
+  },
+  [OrderStatus.SHIPPED]: {
+    [OrderStatus.DELIVERED]: ['buyer', 'system'],
+  },
+  [OrderStatus.DELIVERED]: {
+    [OrderStatus.RETURN_REQUESTED]: ['buyer'],
+  },
+  [OrderStatus.CANCELLED]: {},
+  // The seller either gets the item back or refuses the return
+  [OrderStatus.RETURN_REQUESTED]: {
+    [OrderStatus.RETURNED]: ['seller'],
+    [OrderStatus.DELIVERED]: ['seller'],
+  },
+  // Refunding a returned order is done by the platform
+  [OrderStatus.RETURNED]: {
+    [OrderStatus.REFUNDED]: ['system'],
+  },
+  [OrderStatus.REFUNDED]: {},
+};
+
+export function canTransitionOrder(
+  from: string,
+  to: string,
+  actor: OrderActor,
+): boolean {
+  const allowed = ORDER_TRANSITIONS[from as OrderStatus]?.[to as OrderStatus];
+  return !!allowed && allowed.includes(actor);
+}
+
+export function getAllowedOrderTransitions(
+  from: string,
+  actor: OrderActor,
+): OrderStatus[] {
+  const transitions = ORDER_TRANSITIONS[from as OrderStatus] || {};
+
+  return (Object.keys(transitions) as OrderStatus[]).filter((to) =>
+    transitions[to]!.includes(actor),
+  );
+}
@@ -1,15 +1,21 @@
-import { Controller, Get, Post, Put, Body, Param, UseGuards } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { Controller, Get, Post, Put, Body, Param, UseGuards, StreamableFile } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiProduces } from '@nestjs/swagger';
 import { OrdersService } from './orders.service';
+import { InvoicesService } from './invoices.service';
 import { Order } from './entities/order.entity';
 import { SupabaseGuard } from '../auth/supabase.guard';
 import { User } from '../common/decorators/user.decorator';
-import { CreateOrderDto } from './dto/create-order.dto'; 
+import { CreateOrderDto, UpdateOrderStatusDto, CancelOrderDto, OrderTrackingDto, RequestReturnDto, RejectReturnDto, ConfirmHandoverDto } from './dto/create-order.dto';
+import { HandoverCode } from './entities/handover-code.entity';
+import { OrderStatusHistoryEntry } from './entities/order-status-history.entity';
 
 @ApiTags('orders')
 @Controller('orders')
 export class OrdersController {
-  constructor(private readonly ordersService: OrdersService) {}
+  constructor(
+    private readonly ordersService: OrdersService,
+    private readonly invoicesService: InvoicesService,
+  ) {}
 
   @Post()
   @UseGuards(SupabaseGuard)
@@ -60,13 +66,19 @@ export class OrdersController {
   @Put(':id/status')
   @UseGuards(SupabaseGuard)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Update order status' })
+  @ApiOperation({
+    summary: 'Update order status',
+    description: 'Seller: pending → confirmed → shipped. Buyer: shipped → delivered. Either party: pending → cancelled. Returns use the /return endpoints.',
+  })
   @ApiResponse({ status: 200, description: 'Status updated successfully' })
+  @ApiResponse({ status: 400, description: 'Transition not allowed for this user' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not a party to this order' })
   @ApiResponse({ status: 404, description: 'Order not found' })
+  @ApiResponse({ status: 409, description: 'Order status changed in the meantime' })
   async updateStatus(
     @Param('id') id: string, 
-    @Body() statusData: { status: string },
+    @Body() statusData: UpdateOrderStatusDto,
     @User() user: any // ✅ ADDED: Get user for permission check
   ): Promise<Order> {
     return this.ordersService.updateOrderStatus(id, statusData.status, user.id);
@@ -77,18 +89,111 @@ export class OrdersController {
   @Put(':id/cancel')
   @UseGuards(SupabaseGuard)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Cancel an order' })
+  @ApiOperation({ summary: 'Cancel an order', description: 'Only pending orders can be cancelled' })
   @ApiResponse({ status: 200, description: 'Order cancelled successfully' })
   @ApiResponse({ status: 400, description: 'Cannot cancel this order' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async cancelOrder(
     @Param('id') id: string,
-    @Body() cancelData: { reason?: string },
+    @Body() cancelData: CancelOrderDto,
     @User() user: any
   ): Promise<Order> {
     return this.ordersService.cancelOrder(id, user.id, cancelData.reason);
   }
 
+  @Put(':id/confirm-receipt')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Confirm the order arrived (buyer only)' })
+  @ApiResponse({ status: 200, description: 'Order marked as delivered' })
+  @ApiResponse({ status: 400, description: 'Order has not been shipped' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async confirmReceipt(
+    @Param('id') id: string,
+    @User() user: any
+  ): Promise<Order> {
+    return this.ordersService.confirmReceipt(id, user.id);
+  }
+
+  @Post(':id/handover-code')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get a one-time handover code for a cash order (buyer only)',
+    description: 'Show the code or its QR payload to the seller when you pay. A new code replaces the previous one.',
+  })
+  @ApiResponse({ status: 201, description: 'Handover code', type: HandoverCode })
+  @ApiResponse({ status: 400, description: 'Not a cash order, or not ready for handover' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not the buyer' })
+  async createHandoverCode(
+    @Param('id') id: string,
+    @User() user: any
+  ): Promise<HandoverCode> {
+    return this.ordersService.createHandoverCode(id, user.id);
+  }
+
+  @Put(':id/handover')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Confirm an in-person handover with the buyer\'s code (seller only)',
+    description: 'Marks the order delivered and paid in cash',
+  })
+  @ApiResponse({ status: 200, description: 'Order delivered and paid' })
+  @ApiResponse({ status: 400, description: 'Wrong code, or order not ready for handover' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not the seller' })
+  @ApiResponse({ status: 409, description: 'Order already has a payment' })
+  @ApiResponse({ status: 429, description: 'Too many wrong codes, try again later' })
+  async confirmHandover(
+    @Param('id') id: string,
+    @Body() handoverData: ConfirmHandoverDto,
+    @User() user: any
+  ): Promise<Order> {
+    return this.ordersService.confirmHandover(id, user.id, handoverData.code);
+  }
+
+  @Get(':id/invoice')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiProduces('application/pdf')
+  @ApiOperation({
+    summary: 'Download the invoice of an order as a PDF',
+    description: 'Numbered sequentially per seller. Once the order is paid it also serves as the receipt.',
+  })
+  @ApiResponse({ status: 200, description: 'PDF invoice' })
+  @ApiResponse({ status: 400, description: 'Order was cancelled' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not a party to this order' })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  async getInvoice(
+    @Param('id') id: string,
+    @User() user: any
+  ): Promise<StreamableFile> {
+    const { invoice, pdf } = await this.invoicesService.getOrderInvoicePdf(id, user.id);
+
+    return new StreamableFile(pdf, {
+      type: 'application/pdf',
+      disposition: `attachment; filename="${invoice.invoice_number}.pdf"`,
+    });
+  }
+
+  @Get(':id/history')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get the status history of an order' })
+  @ApiResponse({ status: 200, description: 'Status changes, oldest first', type: [OrderStatusHistoryEntry] })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not a party to this order' })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  async getHistory(
+    @Param('id') id: string,
+    @User() user: any
+  ): Promise<OrderStatusHistoryEntry[]> {
+    return this.ordersService.getOrderHistory(id, user.id);
+  }
+
   @Put(':id/tracking')
   @UseGuards(SupabaseGuard)
   @ApiBearerAuth()
@@ -97,15 +202,72 @@ export class OrdersController {
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async addTracking(
     @Param('id') id: string,
-    @Body() trackingData: { 
-      tracking_number: string; 
-      carrier: string; 
-      estimated_delivery?: string; 
-    },
+    @Body() trackingData: OrderTrackingDto,
+    @User() user: any
+  ): Promise<Order> {
+    return this.ordersService.addOrderTracking(id, user.id, trackingData);
+  }
+
+  @Put(':id/return')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Ask to return a delivered order (buyer only)',
+    description: 'Allowed within the return policy of the order\'s listings (7 or 14 days after delivery)',
+  })
+  @ApiResponse({ status: 200, description: 'Return requested' })
+  @ApiResponse({ status: 400, description: 'Not returnable, or the return window has closed' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async requestReturn(
+    @Param('id') id: string,
+    @Body() returnData: RequestReturnDto,
+    @User() user: any
+  ): Promise<Order> {
+    return this.ordersService.requestReturn(id, user.id, returnData.reason);
+  }
+
+  @Put(':id/return/tracking')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Add tracking for the return shipment (buyer only)' })
+  @ApiResponse({ status: 200, description: 'Return tracking added' })
+  @ApiResponse({ status: 400, description: 'No return has been requested' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async addReturnTracking(
+    @Param('id') id: string,
+    @Body() trackingData: OrderTrackingDto,
+    @User() user: any
+  ): Promise<Order> {
+    return this.ordersService.addReturnTracking(id, user.id, trackingData);
+  }
+
+  @Put(':id/return/received')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Confirm the returned item arrived and refund the buyer (seller only)' })
+  @ApiResponse({ status: 200, description: 'Order returned and refunded' })
+  @ApiResponse({ status: 400, description: 'No return has been requested' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async confirmReturnReceived(
+    @Param('id') id: string,
+    @User() user: any
+  ): Promise<Order> {
+    return this.ordersService.confirmReturnReceived(id, user.id);
+  }
+
+  @Put(':id/return/reject')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Refuse a return request (seller only)' })
+  @ApiResponse({ status: 200, description: 'Order back to delivered' })
+  @ApiResponse({ status: 400, description: 'No return has been requested' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async rejectReturn(
+    @Param('id') id: string,
+    @Body() rejectData: RejectReturnDto,
     @User() user: any
   ): Promise<Order> {
-    // This endpoint would be for sellers to add tracking
-    return this.ordersService.addOrderTracking(id, trackingData);
+    return this.ordersService.rejectReturn(id, user.id, rejectData.reason);
   }
 
   @Get('stats/my-stats')
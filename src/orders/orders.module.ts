@@ -1,12 +1,17 @@
 import { Module } from '@nestjs/common';
 import { OrdersService } from './orders.service';
+import { InvoicesService } from './invoices.service';
 import { OrdersController } from './orders.controller';
 import { Order } from './entities/order.entity';
 import { SupabaseModule } from 'src/supabase/supabase.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { ExchangeRatesModule } from '../exchange-rates/exchange-rates.module';
+import { WalletModule } from '../wallet/wallet.module';
+import { DeliveryModule } from '../delivery/delivery.module';
 
 @Module({
-  imports: [SupabaseModule],
-  providers: [OrdersService],
+  imports: [SupabaseModule, PaymentsModule, ExchangeRatesModule, WalletModule, DeliveryModule],
+  providers: [OrdersService, InvoicesService],
   controllers: [OrdersController],
   exports: [OrdersService],
 })
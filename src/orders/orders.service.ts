@@ -1,45 +1,129 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, ConflictException, ForbiddenException, HttpException, HttpStatus } from '@nestjs/common';
+import { createHash, randomInt, timingSafeEqual } from 'crypto';
 import { SupabaseService } from '../supabase/supabase.service'; // ✅ ADDED
+import { EscrowService } from '../payments/escrow.service';
+import { PaymentsService } from '../payments/payments.service';
+import { ExchangeRatesService } from '../exchange-rates/exchange-rates.service';
+import { LedgerService } from '../wallet/ledger.service';
+import { ReturnPolicy } from '../listings/dto/create-listing.dto';
+import { DeliveryService } from '../delivery/delivery.service';
 import { Order } from './entities/order.entity';
-import { CreateOrderDto } from './dto/create-order.dto';
+import { CreateOrderDto, OrderStatus, OrderTrackingDto } from './dto/create-order.dto';
+import { OrderStatusHistoryEntry } from './entities/order-status-history.entity';
+import { HandoverCode } from './entities/handover-code.entity';
+import { canTransitionOrder, getAllowedOrderTransitions, OrderActor } from './order-state-machine';
+
+// One line of a multi-item order, priced when the buyer checked out
+export interface CheckoutOrderItem {
+  listing_id: string;
+  quantity: number;
+  unit_price: number;
+  // The listing's price currency; every item of a checkout shares it
+  currency: string;
+}
+
+// Days after delivery within which a return can be requested
+const RETURN_WINDOW_DAYS: Record<string, number> = {
+  [ReturnPolicy.DAYS_7]: 7,
+  [ReturnPolicy.DAYS_14]: 14,
+};
+
+// Statuses that only change through the return endpoints, which check the
+// return window and refund the buyer
+const RETURN_STATUSES: string[] = [OrderStatus.RETURN_REQUESTED, OrderStatus.RETURNED, OrderStatus.REFUNDED];
+
+// Currency of the totalRevenue in order stats
+const REVENUE_CURRENCY = 'USD';
+
+// Wrong handover codes allowed before the seller has to wait
+const MAX_HANDOVER_ATTEMPTS = 5;
+const HANDOVER_LOCK_MINUTES = 15;
+
+// Cash orders can be handed over once the seller has accepted them
+const HANDOVER_STATUSES: string[] = [OrderStatus.CONFIRMED, OrderStatus.SHIPPED];
+
+export interface CreateOrderOptions {
+  // Agreed price per unit when it differs from the listing price (auction win, Buy-It-Now)
+  unitPrice?: number;
+  // Allow ordering a listing that is no longer active (e.g. an ended auction)
+  allowInactiveListing?: boolean;
+  // Buyer must pay by this time (auction checkouts); unpaid orders are released
+  paymentDueAt?: Date;
+}
 
 @Injectable()
 export class OrdersService {
   constructor(
-    private readonly supabaseService: SupabaseService // ✅ ADDED
+    private readonly supabaseService: SupabaseService, // ✅ ADDED
+    private readonly escrowService: EscrowService,
+    private readonly paymentsService: PaymentsService,
+    private readonly exchangeRatesService: ExchangeRatesService,
+    private readonly ledgerService: LedgerService,
+    private readonly deliveryService: DeliveryService,
   ) {}
 
-  async createOrder(orderData: CreateOrderDto, buyerId: string): Promise<Order> {
+  async createOrder(orderData: CreateOrderDto, buyerId: string, options: CreateOrderOptions = {}): Promise<Order> {
     const supabase = this.supabaseService.getClient();
     
     // 1. Get listing details to calculate total
-    const { data: listing, error: listingError } = await supabase
+    let listingQuery = supabase
       .from('listings')
-      .select('id, seller_id, price_amount, title')
-      .eq('id', orderData.listing_id)
-      .eq('status', 'active')
-      .single();
+      .select('id, seller_id, price_amount, price_currency, title')
+      .eq('id', orderData.listing_id);
+
+    if (!options.allowInactiveListing) {
+      listingQuery = listingQuery.eq('status', 'active');
+    }
+
+    const { data: listing, error: listingError } = await listingQuery.single();
 
     if (listingError || !listing) {
       throw new BadRequestException('Listing not found or not available');
     }
 
-    // 2. Calculate total (price * quantity)
+    // 2. Calculate total (price * quantity) in the listing currency, then
+    // convert it if the buyer pays in another one. The rate is kept on the
+    // order so the amount never changes afterwards.
     const quantity = orderData.quantity || 1;
-    const totalAmount = listing.price_amount * quantity;
-
-    // 3. Create order
+    const unitPrice = options.unitPrice ?? listing.price_amount;
+    const listingCurrency = listing.price_currency || 'USD';
+    const listingAmount = Math.round(unitPrice * quantity * 100) / 100;
+    const converted = await this.exchangeRatesService.convert(
+      listingAmount,
+      listingCurrency,
+      orderData.currency || listingCurrency,
+    );
+
+    // Delivery is priced like the item: in the listing currency, converted
+    // at the same rate
+    const delivery = await this.getDelivery([orderData.listing_id], orderData);
+    const shippingFee = Math.round(delivery.fee * converted.rate * 100) / 100;
+
+    // 3. Take the units out of stock before the order exists, so two buyers
+    // cannot both get the last one
+    await this.reserveStock(orderData.listing_id, quantity);
+
+    // 4. Create order
     const { data: order, error: orderError } = await supabase
       .from('orders')
       .insert({
         buyer_id: buyerId,
         seller_id: listing.seller_id,
         listing_id: orderData.listing_id,
-        total_amount: totalAmount,
-        currency: orderData.currency || 'USD',
+        quantity,
+        total_amount: converted.amount,
+        shipping_fee: shippingFee,
+        currency: converted.currency,
+        listing_amount: listingAmount,
+        listing_currency: listingCurrency,
+        exchange_rate: converted.rate,
+        exchange_rate_date: converted.rate_date,
         payment_method: orderData.payment_method,
         shipping_address: orderData.shipping_address,
+        delivery_method: delivery.method,
+        delivery_city: delivery.city,
         status: 'pending',
+        ...(options.paymentDueAt && { payment_due_at: options.paymentDueAt.toISOString() }),
         order_date: new Date().toISOString(),
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
@@ -53,12 +137,110 @@ export class OrdersService {
       .single();
 
     if (orderError) {
+      await this.releaseStock(orderData.listing_id, quantity);
       throw new BadRequestException(`Failed to create order: ${orderError.message}`);
     }
 
+    await this.recordStatusChange(order.id, null, OrderStatus.PENDING, buyerId, 'buyer');
+
     return order;
   }
 
+  // Creates one order for several listings from the same seller (cart
+  // checkout). Stock for every line is reserved first; any failure puts it back.
+  async createCheckoutOrder(
+    buyerId: string,
+    sellerId: string,
+    items: CheckoutOrderItem[],
+    orderData: Pick<CreateOrderDto, 'payment_method' | 'shipping_address' | 'currency' | 'delivery_method' | 'delivery_city'>,
+  ): Promise<Order> {
+    const supabase = this.supabaseService.getClient();
+
+    // The seller's items go out as one parcel
+    const delivery = await this.getDelivery(items.map(item => item.listing_id), orderData);
+
+    // Priced like a single-listing order: the lines in the listings' currency,
+    // converted if the buyer pays in another one, and delivery at the same rate
+    const listingCurrency = items[0].currency || 'USD';
+    const listingAmount = Math.round(items.reduce((sum, item) => sum + item.unit_price * item.quantity, 0) * 100) / 100;
+    const converted = await this.exchangeRatesService.convert(
+      listingAmount,
+      listingCurrency,
+      orderData.currency || listingCurrency,
+    );
+    const shippingFee = Math.round(delivery.fee * converted.rate * 100) / 100;
+
+    const reserved: CheckoutOrderItem[] = [];
+    const releaseReserved = async () => {
+      for (const item of reserved) {
+        await this.releaseStock(item.listing_id, item.quantity);
+      }
+    };
+
+    try {
+      for (const item of items) {
+        await this.reserveStock(item.listing_id, item.quantity);
+        reserved.push(item);
+      }
+    } catch (error) {
+      await releaseReserved();
+      throw error;
+    }
+
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .insert({
+        buyer_id: buyerId,
+        seller_id: sellerId,
+        // The first line stands in for the order in single-listing views
+        listing_id: items[0].listing_id,
+        total_amount: converted.amount,
+        shipping_fee: shippingFee,
+        currency: converted.currency,
+        listing_amount: listingAmount,
+        listing_currency: listingCurrency,
+        exchange_rate: converted.rate,
+        exchange_rate_date: converted.rate_date,
+        payment_method: orderData.payment_method,
+        shipping_address: orderData.shipping_address,
+        delivery_method: delivery.method,
+        delivery_city: delivery.city,
+        status: 'pending',
+        order_date: new Date().toISOString(),
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (orderError) {
+      await releaseReserved();
+      throw new BadRequestException(`Failed to create order: ${orderError.message}`);
+    }
+
+    const { data: orderItems, error: itemsError } = await supabase
+      .from('order_items')
+      .insert(items.map(item => ({
+        order_id: order.id,
+        listing_id: item.listing_id,
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+        total_amount: Math.round(item.unit_price * item.quantity * 100) / 100,
+      })))
+      .select();
+
+    if (itemsError) {
+      // Rollback: the order is useless without its lines
+      await supabase.from('orders').delete().eq('id', order.id);
+      await releaseReserved();
+      throw new BadRequestException(`Failed to create order items: ${itemsError.message}`);
+    }
+
+    await this.recordStatusChange(order.id, null, OrderStatus.PENDING, buyerId, 'buyer');
+
+    return { ...order, items: orderItems };
+  }
+
   async findById(id: string): Promise<Order> {
     const supabase = this.supabaseService.getClient();
     
@@ -68,7 +250,12 @@ export class OrdersService {
         *,
         buyer:buyer_id (*),
         seller:seller_id (*),
-        listing:listing_id (*)
+        listing:listing_id (*),
+        items:order_items (
+          *,
+          listing:listing_id (*)
+        ),
+        disputes (id, status, reason, resolution, refund_amount, created_at, resolved_at)
       `)
       .eq('id', id)
       .single();
@@ -120,93 +307,76 @@ export class OrdersService {
     return orders || [];
   }
 
-  async updateOrderStatus(id: string, status: string, userId?: string): Promise<Order> {
-    const supabase = this.supabaseService.getClient();
-    
-    // First, get the order to check permissions
-    const { data: existingOrder } = await supabase
-      .from('orders')
-      .select('seller_id, buyer_id')
-      .eq('id', id)
-      .single();
+  // Any status change goes through the order state machine, so each party
+  // can only make the moves that belong to them
+  async updateOrderStatus(id: string, status: string, userId: string): Promise<Order> {
+    if (RETURN_STATUSES.includes(status)) {
+      throw new BadRequestException('Use the return endpoints to return an order');
+    }
 
-    if (!existingOrder) {
-      throw new NotFoundException('Order not found');
+    // Cancelling also puts the stock back and refunds the buyer
+    if (status === OrderStatus.CANCELLED) {
+      return this.cancelOrder(id, userId);
     }
 
-    // Check if user has permission (seller or buyer)
-    if (userId && existingOrder.seller_id !== userId && existingOrder.buyer_id !== userId) {
-      throw new BadRequestException('You do not have permission to update this order');
+    // Confirming delivery also records delivered_at and releases the escrow
+    if (status === OrderStatus.DELIVERED) {
+      return this.confirmReceipt(id, userId);
     }
 
-    const { data: order, error } = await supabase
-      .from('orders')
-      .update({
-        status,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', id)
-      .select(`
-        *,
-        buyer:buyer_id (*),
-        seller:seller_id (*),
-        listing:listing_id (*)
-      `)
-      .single();
+    return this.transitionOrder(id, status, userId);
+  }
 
-    if (error) {
-      throw new BadRequestException(`Failed to update order status: ${error.message}`);
-    }
+  // userId is null when the system cancels (e.g. an unpaid auction order)
+  async cancelOrder(id: string, userId: string | null, reason?: string): Promise<Order> {
+    const order = await this.transitionOrder(id, OrderStatus.CANCELLED, userId, {
+      cancellation_reason: reason,
+      cancelled_at: new Date().toISOString(),
+      cancelled_by: userId,
+    }, reason);
+
+    await this.releaseOrderStock(order);
+
+    // Give the buyer back anything they already paid
+    await this.paymentsService.refundOrder(order.id, reason || 'Order cancelled');
 
     return order;
   }
 
+  // The buyer confirms the item arrived, which releases the escrowed payment
+  // to the seller
+  async confirmReceipt(id: string, buyerId: string): Promise<Order> {
+    const order = await this.transitionOrder(id, OrderStatus.DELIVERED, buyerId, {
+      delivered_at: new Date().toISOString(),
+    });
 
-  async cancelOrder(id: string, userId: string, reason?: string): Promise<Order> {
-    const supabase = this.supabaseService.getClient();
-    
-    const { data: order, error } = await supabase
-      .from('orders')
-      .update({
-        status: 'cancelled',
-        cancellation_reason: reason,
-        cancelled_at: new Date().toISOString(),
-        cancelled_by: userId,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', id)
-      .eq('status', 'pending') // Can only cancel pending orders
-      .select()
-      .single();
-
-    if (error) {
-      throw new BadRequestException(`Failed to cancel order: ${error.message}`);
+    if (await this.escrowService.releaseForOrder(order.id)) {
+      order.payment_status = 'released';
     }
 
     return order;
   }
 
-  async completeOrder(id: string, sellerId: string): Promise<Order> {
+  async getOrderHistory(id: string, userId: string): Promise<OrderStatusHistoryEntry[]> {
     const supabase = this.supabaseService.getClient();
-    
-    const { data: order, error } = await supabase
-      .from('orders')
-      .update({
-        status: 'delivered',
-        delivered_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', id)
-      .eq('seller_id', sellerId) // Only seller can mark as delivered
-      .eq('status', 'shipped') // Can only complete shipped orders
-      .select()
-      .single();
+
+    const order = await this.getOrderParties(id);
+
+    if (order.buyer_id !== userId && order.seller_id !== userId) {
+      throw new ForbiddenException('You do not have permission to view this order');
+    }
+
+    const { data: history, error } = await supabase
+      .from('order_status_history')
+      .select('*')
+      .eq('order_id', id)
+      .order('created_at', { ascending: true });
 
     if (error) {
-      throw new BadRequestException(`Failed to complete order: ${error.message}`);
+      throw new BadRequestException(`Failed to fetch order history: ${error.message}`);
     }
 
-    return order;
+    return history || [];
   }
 
   async getOrderStats(userId: string, userType: 'buyer' | 'seller'): Promise<{
@@ -216,7 +386,12 @@ export class OrdersService {
     shipped: number;
     delivered: number;
     cancelled: number;
+    returnRequested: number;
+    returned: number;
+    refunded: number;
     totalRevenue: number;
+    totalRevenueCurrency: string;
+    revenueByCurrency: Record<string, number>;
   }> {
     const supabase = this.supabaseService.getClient();
     
@@ -224,7 +399,7 @@ export class OrdersService {
     
     const { data: orders, error } = await supabase
       .from('orders')
-      .select('status, total_amount')
+      .select('status, total_amount, currency')
       .eq(column, userId);
 
     if (error) {
@@ -239,10 +414,34 @@ export class OrdersService {
         shipped: 0,
         delivered: 0,
         cancelled: 0,
+        returnRequested: 0,
+        returned: 0,
+        refunded: 0,
         totalRevenue: 0,
+        totalRevenueCurrency: REVENUE_CURRENCY,
+        revenueByCurrency: {},
       };
     }
 
+    // A seller's revenue is what the ledger credited to their wallet for
+    // sales (after fees and refunds), so it matches GET /wallet. For buyers
+    // it is what their delivered orders cost.
+    let revenueByCurrency: Record<string, number> = {};
+    if (userType === 'seller') {
+      revenueByCurrency = await this.ledgerService.getSellerRevenue(userId);
+    } else {
+      for (const o of orders.filter(o => o.status === 'delivered')) {
+        const currency = o.currency || 'USD';
+        revenueByCurrency[currency] = (revenueByCurrency[currency] || 0) + (o.total_amount || 0);
+      }
+    }
+
+    // The total adds the currencies up at today's rates
+    let totalRevenue = 0;
+    for (const [currency, amount] of Object.entries(revenueByCurrency)) {
+      totalRevenue += (await this.exchangeRatesService.convert(amount, currency, REVENUE_CURRENCY)).amount;
+    }
+
     const stats = {
       total: orders.length,
       pending: orders.filter(o => o.status === 'pending').length,
@@ -250,39 +449,548 @@ export class OrdersService {
       shipped: orders.filter(o => o.status === 'shipped').length,
       delivered: orders.filter(o => o.status === 'delivered').length,
       cancelled: orders.filter(o => o.status === 'cancelled').length,
-      totalRevenue: orders
-        .filter(o => o.status === 'delivered')
-        .reduce((sum, o) => sum + (o.total_amount || 0), 0),
+      returnRequested: orders.filter(o => o.status === 'return_requested').length,
+      returned: orders.filter(o => o.status === 'returned').length,
+      refunded: orders.filter(o => o.status === 'refunded').length,
+      totalRevenue: Math.round(totalRevenue * 100) / 100,
+      totalRevenueCurrency: REVENUE_CURRENCY,
+      revenueByCurrency,
     };
 
     return stats;
   }
 
-  async addOrderTracking(id: string, trackingData: {
-    tracking_number: string;
-    carrier: string;
-    estimated_delivery?: string;
-  }): Promise<Order> {
+  // Seller ships a confirmed order
+  async addOrderTracking(id: string, sellerId: string, trackingData: OrderTrackingDto): Promise<Order> {
+    return this.transitionOrder(id, OrderStatus.SHIPPED, sellerId, {
+      tracking_number: trackingData.tracking_number,
+      carrier: trackingData.carrier,
+      estimated_delivery: trackingData.estimated_delivery,
+      shipped_at: new Date().toISOString(),
+    });
+  }
+
+  // Gives the buyer of a cash order a new one-time handover code. Only its
+  // hash is stored, away from the order so the seller can never read it.
+  // A new code replaces the previous one.
+  async createHandoverCode(id: string, buyerId: string): Promise<HandoverCode> {
     const supabase = this.supabaseService.getClient();
-    
+
+    const order = await this.getHandoverOrder(id);
+
+    if (order.buyer_id !== buyerId) {
+      throw new ForbiddenException('Only the buyer can get the handover code');
+    }
+
+    const code = String(randomInt(0, 1000000)).padStart(6, '0');
+
+    const { error } = await supabase
+      .from('order_handover_codes')
+      .upsert({
+        order_id: id,
+        code_hash: this.hashHandoverCode(id, code),
+        used_at: null,
+        created_at: new Date().toISOString(),
+      }, { onConflict: 'order_id' });
+
+    if (error) {
+      throw new BadRequestException(`Failed to create handover code: ${error.message}`);
+    }
+
+    return {
+      order_id: id,
+      code,
+      qr_payload: `zimmarket://handover?order=${id}&code=${code}`,
+    };
+  }
+
+  // The seller enters the buyer's code at the meet-up: the order is delivered
+  // and paid in cash. Too many wrong codes lock the order for a while.
+  async confirmHandover(id: string, sellerId: string, code: string): Promise<Order> {
+    const supabase = this.supabaseService.getClient();
+
+    const order = await this.getHandoverOrder(id);
+
+    if (order.seller_id !== sellerId) {
+      throw new ForbiddenException('Only the seller can confirm the handover');
+    }
+
+    // Every guess is counted before the code is compared, so parallel guesses
+    // can't slip past the limit
+    const { handover, attempts } = await this.reserveHandoverAttempt(id);
+
+    const expected = Buffer.from(handover.code_hash, 'hex');
+    const received = Buffer.from(this.hashHandoverCode(id, code), 'hex');
+
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      throw new BadRequestException(
+        attempts >= MAX_HANDOVER_ATTEMPTS
+          ? `Wrong handover code. Too many attempts, try again in ${HANDOVER_LOCK_MINUTES} minutes`
+          : `Wrong handover code (${MAX_HANDOVER_ATTEMPTS - attempts} attempts left)`,
+      );
+    }
+
+    // Use the code up before anything else, so it only works once
+    const { data: claimed } = await supabase
+      .from('order_handover_codes')
+      .update({ used_at: new Date().toISOString(), failed_attempts: 0, locked_until: null })
+      .eq('order_id', id)
+      .is('used_at', null)
+      .eq('code_hash', handover.code_hash)
+      .select('order_id')
+      .maybeSingle();
+
+    if (!claimed) {
+      throw new ConflictException('Handover code changed in the meantime, please try again');
+    }
+
+    try {
+      await this.paymentsService.recordCashPayment(order);
+    } catch (error) {
+      // Rollback: the buyer can hand over again once the payment issue is sorted
+      await supabase
+        .from('order_handover_codes')
+        .update({ used_at: null })
+        .eq('order_id', id);
+      throw error;
+    }
+
+    // The code is the buyer's confirmation, so the platform marks it delivered
+    return this.transitionOrder(id, OrderStatus.DELIVERED, null, {
+      delivered_at: new Date().toISOString(),
+    }, `Handed over in person, cash received by seller ${sellerId}`);
+  }
+
+  // The buyer asks to send a delivered order back, within the return window
+  // of its listings. The payment stays in escrow until the return is settled.
+  async requestReturn(id: string, buyerId: string, reason: string): Promise<Order> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: existingOrder } = await supabase
+      .from('orders')
+      .select('id, buyer_id, status, delivered_at, updated_at, listing_id, items:order_items (listing_id)')
+      .eq('id', id)
+      .single();
+
+    if (!existingOrder) {
+      throw new NotFoundException('Order not found');
+    }
+
+    if (existingOrder.buyer_id === buyerId && existingOrder.status === OrderStatus.DELIVERED) {
+      const listingIds = [
+        existingOrder.listing_id,
+        ...(existingOrder.items || []).map((item: { listing_id: string }) => item.listing_id),
+      ];
+      const windowDays = await this.getReturnWindowDays(listingIds);
+
+      if (windowDays === null) {
+        throw new BadRequestException('This order cannot be returned');
+      }
+
+      const deliveredAt = new Date(existingOrder.delivered_at || existingOrder.updated_at);
+      if (deliveredAt.getTime() + windowDays * 24 * 3600000 < Date.now()) {
+        throw new BadRequestException(
+          `The ${windowDays}-day return window for this order has closed`,
+        );
+      }
+    }
+
+    const order = await this.transitionOrder(id, OrderStatus.RETURN_REQUESTED, buyerId, {
+      return_reason: reason,
+      return_requested_at: new Date().toISOString(),
+    }, reason);
+
+    await this.escrowService.freezeForOrder(order.id);
+
+    return order;
+  }
+
+  // The buyer ships the item back
+  async addReturnTracking(id: string, buyerId: string, trackingData: OrderTrackingDto): Promise<Order> {
+    const supabase = this.supabaseService.getClient();
+
+    const existingOrder = await this.getOrderParties(id);
+
+    if (existingOrder.buyer_id !== buyerId) {
+      throw new ForbiddenException('Only the buyer can ship a return');
+    }
+
     const { data: order, error } = await supabase
       .from('orders')
       .update({
-        tracking_number: trackingData.tracking_number,
-        carrier: trackingData.carrier,
-        estimated_delivery: trackingData.estimated_delivery,
-        status: 'shipped',
-        shipped_at: new Date().toISOString(),
+        return_tracking_number: trackingData.tracking_number,
+        return_carrier: trackingData.carrier,
+        return_estimated_delivery: trackingData.estimated_delivery,
+        return_shipped_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       })
       .eq('id', id)
-      .select()
+      .eq('status', OrderStatus.RETURN_REQUESTED)
+      .select(`
+        *,
+        buyer:buyer_id (*),
+        seller:seller_id (*),
+        listing:listing_id (*)
+      `)
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestException(`Failed to add return tracking: ${error.message}`);
+    }
+
+    if (!order) {
+      throw new BadRequestException('No return has been requested for this order');
+    }
+
+    return order;
+  }
+
+  // The seller has the item back, so the buyer is refunded what is left of
+  // their payment. Calling this again on a returned order retries the refund.
+  async confirmReturnReceived(id: string, sellerId: string): Promise<Order> {
+    const existingOrder = await this.getOrderParties(id);
+
+    if (existingOrder.status !== OrderStatus.RETURNED) {
+      await this.transitionOrder(id, OrderStatus.RETURNED, sellerId, {
+        returned_at: new Date().toISOString(),
+      });
+    } else if (existingOrder.seller_id !== sellerId) {
+      throw new ForbiddenException('You do not have permission to update this order');
+    }
+
+    await this.paymentsService.refundOrder(id, 'Order returned', { createdBy: sellerId });
+
+    return this.transitionOrder(id, OrderStatus.REFUNDED, null);
+  }
+
+  // The seller refuses the return; the order goes back to delivered and its
+  // payment can be released again
+  async rejectReturn(id: string, sellerId: string, reason?: string): Promise<Order> {
+    const order = await this.transitionOrder(id, OrderStatus.DELIVERED, sellerId, {}, reason || 'Return refused');
+
+    await this.escrowService.unfreezeForOrder(order.id);
+
+    return order;
+  }
+
+  private async releaseOrderStock(order: Order): Promise<void> {
+    const supabase = this.supabaseService.getClient();
+
+    // Checkout orders keep their quantities on the order lines
+    const { data: items } = await supabase
+      .from('order_items')
+      .select('listing_id, quantity')
+      .eq('order_id', order.id);
+
+    if (items && items.length > 0) {
+      for (const item of items) {
+        await this.releaseStock(item.listing_id, item.quantity);
+      }
+      return;
+    }
+
+    // Orders from before stock tracking have no quantity and reserved nothing
+    if (order.quantity) {
+      await this.releaseStock(order.listing_id, order.quantity);
+    }
+  }
+
+  // Compare-and-set on quantity_available, retried a few times if another
+  // order changes the stock in between. The last unit marks the listing sold.
+  private async reserveStock(listingId: string, quantity: number): Promise<void> {
+    await this.adjustStock(listingId, (available, listing) => {
+      if (available < quantity) {
+        throw new BadRequestException(available === 0
+          ? 'This listing is out of stock'
+          : `Only ${available} left in stock`);
+      }
+
+      const remaining = available - quantity;
+      return {
+        quantity_available: remaining,
+        ...(remaining === 0 && listing.status === 'active' && { status: 'sold' }),
+      };
+    });
+  }
+
+  // Puts cancelled units back. A fixed-price listing that sold out is
+  // reactivated; auctions are left to the auction flow.
+  private async releaseStock(listingId: string, quantity: number): Promise<void> {
+    await this.adjustStock(listingId, (available, listing) => ({
+      quantity_available: available + quantity,
+      ...(listing.status === 'sold' && listing.listing_type !== 'auction' && { status: 'active' }),
+    }));
+  }
+
+  private async adjustStock(
+    listingId: string,
+    getChanges: (available: number, listing: any) => Record<string, any>,
+  ): Promise<void> {
+    const supabase = this.supabaseService.getClient();
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const { data: listing, error } = await supabase
+        .from('listings')
+        .select('quantity_available, status, listing_type')
+        .eq('id', listingId)
+        .single();
+
+      if (error || !listing) {
+        throw new BadRequestException('Listing not found or not available');
+      }
+
+      // Listings created before stock tracking hold a single item
+      const available = listing.quantity_available ?? 1;
+
+      let query = supabase
+        .from('listings')
+        .update({
+          ...getChanges(available, listing),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', listingId);
+
+      query = listing.quantity_available === null || listing.quantity_available === undefined
+        ? query.is('quantity_available', null)
+        : query.eq('quantity_available', listing.quantity_available);
+
+      const { data: updated } = await query.select('id').maybeSingle();
+
+      if (updated) {
+        return;
+      }
+    }
+
+    throw new ConflictException('Stock changed while updating the order, please try again');
+  }
+
+  // Stores one more attempt on the handover code, guarded by the count that was
+  // read. A lost race re-reads the row, so the lock always uses the stored count.
+  private async reserveHandoverAttempt(id: string): Promise<{ handover: any; attempts: number }> {
+    const supabase = this.supabaseService.getClient();
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const { data: handover } = await supabase
+        .from('order_handover_codes')
+        .select('*')
+        .eq('order_id', id)
+        .maybeSingle();
+
+      if (!handover || handover.used_at) {
+        throw new BadRequestException('The buyer has not generated a handover code yet');
+      }
+
+      const lockedUntil = handover.locked_until ? new Date(handover.locked_until) : null;
+
+      if (lockedUntil && lockedUntil > new Date()) {
+        throw new HttpException(
+          `Too many wrong codes, try again after ${handover.locked_until}`,
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+
+      // Attempts start over once a lock has run out
+      const attempts = (lockedUntil ? 0 : handover.failed_attempts) + 1;
+      const locked = attempts >= MAX_HANDOVER_ATTEMPTS;
+
+      const { data: updated } = await supabase
+        .from('order_handover_codes')
+        .update({
+          failed_attempts: attempts,
+          locked_until: locked
+            ? new Date(Date.now() + HANDOVER_LOCK_MINUTES * 60000).toISOString()
+            : null,
+        })
+        .eq('order_id', id)
+        .is('used_at', null)
+        .eq('failed_attempts', handover.failed_attempts)
+        .select('*')
+        .maybeSingle();
+
+      if (updated) {
+        return { handover: updated, attempts };
+      }
+    }
+
+    throw new ConflictException('Handover code changed in the meantime, please try again');
+  }
+
+  private async getHandoverOrder(id: string): Promise<Order> {
+    const { data: order } = await this.supabaseService.getClient()
+      .from('orders')
+      .select('*')
+      .eq('id', id)
       .single();
 
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    if (order.payment_method !== 'cash') {
+      throw new BadRequestException('Only cash orders are handed over with a code');
+    }
+
+    if (!HANDOVER_STATUSES.includes(order.status)) {
+      throw new BadRequestException(`Orders that are ${order.status} cannot be handed over`);
+    }
+
+    return order;
+  }
+
+  private hashHandoverCode(orderId: string, code: string): string {
+    return createHash('sha256').update(`${orderId}:${code}`).digest('hex');
+  }
+
+  // Delivery the buyer chose, with its fee in the listing currency. Orders
+  // without a delivery method have no shipping fee.
+  private async getDelivery(
+    listingIds: string[],
+    orderData: Pick<CreateOrderDto, 'delivery_method' | 'delivery_city'>,
+  ): Promise<{ method: string | null; city: string | null; fee: number }> {
+    if (!orderData.delivery_method) {
+      return { method: null, city: orderData.delivery_city || null, fee: 0 };
+    }
+
+    const option = await this.deliveryService.getDeliveryFee(
+      listingIds,
+      orderData.delivery_method,
+      orderData.delivery_city,
+    );
+
+    return { method: option.method, city: orderData.delivery_city || null, fee: option.fee };
+  }
+
+  // Shortest return window among the listings of an order, or null if any of
+  // them does not accept returns
+  private async getReturnWindowDays(listingIds: string[]): Promise<number | null> {
+    const supabase = this.supabaseService.getClient();
+
+    const uniqueIds = [...new Set(listingIds.filter(Boolean))];
+
+    const { data: listings } = await supabase
+      .from('listings')
+      .select('id, return_policy')
+      .in('id', uniqueIds);
+
+    if (!listings || listings.length < uniqueIds.length) {
+      return null;
+    }
+
+    let windowDays: number | null = null;
+    for (const listing of listings) {
+      const days = RETURN_WINDOW_DAYS[listing.return_policy];
+      if (!days) {
+        return null;
+      }
+      windowDays = windowDays === null ? days : Math.min(windowDays, days);
+    }
+
+    return windowDays;
+  }
+
+  private async getOrderParties(id: string): Promise<{ status: string; buyer_id: string; seller_id: string }> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: order } = await supabase
+      .from('orders')
+      .select('status, buyer_id, seller_id')
+      .eq('id', id)
+      .single();
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    return order;
+  }
+
+  // Moves the order to a new status if the actor is allowed to, and records
+  // the change. userId null means the system is acting.
+  private async transitionOrder(
+    id: string,
+    status: string,
+    userId: string | null,
+    changes: Record<string, any> = {},
+    note?: string,
+  ): Promise<Order> {
+    const supabase = this.supabaseService.getClient();
+
+    const existingOrder = await this.getOrderParties(id);
+
+    let actor: OrderActor;
+    if (userId === null) {
+      actor = 'system';
+    } else if (existingOrder.seller_id === userId) {
+      actor = 'seller';
+    } else if (existingOrder.buyer_id === userId) {
+      actor = 'buyer';
+    } else {
+      throw new ForbiddenException('You do not have permission to update this order');
+    }
+
+    if (!canTransitionOrder(existingOrder.status, status, actor)) {
+      const allowed = getAllowedOrderTransitions(existingOrder.status, actor);
+      throw new BadRequestException(
+        `Cannot change order from ${existingOrder.status} to ${status} as ${actor}` +
+        (allowed.length > 0 ? ` (allowed: ${allowed.join(', ')})` : ''),
+      );
+    }
+
+    // Only applies if nobody changed the status since we read it
+    const { data: order, error } = await supabase
+      .from('orders')
+      .update({
+        ...changes,
+        status,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('status', existingOrder.status)
+      .select(`
+        *,
+        buyer:buyer_id (*),
+        seller:seller_id (*),
+        listing:listing_id (*)
+      `)
+      .maybeSingle();
+
     if (error) {
-      throw new BadRequestException(`Failed to add tracking: ${error.message}`);
+      throw new BadRequestException(`Failed to update order status: ${error.message}`);
     }
 
+    if (!order) {
+      throw new ConflictException('Order status changed in the meantime, please reload it');
+    }
+
+    await this.recordStatusChange(id, existingOrder.status, status, userId, actor, note);
+
     return order;
   }
-}
\ No newline at end of file
+
+  private async recordStatusChange(
+    orderId: string,
+    fromStatus: string | null,
+    toStatus: string,
+    actorId: string | null,
+    actorRole: OrderActor,
+    note?: string,
+  ): Promise<void> {
+    const supabase = this.supabaseService.getClient();
+
+    const { error } = await supabase
+      .from('order_status_history')
+      .insert({
+        order_id: orderId,
+        from_status: fromStatus,
+        to_status: toStatus,
+        actor_id: actorId,
+        actor_role: actorRole,
+        note,
+        created_at: new Date().toISOString(),
+      });
+
+    if (error) {
+      console.error(`Failed to record status change for order ${orderId}:`, error);
+    }
+  }
+}
@@ -1,6 +1,7 @@
-import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsUUID, IsNumber, Min, IsString, IsOptional, IsEnum, IsPhoneNumber, Matches } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { IsUUID, IsString, IsOptional, IsEnum, Matches } from 'class-validator';
 
+// The amount and currency are always taken from the order
 export class CreateMobileMoneyPaymentDto {
   @ApiProperty({
     description: 'Order ID',
@@ -9,14 +10,6 @@ export class CreateMobileMoneyPaymentDto {
   @IsUUID()
   order_id: string;
 
-  @ApiProperty({
-    description: 'Amount',
-    example: 100.50,
-  })
-  @IsNumber()
-  @Min(0.01)
-  amount: number;
-
   @ApiProperty({
     description: 'Payment provider',
     enum: ['ecocash', 'onemoney', 'telecash'],
@@ -34,23 +27,6 @@ export class CreateMobileMoneyPaymentDto {
     message: 'Please enter a valid Zimbabwean mobile number (077, 078, 071, or 073)',
   })
   phoneNumber: string;
-
-  @ApiPropertyOptional({
-    description: 'Currency',
-    example: 'USD',
-    default: 'USD',
-  })
-  @IsOptional()
-  @IsString()
-  currency?: string;
-
-  @ApiPropertyOptional({
-    description: 'Payment reference',
-    example: 'MM-REF-12345',
-  })
-  @IsOptional()
-  @IsString()
-  reference?: string;
 }
 
 export class CreateBankTransferDto {
@@ -61,14 +37,6 @@ export class CreateBankTransferDto {
   @IsUUID()
   order_id: string;
 
-  @ApiProperty({
-    description: 'Amount',
-    example: 100.50,
-  })
-  @IsNumber()
-  @Min(0.01)
-  amount: number;
-
   @ApiProperty({
     description: 'Bank transfer reference',
     example: 'BANK-REF-12345',
@@ -97,13 +65,15 @@ export class CreateBankTransferDto {
   @IsOptional()
   @IsString()
   branchCode?: string;
+}
 
-  @ApiPropertyOptional({
-    description: 'Currency',
-    example: 'USD',
-    default: 'USD',
-  })
-  @IsOptional()
-  @IsString()
-  currency?: string;
-}
\ No newline at end of file
+// Paying a payment intent: the amount and currency are taken from the intent
+export class PayIntentWithMobileMoneyDto extends OmitType(
+  CreateMobileMoneyPaymentDto,
+  ['order_id'] as const,
+) {}
+
+export class PayIntentByBankTransferDto extends OmitType(
+  CreateBankTransferDto,
+  ['order_id'] as const,
+) {}
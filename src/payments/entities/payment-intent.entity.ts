@@ -0,0 +1,54 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+// One payment covering every order created by a cart checkout
+export class PaymentIntent {
+  @ApiProperty({
+    description: 'Payment intent ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Buyer ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  buyer_id: string;
+
+  @ApiProperty({
+    description: 'Orders paid by this intent',
+    type: [String],
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+  })
+  order_ids: string[];
+
+  @ApiProperty({
+    description: 'Total of all orders',
+    example: 250.0,
+  })
+  amount: number;
+
+  @ApiProperty({
+    description: 'Currency',
+    example: 'USD',
+  })
+  currency: string;
+
+  @ApiProperty({
+    description: 'Payment status',
+    enum: ['requires_payment', 'processing', 'succeeded', 'failed', 'cancelled'],
+    example: 'requires_payment',
+  })
+  status: string;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  created_at: string;
+
+  @ApiProperty({
+    description: 'Last update timestamp',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  updated_at: string;
+}
@@ -0,0 +1,53 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+// Money given back to the buyer against a captured transaction. A
+// transaction can have several partial refunds, never more than its amount.
+export class Refund {
+  @ApiProperty({
+    description: 'Refund ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Transaction the refund is taken from',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  transaction_id: string;
+
+  @ApiProperty({
+    description: 'Order the transaction paid for',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  order_id: string;
+
+  @ApiProperty({
+    description: 'Amount refunded',
+    example: 25.0,
+  })
+  amount: number;
+
+  @ApiProperty({
+    description: 'Currency of the refund (same as the transaction)',
+    example: 'USD',
+  })
+  currency: string;
+
+  @ApiPropertyOptional({
+    description: 'Why the money was refunded',
+    example: 'Item arrived damaged',
+  })
+  reason?: string;
+
+  @ApiPropertyOptional({
+    description: 'User who issued the refund (empty for automatic refunds)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  created_by?: string;
+
+  @ApiProperty({
+    description: 'When the refund was issued',
+    example: '2024-01-10T00:00:00.000Z',
+  })
+  created_at: string;
+}
@@ -8,6 +8,10 @@ export class Transaction {
 
   order: Order;
 
+  // Set when the payment was made for a whole checkout (one charge, one
+  // transaction per order)
+  payment_intent_id: string | null;
+
   amount: number;
 
   currency: string;
@@ -16,14 +20,35 @@ export class Transaction {
 
   status: string;
 
+  // Sum of refunds so far; status becomes 'refunded' once it reaches amount
+  refunded_amount: number;
+
+  // held -> released (to the seller) or refunded (to the buyer); frozen
+  // while the order is disputed
+  escrow_status: 'held' | 'frozen' | 'released' | 'refunded' | null;
+
+  held_at: Date;
+
+  released_at: Date;
+
+  refunded_at: Date;
+
   mobile_money_reference: string;
 
+  // Reference the mobile money provider gave the USSD push
+  provider_reference: string;
+
+  // Why the provider (or a timeout) failed the payment
+  failure_reason: string;
+
   bank_transfer_reference: string;
 
   ecocash_number: string;
 
   onemoney_number: string;
 
+  telecash_number: string;
+
   payment_date: Date;
 
   created_at: Date;
@@ -0,0 +1,302 @@
+import { Injectable, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseService } from '../supabase/supabase.service';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { LedgerService } from '../wallet/ledger.service';
+import { ACTIVE_DISPUTE_STATUSES } from '../disputes/entities/dispute.entity';
+
+// Buyer payments are held by the platform until the buyer has the item.
+// Held funds are released to the seller's wallet, less the platform fee
+// (PLATFORM_FEE_PERCENT), when the buyer confirms receipt (or automatically
+// some days after delivery). Refunds are recorded by PaymentsService and
+// reflected here through applyRefund. Every movement is posted to the ledger.
+@Injectable()
+export class EscrowService implements OnModuleInit {
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly configService: ConfigService,
+    private readonly schedulerService: SchedulerService,
+    private readonly ledgerService: LedgerService,
+  ) {}
+
+  onModuleInit() {
+    this.schedulerService.register({
+      name: 'payments.release-escrow',
+      intervalMs: 60 * 60 * 1000,
+      handler: async (now) => ({
+        released: await this.releaseDueEscrow(now),
+      }),
+    });
+  }
+
+  // Called once a transaction has collected the buyer's money
+  async holdFunds(transaction: {
+    id: string;
+    order_id: string;
+    amount: number;
+    currency: string;
+  }): Promise<void> {
+    const supabase = this.supabaseService.getClient();
+    const now = new Date().toISOString();
+
+    const { data: held } = await supabase
+      .from('transactions')
+      .update({ escrow_status: 'held', held_at: now, updated_at: now })
+      .eq('id', transaction.id)
+      .is('escrow_status', null)
+      .select('id')
+      .maybeSingle();
+
+    if (!held) {
+      return;
+    }
+
+    await supabase
+      .from('orders')
+      .update({ payment_status: 'held', updated_at: now })
+      .eq('id', transaction.order_id);
+
+    await this.ledgerService.post({
+      entry_type: 'payment',
+      currency: transaction.currency || 'USD',
+      reference_type: 'transaction',
+      reference_id: transaction.id,
+      description: `Payment for order ${transaction.order_id}`,
+      lines: [
+        { account: 'cash', debit: transaction.amount },
+        { account: 'escrow', credit: transaction.amount },
+      ],
+    });
+  }
+
+  // Pays the held funds of an order out to the seller's balance
+  async releaseForOrder(orderId: string): Promise<boolean> {
+    const supabase = this.supabaseService.getClient();
+    const now = new Date().toISOString();
+
+    // Claim the held transactions so a release can only happen once
+    const { data: released } = await supabase
+      .from('transactions')
+      .update({ escrow_status: 'released', released_at: now, updated_at: now })
+      .eq('order_id', orderId)
+      .eq('escrow_status', 'held')
+      .select('id, amount, refunded_amount, currency');
+
+    if (!released || released.length === 0) {
+      return false;
+    }
+
+    const { data: order } = await supabase
+      .from('orders')
+      .update({
+        payment_status: 'released',
+        payment_released_at: now,
+        updated_at: now,
+      })
+      .eq('id', orderId)
+      .select('seller_id')
+      .single();
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    const feePercent = Number(
+      this.configService.get('PLATFORM_FEE_PERCENT') || 0,
+    );
+
+    for (const transaction of released) {
+      // Partial refunds made while the funds were held stay with the buyer
+      const amount = transaction.amount - (transaction.refunded_amount || 0);
+      if (amount <= 0) continue;
+
+      const currency = transaction.currency || 'USD';
+      const fee = Math.round(amount * feePercent) / 100;
+
+      await this.ledgerService.post({
+        entry_type: 'sale',
+        currency,
+        reference_type: 'order',
+        reference_id: orderId,
+        description: `Sale of order ${orderId}`,
+        lines: [
+          { account: 'escrow', debit: amount },
+          {
+            account: 'seller_wallet',
+            user_id: order.seller_id,
+            credit: amount,
+          },
+        ],
+      });
+
+      if (fee > 0) {
+        await this.ledgerService.post({
+          entry_type: 'fee',
+          currency,
+          reference_type: 'order',
+          reference_id: orderId,
+          description: `Platform fee (${feePercent}%) on order ${orderId}`,
+          lines: [
+            { account: 'seller_wallet', user_id: order.seller_id, debit: fee },
+            { account: 'platform_fees', credit: fee },
+          ],
+        });
+      }
+    }
+
+    return true;
+  }
+
+  // Called after a refund has been recorded against a transaction. Held funds
+  // are paid back out of escrow; funds already released are taken back from
+  // the seller's wallet (which may go negative until their next sale).
+  async applyRefund(
+    transaction: {
+      id: string;
+      order_id: string;
+      amount: number;
+      refunded_amount: number;
+      currency: string;
+      escrow_status: string | null;
+    },
+    amount: number,
+  ): Promise<void> {
+    const supabase = this.supabaseService.getClient();
+
+    if (transaction.escrow_status === 'released') {
+      const { data: order } = await supabase
+        .from('orders')
+        .select('seller_id')
+        .eq('id', transaction.order_id)
+        .single();
+
+      if (!order) {
+        throw new NotFoundException('Order not found');
+      }
+
+      await this.ledgerService.post({
+        entry_type: 'refund',
+        currency: transaction.currency || 'USD',
+        reference_type: 'transaction',
+        reference_id: transaction.id,
+        description: `Refund on order ${transaction.order_id}`,
+        lines: [
+          { account: 'seller_wallet', user_id: order.seller_id, debit: amount },
+          { account: 'cash', credit: amount },
+        ],
+      });
+      return;
+    }
+
+    if (
+      transaction.escrow_status === 'held' ||
+      transaction.escrow_status === 'frozen'
+    ) {
+      await this.ledgerService.post({
+        entry_type: 'refund',
+        currency: transaction.currency || 'USD',
+        reference_type: 'transaction',
+        reference_id: transaction.id,
+        description: `Refund on order ${transaction.order_id}`,
+        lines: [
+          { account: 'escrow', debit: amount },
+          { account: 'cash', credit: amount },
+        ],
+      });
+    }
+
+    // Nothing left to release once everything held has been refunded
+    if (
+      (transaction.escrow_status === 'held' ||
+        transaction.escrow_status === 'frozen') &&
+      transaction.refunded_amount >= transaction.amount
+    ) {
+      const now = new Date().toISOString();
+
+      await supabase
+        .from('transactions')
+        .update({
+          escrow_status: 'refunded',
+          refunded_at: now,
+          updated_at: now,
+        })
+        .eq('id', transaction.id)
+        .in('escrow_status', ['held', 'frozen']);
+    }
+  }
+
+  // A dispute holds the order's funds: frozen funds are neither released by
+  // the buyer's confirmation nor by the automatic release
+  async freezeForOrder(orderId: string): Promise<void> {
+    await this.supabaseService
+      .getClient()
+      .from('transactions')
+      .update({ escrow_status: 'frozen', updated_at: new Date().toISOString() })
+      .eq('order_id', orderId)
+      .eq('escrow_status', 'held');
+  }
+
+  // Both an open dispute and a pending return freeze the funds, so they stay
+  // frozen until neither is left
+  async unfreezeForOrder(orderId: string): Promise<void> {
+    const supabase = this.supabaseService.getClient();
+
+    const { count: openDisputes } = await supabase
+      .from('disputes')
+      .select('id', { count: 'exact', head: true })
+      .eq('order_id', orderId)
+      .in('status', ACTIVE_DISPUTE_STATUSES);
+
+    if (openDisputes) {
+      return;
+    }
+
+    const { data: order } = await supabase
+      .from('orders')
+      .select('status')
+      .eq('id', orderId)
+      .maybeSingle();
+
+    if (order?.status === 'return_requested') {
+      return;
+    }
+
+    await supabase
+      .from('transactions')
+      .update({ escrow_status: 'held', updated_at: new Date().toISOString() })
+      .eq('order_id', orderId)
+      .eq('escrow_status', 'frozen');
+  }
+
+  // Delivered orders the buyer never confirmed are released after
+  // ESCROW_AUTO_RELEASE_DAYS
+  async releaseDueEscrow(at: Date = new Date()): Promise<number> {
+    const supabase = this.supabaseService.getClient();
+
+    const days = Number(
+      this.configService.get('ESCROW_AUTO_RELEASE_DAYS') || 7,
+    );
+    const deliveredBefore = new Date(at.getTime() - days * 24 * 3600000);
+
+    const { data: orders } = await supabase
+      .from('orders')
+      .select('id')
+      .eq('status', 'delivered')
+      .eq('payment_status', 'held')
+      .lt('delivered_at', deliveredBefore.toISOString());
+
+    let released = 0;
+
+    for (const order of orders || []) {
+      try {
+        if (await this.releaseForOrder(order.id)) {
+          released++;
+        }
+      } catch (error) {
+        console.error(`Failed to release escrow for order ${order.id}:`, error);
+      }
+    }
+
+    return released;
+  }
+}
@@ -0,0 +1,216 @@
+import { ConfigService } from '@nestjs/config';
+import { SupabaseService } from '../supabase/supabase.service';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { EscrowService } from './escrow.service';
+import { MobileMoneyService } from './mobile-money.service';
+import { SimulatorMobileMoneyProvider } from './providers/simulator.provider';
+import { Transaction } from './entities/transaction.entity';
+import { PaymentIntent } from './entities/payment-intent.entity';
+
+// In-memory tables behind a chainable query builder
+function createSupabaseMock(tables: Record<string, any[]>) {
+  const from = (table: string) => {
+    const rows = tables[table];
+    const filters: ((row: any) => boolean)[] = [];
+    let patch: Record<string, any> | null = null;
+
+    const run = () => {
+      const matched = rows.filter((row) => filters.every((f) => f(row)));
+      if (patch) matched.forEach((row) => Object.assign(row, patch));
+      return matched.map((row) => ({ ...row }));
+    };
+
+    const builder: any = {
+      select: () => builder,
+      update: (values: Record<string, any>) => {
+        patch = values;
+        return builder;
+      },
+      eq: (column: string, value: any) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      neq: (column: string, value: any) => {
+        filters.push((row) => row[column] !== value);
+        return builder;
+      },
+      in: (column: string, values: any[]) => {
+        filters.push((row) => values.includes(row[column]));
+        return builder;
+      },
+      not: (column: string) => {
+        filters.push((row) => row[column] != null);
+        return builder;
+      },
+      single: () => {
+        const [row] = run();
+        return Promise.resolve({
+          data: row ?? null,
+          error: row ? null : { message: 'not found' },
+        });
+      },
+      maybeSingle: () => {
+        const [row] = run();
+        return Promise.resolve({ data: row ?? null, error: null });
+      },
+      then: (resolve: any, reject: any) =>
+        Promise.resolve({ data: run(), error: null }).then(resolve, reject),
+    };
+    return builder;
+  };
+
+  return { from };
+}
+
+describe('MobileMoneyService', () => {
+  const phoneNumber = '0771234567';
+  const createdAt = new Date('2024-01-01T00:00:00.000Z');
+
+  let rows: any[];
+  let intents: any[];
+  let simulator: SimulatorMobileMoneyProvider;
+  let escrow: { holdFunds: jest.Mock };
+  let service: MobileMoneyService;
+
+  const pendingTransaction = (): Transaction => {
+    const row = {
+      id: 'tx-1',
+      order_id: 'order-1',
+      amount: 25,
+      currency: 'USD',
+      payment_method: 'ecocash',
+      status: 'pending',
+      created_at: createdAt.toISOString(),
+    };
+    rows.push(row);
+    return { ...row } as unknown as Transaction;
+  };
+
+  beforeEach(() => {
+    rows = [];
+    intents = [];
+    simulator = new SimulatorMobileMoneyProvider('ecocash');
+    escrow = { holdFunds: jest.fn().mockResolvedValue(undefined) };
+    service = new MobileMoneyService(
+      {
+        getClient: () =>
+          createSupabaseMock({ transactions: rows, payment_intents: intents }),
+      } as unknown as SupabaseService,
+      { get: () => undefined } as unknown as ConfigService,
+      { register: jest.fn() } as unknown as SchedulerService,
+      escrow as unknown as EscrowService,
+      [simulator],
+    );
+  });
+
+  it('leaves the payment pending until the provider calls back with success', async () => {
+    const initiated = await service.initiate(pendingTransaction(), phoneNumber);
+
+    expect(initiated.status).toBe('pending');
+    expect(initiated.provider_reference).toMatch(/^SIM-/);
+    expect(escrow.holdFunds).not.toHaveBeenCalled();
+
+    const settled = await service.handleCallback(
+      'ecocash',
+      simulator.webhookPayload(initiated.provider_reference),
+    );
+
+    expect(settled.status).toBe('completed');
+    expect(settled.payment_date).toBeDefined();
+    expect(escrow.holdFunds).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'tx-1' }),
+    );
+  });
+
+  it('fails the payment when polling finds it was declined', async () => {
+    simulator.setOutcome(phoneNumber, 'failure');
+    await service.initiate(pendingTransaction(), phoneNumber);
+
+    const summary = await service.pollPendingPayments(createdAt);
+
+    expect(summary).toEqual({ completed: 0, failed: 1, timed_out: 0 });
+    expect(rows[0]).toMatchObject({
+      status: 'failed',
+      failure_reason: 'Declined by subscriber',
+    });
+    expect(escrow.holdFunds).not.toHaveBeenCalled();
+  });
+
+  it('times out a push the buyer never answers', async () => {
+    simulator.setOutcome(phoneNumber, 'timeout');
+    await service.initiate(pendingTransaction(), phoneNumber);
+
+    await service.pollPendingPayments(new Date(createdAt.getTime() + 60000));
+    expect(rows[0].status).toBe('pending');
+
+    const summary = await service.pollPendingPayments(
+      new Date(createdAt.getTime() + 6 * 60000),
+    );
+
+    expect(summary.timed_out).toBe(1);
+    expect(rows[0]).toMatchObject({
+      status: 'failed',
+      failure_reason: 'timeout',
+    });
+  });
+
+  it('settles only once when the callback arrives after polling', async () => {
+    const initiated = await service.initiate(pendingTransaction(), phoneNumber);
+
+    await service.pollPendingPayments(createdAt);
+    const settled = await service.handleCallback(
+      'ecocash',
+      simulator.webhookPayload(initiated.provider_reference),
+    );
+
+    expect(settled.status).toBe('completed');
+    expect(escrow.holdFunds).toHaveBeenCalledTimes(1);
+  });
+
+  it('charges a payment intent once and completes every order with it', async () => {
+    const intent = {
+      id: 'intent-1',
+      order_ids: ['order-1', 'order-2'],
+      amount: 40,
+      currency: 'USD',
+      status: 'processing',
+    };
+    intents.push(intent);
+    const transactions = [
+      { id: 'tx-1', order_id: 'order-1', amount: 25 },
+      { id: 'tx-2', order_id: 'order-2', amount: 15 },
+    ].map((row) => {
+      const transaction = {
+        ...row,
+        currency: 'USD',
+        payment_method: 'ecocash',
+        payment_intent_id: intent.id,
+        status: 'pending',
+        created_at: createdAt.toISOString(),
+      };
+      rows.push(transaction);
+      return { ...transaction } as unknown as Transaction;
+    });
+    const initiatePayment = jest.spyOn(simulator, 'initiatePayment');
+
+    const initiated = await service.initiateIntent(
+      intent as unknown as PaymentIntent,
+      transactions,
+      phoneNumber,
+    );
+
+    expect(initiatePayment).toHaveBeenCalledTimes(1);
+    expect(initiatePayment).toHaveBeenCalledWith(
+      expect.objectContaining({ transactionId: 'intent-1', amount: 40 }),
+    );
+
+    await service.handleCallback(
+      'ecocash',
+      simulator.webhookPayload(initiated[0].provider_reference),
+    );
+
+    expect(rows.map((row) => row.status)).toEqual(['completed', 'completed']);
+    expect(escrow.holdFunds).toHaveBeenCalledTimes(2);
+    expect(intents[0].status).toBe('succeeded');
+  });
+});
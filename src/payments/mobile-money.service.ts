@@ -0,0 +1,353 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseService } from '../supabase/supabase.service';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { EscrowService } from './escrow.service';
+import { Transaction } from './entities/transaction.entity';
+import { PaymentIntent } from './entities/payment-intent.entity';
+import {
+  MOBILE_MONEY_PROVIDERS,
+  MobileMoneyProvider,
+  ProviderPaymentResult,
+} from './providers/mobile-money-provider';
+
+// Drives mobile money transactions through the provider: the USSD push is
+// sent when the payment is made, and the transaction settles later when the
+// provider's webhook arrives or when polling sees a final status. Pushes the buyer
+// never answers fail after MOBILE_MONEY_TIMEOUT_MINUTES.
+@Injectable()
+export class MobileMoneyService implements OnModuleInit {
+  private readonly logger = new Logger(MobileMoneyService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly configService: ConfigService,
+    private readonly schedulerService: SchedulerService,
+    private readonly escrowService: EscrowService,
+    @Inject(MOBILE_MONEY_PROVIDERS)
+    private readonly providers: MobileMoneyProvider[],
+  ) {}
+
+  onModuleInit() {
+    this.schedulerService.register({
+      name: 'payments.poll-mobile-money',
+      intervalMs: 30 * 1000,
+      handler: (now) => this.pollPendingPayments(now),
+    });
+  }
+
+  getProvider(name: string): MobileMoneyProvider {
+    const provider = this.providers.find((p) => p.name === name);
+    if (!provider) {
+      throw new BadRequestException(
+        `Unsupported mobile money provider: ${name}`,
+      );
+    }
+    return provider;
+  }
+
+  // Sends the USSD push for a freshly created pending transaction
+  async initiate(
+    transaction: Transaction,
+    phoneNumber: string,
+  ): Promise<Transaction> {
+    const supabase = this.supabaseService.getClient();
+    const provider = this.getProvider(transaction.payment_method);
+
+    let result: ProviderPaymentResult;
+    try {
+      result = await provider.initiatePayment({
+        transactionId: transaction.id,
+        phoneNumber,
+        amount: transaction.amount,
+        currency: transaction.currency,
+        description: `Order ${transaction.order_id}`,
+      });
+    } catch (error) {
+      await this.settle(transaction, {
+        reference: transaction.provider_reference,
+        status: 'failed',
+        message: error instanceof Error ? error.message : 'Provider error',
+      });
+      throw new BadRequestException(
+        `Failed to start ${provider.name} payment: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+
+    const { data: updated, error } = await supabase
+      .from('transactions')
+      .update({
+        provider_reference: result.reference,
+        mobile_money_reference: result.reference,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', transaction.id)
+      .select()
+      .single();
+
+    if (error || !updated) {
+      throw new BadRequestException(
+        `Failed to store provider reference: ${error?.message}`,
+      );
+    }
+
+    return this.settle(updated, result);
+  }
+
+  // One USSD push for the whole payment intent; the transactions of its
+  // orders share the provider reference and settle together
+  async initiateIntent(
+    intent: PaymentIntent,
+    transactions: Transaction[],
+    phoneNumber: string,
+  ): Promise<Transaction[]> {
+    const supabase = this.supabaseService.getClient();
+    const provider = this.getProvider(transactions[0].payment_method);
+
+    let result: ProviderPaymentResult;
+    try {
+      result = await provider.initiatePayment({
+        transactionId: intent.id,
+        phoneNumber,
+        amount: intent.amount,
+        currency: intent.currency,
+        description: `Payment ${intent.id}`,
+      });
+    } catch (error) {
+      for (const transaction of transactions) {
+        await this.settle(transaction, {
+          reference: transaction.provider_reference,
+          status: 'failed',
+          message: error instanceof Error ? error.message : 'Provider error',
+        });
+      }
+      throw new BadRequestException(
+        `Failed to start ${provider.name} payment: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+
+    const { data: updated, error } = await supabase
+      .from('transactions')
+      .update({
+        provider_reference: result.reference,
+        mobile_money_reference: result.reference,
+        updated_at: new Date().toISOString(),
+      })
+      .in(
+        'id',
+        transactions.map((transaction) => transaction.id),
+      )
+      .select();
+
+    if (error || !updated) {
+      throw new BadRequestException(
+        `Failed to store provider reference: ${error?.message}`,
+      );
+    }
+
+    const settled: Transaction[] = [];
+    for (const transaction of updated) {
+      settled.push(await this.settle(transaction, result));
+    }
+    return settled;
+  }
+
+  // Verified provider webhook: the body is parsed by the provider that sent it
+  async handleCallback(
+    providerName: string,
+    payload: Record<string, any>,
+  ): Promise<Transaction> {
+    const provider = this.getProvider(providerName);
+    const result = provider.parseCallback(payload);
+
+    if (!result.reference) {
+      throw new BadRequestException('Callback has no provider reference');
+    }
+
+    // A payment intent's orders all carry the reference of its single charge
+    const transactions = await this.findByReference(
+      provider.name,
+      result.reference,
+    );
+
+    const settled: Transaction[] = [];
+    for (const transaction of transactions) {
+      settled.push(await this.settle(transaction, result));
+    }
+    return settled[0];
+  }
+
+  // Asks the provider about pending pushes and fails the ones that expired
+  async pollPendingPayments(
+    at: Date = new Date(),
+  ): Promise<{ completed: number; failed: number; timed_out: number }> {
+    const supabase = this.supabaseService.getClient();
+    const summary = { completed: 0, failed: 0, timed_out: 0 };
+
+    const timeoutMinutes = Number(
+      this.configService.get('MOBILE_MONEY_TIMEOUT_MINUTES') || 5,
+    );
+    const expiredBefore = new Date(at.getTime() - timeoutMinutes * 60000);
+
+    const { data: transactions, error } = await supabase
+      .from('transactions')
+      .select('*')
+      .eq('status', 'pending')
+      .in(
+        'payment_method',
+        this.providers.map((p) => p.name),
+      )
+      .not('provider_reference', 'is', null);
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch pending mobile money payments: ${error.message}`,
+      );
+    }
+
+    for (const transaction of transactions || []) {
+      try {
+        let result = await this.getProvider(
+          transaction.payment_method,
+        ).checkStatus(transaction.provider_reference);
+
+        if (
+          result.status === 'pending' &&
+          new Date(transaction.created_at) < expiredBefore
+        ) {
+          result = { ...result, status: 'failed', message: 'timeout' };
+          summary.timed_out++;
+        } else if (result.status === 'completed') {
+          summary.completed++;
+        } else if (result.status === 'failed') {
+          summary.failed++;
+        }
+
+        await this.settle(transaction, result);
+      } catch (err) {
+        this.logger.error(
+          `Failed to poll mobile money transaction ${transaction.id}`,
+          err instanceof Error ? err.stack : String(err),
+        );
+      }
+    }
+
+    return summary;
+  }
+
+  // Moves a pending transaction to its final status exactly once, whichever
+  // of webhook and polling gets there first
+  private async settle(
+    transaction: Transaction,
+    result: ProviderPaymentResult,
+  ): Promise<Transaction> {
+    if (result.status === 'pending' || transaction.status !== 'pending') {
+      return transaction;
+    }
+
+    const supabase = this.supabaseService.getClient();
+    const now = new Date().toISOString();
+
+    const { data: settled } = await supabase
+      .from('transactions')
+      .update({
+        status: result.status,
+        ...(result.status === 'completed'
+          ? { payment_date: now }
+          : { failure_reason: result.message || 'Payment failed' }),
+        updated_at: now,
+      })
+      .eq('id', transaction.id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (!settled) {
+      // Someone else settled it in the meantime
+      return this.findById(transaction.id);
+    }
+
+    if (settled.status === 'completed') {
+      // The money is collected but stays in escrow until the buyer has the item
+      await this.escrowService.holdFunds(settled);
+    }
+
+    if (settled.payment_intent_id) {
+      await this.settleIntent(settled);
+    }
+
+    return settled;
+  }
+
+  // The intent succeeds once every transaction of its charge has completed.
+  // A failed charge makes the intent payable again.
+  private async settleIntent(transaction: Transaction): Promise<void> {
+    const supabase = this.supabaseService.getClient();
+    const now = new Date().toISOString();
+
+    if (transaction.status === 'completed') {
+      const { data: unsettled } = await supabase
+        .from('transactions')
+        .select('id')
+        .eq('payment_intent_id', transaction.payment_intent_id)
+        .eq('provider_reference', transaction.provider_reference)
+        .neq('status', 'completed');
+
+      if (unsettled && unsettled.length > 0) {
+        return;
+      }
+    }
+
+    await supabase
+      .from('payment_intents')
+      .update({
+        status:
+          transaction.status === 'completed' ? 'succeeded' : 'requires_payment',
+        updated_at: now,
+      })
+      .eq('id', transaction.payment_intent_id)
+      .eq('status', 'processing');
+  }
+
+  private async findByReference(
+    providerName: string,
+    reference: string,
+  ): Promise<Transaction[]> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: transactions } = await supabase
+      .from('transactions')
+      .select('*')
+      .eq('payment_method', providerName)
+      .eq('provider_reference', reference);
+
+    if (!transactions || transactions.length === 0) {
+      throw new NotFoundException('Transaction not found');
+    }
+
+    return transactions;
+  }
+
+  private async findById(id: string): Promise<Transaction> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: transaction } = await supabase
+      .from('transactions')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (!transaction) {
+      throw new NotFoundException('Transaction not found');
+    }
+
+    return transaction;
+  }
+}
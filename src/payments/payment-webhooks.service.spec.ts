@@ -0,0 +1,106 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac } from 'crypto';
+import { SupabaseService } from '../supabase/supabase.service';
+import { MobileMoneyService } from './mobile-money.service';
+import { PaymentWebhooksService } from './payment-webhooks.service';
+import { SimulatorMobileMoneyProvider } from './providers/simulator.provider';
+
+const SECRET = 'test-secret';
+
+// Only the event claim table matters here: a second insert of the same
+// event id fails like the unique index would
+function createSupabaseMock() {
+  const events = new Set<string>();
+
+  const builder: any = {
+    insert: (row: any) => {
+      const key = `${row.provider}:${row.event_id}`;
+      if (events.has(key)) {
+        return Promise.resolve({ error: { code: '23505', message: 'dup' } });
+      }
+      events.add(key);
+      return Promise.resolve({ error: null });
+    },
+    update: () => builder,
+    delete: () => builder,
+    eq: () => builder,
+    then: (resolve: any) => resolve({ error: null }),
+  };
+
+  return { from: () => builder };
+}
+
+const sign = (body: Buffer) =>
+  createHmac('sha256', SECRET).update(body).digest('hex');
+
+describe('PaymentWebhooksService', () => {
+  let mobileMoney: { getProvider: jest.Mock; handleCallback: jest.Mock };
+  let service: PaymentWebhooksService;
+
+  const body = Buffer.from(
+    JSON.stringify({
+      event_id: 'EVT-1',
+      reference: 'SIM-1',
+      status: 'completed',
+    }),
+  );
+
+  beforeEach(() => {
+    mobileMoney = {
+      getProvider: jest
+        .fn()
+        .mockReturnValue(new SimulatorMobileMoneyProvider('ecocash')),
+      handleCallback: jest
+        .fn()
+        .mockResolvedValue({ id: 'tx-1', status: 'completed' }),
+    };
+    const supabase = createSupabaseMock();
+    service = new PaymentWebhooksService(
+      { getClient: () => supabase } as unknown as SupabaseService,
+      {
+        get: (key: string) =>
+          key === 'ECOCASH_WEBHOOK_SECRET' ? SECRET : undefined,
+      } as unknown as ConfigService,
+      mobileMoney as unknown as MobileMoneyService,
+    );
+  });
+
+  it('applies a correctly signed webhook', async () => {
+    const result = await service.handleWebhook('ecocash', body, {
+      'x-simulator-signature': sign(body),
+    });
+
+    expect(result).toEqual({
+      received: true,
+      duplicate: false,
+      transaction_id: 'tx-1',
+      status: 'completed',
+    });
+    expect(mobileMoney.handleCallback).toHaveBeenCalledWith(
+      'ecocash',
+      expect.objectContaining({ reference: 'SIM-1' }),
+    );
+  });
+
+  it('rejects a webhook whose signature does not match the body', async () => {
+    const tampered = Buffer.from(body.toString().replace('SIM-1', 'SIM-2'));
+
+    await expect(
+      service.handleWebhook('ecocash', tampered, {
+        'x-simulator-signature': sign(body),
+      }),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(mobileMoney.handleCallback).not.toHaveBeenCalled();
+  });
+
+  it('acknowledges a redelivered event without applying it again', async () => {
+    const headers = { 'x-simulator-signature': sign(body) };
+
+    await service.handleWebhook('ecocash', body, headers);
+    const retry = await service.handleWebhook('ecocash', body, headers);
+
+    expect(retry).toEqual({ received: true, duplicate: true });
+    expect(mobileMoney.handleCallback).toHaveBeenCalledTimes(1);
+  });
+});
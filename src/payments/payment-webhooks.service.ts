@@ -0,0 +1,137 @@
+import {
+  BadRequestException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { SupabaseService } from '../supabase/supabase.service';
+import { MobileMoneyService } from './mobile-money.service';
+
+export interface WebhookResult {
+  received: true;
+  duplicate: boolean;
+  transaction_id?: string;
+  status?: string;
+}
+
+// Entry point for provider webhooks. A delivery is only applied if its body
+// is signed with the provider's <PROVIDER>_WEBHOOK_SECRET, and only once per
+// provider event id: providers retry until they get a 2xx, so repeats are
+// acknowledged without being applied again.
+@Injectable()
+export class PaymentWebhooksService {
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly configService: ConfigService,
+    private readonly mobileMoneyService: MobileMoneyService,
+  ) {}
+
+  async handleWebhook(
+    providerName: string,
+    rawBody: Buffer | undefined,
+    headers: Record<string, string | string[] | undefined>,
+  ): Promise<WebhookResult> {
+    const provider = this.mobileMoneyService.getProvider(providerName);
+
+    if (!rawBody) {
+      throw new BadRequestException('Webhook body is missing');
+    }
+
+    const signature = headers[provider.signatureHeader];
+    this.verifySignature(
+      provider.name,
+      rawBody,
+      Array.isArray(signature) ? signature[0] : signature,
+    );
+
+    let payload: Record<string, any>;
+    try {
+      payload = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw new BadRequestException('Webhook body is not valid JSON');
+    }
+
+    const eventId = provider.webhookEventId(payload);
+    if (!eventId) {
+      throw new BadRequestException('Webhook has no event id');
+    }
+
+    const supabase = this.supabaseService.getClient();
+
+    // Claim the event first; the unique (provider, event_id) key turns
+    // concurrent retries into duplicates
+    const { error: claimError } = await supabase
+      .from('payment_webhook_events')
+      .insert({
+        provider: provider.name,
+        event_id: eventId,
+        payload,
+        received_at: new Date().toISOString(),
+      });
+
+    if (claimError) {
+      if (claimError.code === '23505') {
+        return { received: true, duplicate: true };
+      }
+      throw new BadRequestException(
+        `Failed to record webhook: ${claimError.message}`,
+      );
+    }
+
+    try {
+      const transaction = await this.mobileMoneyService.handleCallback(
+        provider.name,
+        payload,
+      );
+
+      await supabase
+        .from('payment_webhook_events')
+        .update({
+          transaction_id: transaction.id,
+          processed_at: new Date().toISOString(),
+        })
+        .eq('provider', provider.name)
+        .eq('event_id', eventId);
+
+      return {
+        received: true,
+        duplicate: false,
+        transaction_id: transaction.id,
+        status: transaction.status,
+      };
+    } catch (error) {
+      // Forget the event so the provider's retry gets applied
+      await supabase
+        .from('payment_webhook_events')
+        .delete()
+        .eq('provider', provider.name)
+        .eq('event_id', eventId);
+      throw error;
+    }
+  }
+
+  private verifySignature(
+    providerName: string,
+    rawBody: Buffer,
+    signature: string | undefined,
+  ): void {
+    const secret = this.configService.get<string>(
+      `${providerName.toUpperCase()}_WEBHOOK_SECRET`,
+    );
+
+    if (!secret || !signature) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    const expected = createHmac('sha256', secret).update(rawBody).digest();
+    const received = Buffer.from(signature.replace(/^sha256=/, ''), 'hex');
+
+    if (
+      received.length !== expected.length ||
+      !timingSafeEqual(received, expected)
+    ) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+  }
+}
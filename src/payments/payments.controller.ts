@@ -1,43 +1,157 @@
-import { Controller, Get, Post, Put, Body, Param, UseGuards } from '@nestjs/common';
+import { Controller, Get, Post, Put, Body, Param, UseGuards, HttpCode, Req, Headers } from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { PaymentsService } from './payments.service';
+import { PaymentWebhooksService } from './payment-webhooks.service';
+import type { WebhookResult } from './payment-webhooks.service';
 import { Transaction } from './entities/transaction.entity';
+import { PaymentIntent } from './entities/payment-intent.entity';
+import { Refund } from './entities/refund.entity';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import {
+  CreateMobileMoneyPaymentDto,
+  CreateBankTransferDto,
+  PayIntentWithMobileMoneyDto,
+  PayIntentByBankTransferDto,
+} from './dto/create-payment.dto';
 import { SupabaseGuard } from '../auth/supabase.guard';
+import { AdminGuard } from '../auth/admin.guard';
+import { User } from '../common/decorators/user.decorator';
 
 @ApiTags('payments')
 @Controller('payments')
 export class PaymentsController {
-  constructor(private readonly paymentsService: PaymentsService) {}
+  constructor(
+    private readonly paymentsService: PaymentsService,
+    private readonly paymentWebhooksService: PaymentWebhooksService,
+  ) {}
 
   @Post('mobile-money')
   @UseGuards(SupabaseGuard)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Process mobile money payment' })
-  async processMobileMoney(@Body() paymentData: any): Promise<Transaction> {
-    return this.paymentsService.processMobileMoneyPayment(paymentData.orderId, paymentData);
+  @ApiOperation({ summary: 'Pay for an order with mobile money (amount is taken from the order)' })
+  @ApiResponse({ status: 201, description: 'Payment started; it completes once approved on the phone' })
+  @ApiResponse({ status: 404, description: 'Order not found or not yours' })
+  @ApiResponse({ status: 409, description: 'Order already paid or a payment is in progress' })
+  async processMobileMoney(
+    @Body() paymentData: CreateMobileMoneyPaymentDto,
+    @User() user: any,
+  ): Promise<Transaction> {
+    return this.paymentsService.processMobileMoneyPayment(user.id, paymentData);
+  }
+
+  @Post('webhooks/:provider')
+  @HttpCode(200)
+  @ApiOperation({ summary: 'Signed payment result webhook from a mobile money provider' })
+  @ApiResponse({ status: 200, description: 'Webhook applied, or acknowledged as a duplicate' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid signature' })
+  @ApiResponse({ status: 404, description: 'No transaction for this provider reference' })
+  async paymentWebhook(
+    @Param('provider') provider: string,
+    @Req() req: RawBodyRequest<Request>,
+    @Headers() headers: Record<string, string>,
+  ): Promise<WebhookResult> {
+    return this.paymentWebhooksService.handleWebhook(provider, req.rawBody, headers);
   }
 
   @Post('bank-transfer')
   @UseGuards(SupabaseGuard)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Process bank transfer payment' })
-  async processBankTransfer(@Body() paymentData: any): Promise<Transaction> {
-    return this.paymentsService.processBankTransfer(paymentData.orderId, paymentData);
+  @ApiOperation({ summary: 'Pay for an order by bank transfer (amount is taken from the order)' })
+  @ApiResponse({ status: 201, description: 'Transfer recorded, pending admin verification' })
+  @ApiResponse({ status: 404, description: 'Order not found or not yours' })
+  @ApiResponse({ status: 409, description: 'Order already paid or a payment is in progress' })
+  async processBankTransfer(
+    @Body() paymentData: CreateBankTransferDto,
+    @User() user: any,
+  ): Promise<Transaction> {
+    return this.paymentsService.processBankTransfer(user.id, paymentData);
   }
 
   @Get('order/:orderId')
   @UseGuards(SupabaseGuard)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Get transaction by order ID' })
-  async getTransactionByOrder(@Param('orderId') orderId: string): Promise<Transaction> {
-    return this.paymentsService.findByOrderId(orderId);
+  @ApiOperation({ summary: 'Get the payment of an order (buyer, seller or admin)' })
+  @ApiResponse({ status: 404, description: 'Order not found, not yours, or not paid yet' })
+  async getTransactionByOrder(@Param('orderId') orderId: string, @User() user: any): Promise<Transaction> {
+    return this.paymentsService.findByOrderId(orderId, user.id);
   }
 
-  @Put(':id/status')
+  @Get('intents/:id')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get a payment intent created at checkout' })
+  @ApiResponse({ status: 200, description: 'Payment intent', type: PaymentIntent })
+  @ApiResponse({ status: 404, description: 'Payment intent not found' })
+  async getPaymentIntent(@Param('id') id: string, @User() user: any): Promise<PaymentIntent> {
+    return this.paymentsService.findPaymentIntent(id, user.id);
+  }
+
+  @Post('intents/:id/mobile-money')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Pay all orders of a payment intent with one mobile money charge' })
+  @ApiResponse({ status: 201, description: 'Payment started; every order is paid once approved on the phone', type: PaymentIntent })
+  @ApiResponse({ status: 404, description: 'Payment intent or one of its orders not found' })
+  @ApiResponse({ status: 409, description: 'Intent or one of its orders already paid, or a payment is in progress' })
+  async payIntentWithMobileMoney(
+    @Param('id') id: string,
+    @Body() paymentData: PayIntentWithMobileMoneyDto,
+    @User() user: any,
+  ): Promise<PaymentIntent> {
+    return this.paymentsService.payIntentWithMobileMoney(user.id, id, paymentData);
+  }
+
+  @Post('intents/:id/bank-transfer')
   @UseGuards(SupabaseGuard)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Update transaction status' })
-  async updateStatus(@Param('id') id: string, @Body() statusData: { status: string }): Promise<Transaction> {
-    return this.paymentsService.updateTransactionStatus(id, statusData.status);
+  @ApiOperation({ summary: 'Pay all orders of a payment intent with one bank transfer' })
+  @ApiResponse({ status: 201, description: 'Transfer recorded, pending admin verification', type: PaymentIntent })
+  @ApiResponse({ status: 404, description: 'Payment intent or one of its orders not found' })
+  @ApiResponse({ status: 409, description: 'Intent or one of its orders already paid, or a payment is in progress' })
+  async payIntentByBankTransfer(
+    @Param('id') id: string,
+    @Body() paymentData: PayIntentByBankTransferDto,
+    @User() user: any,
+  ): Promise<PaymentIntent> {
+    return this.paymentsService.payIntentByBankTransfer(user.id, id, paymentData);
+  }
+
+  @Post(':id/refunds')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Refund a payment in full or in part (seller or admin)' })
+  @ApiResponse({ status: 201, description: 'Refund recorded', type: Refund })
+  @ApiResponse({ status: 400, description: 'Payment not captured, or amount exceeds what is left to refund' })
+  @ApiResponse({ status: 403, description: 'Only the seller or an admin can refund' })
+  async createRefund(
+    @Param('id') id: string,
+    @Body() refundData: CreateRefundDto,
+    @User() user: any,
+  ): Promise<Refund> {
+    return this.paymentsService.createRefund(id, user.id, refundData);
+  }
+
+  @Get(':id/refunds')
+  @UseGuards(SupabaseGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List refunds of a payment' })
+  @ApiResponse({ status: 200, description: 'Refunds, oldest first', type: [Refund] })
+  async getRefunds(@Param('id') id: string, @User() user: any): Promise<Refund[]> {
+    return this.paymentsService.getRefunds(id, user.id);
+  }
+
+  @Put(':id/status')
+  @UseGuards(SupabaseGuard, AdminGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Manually update transaction status (admin only)' })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async updateStatus(
+    @Param('id') id: string,
+    @Body() statusData: { status: string },
+    @User() user: any,
+  ): Promise<Transaction> {
+    return this.paymentsService.updateTransactionStatus(id, statusData.status, user.id);
   }
 }
\ No newline at end of file
@@ -1,13 +1,56 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { PaymentsService } from './payments.service';
 import { PaymentsController } from './payments.controller';
 import { Transaction } from './entities/transaction.entity';
 import { SupabaseModule } from 'src/supabase/supabase.module';
+import { SchedulerModule } from '../scheduler/scheduler.module';
+import { WalletModule } from '../wallet/wallet.module';
+import { EscrowService } from './escrow.service';
+import { MobileMoneyService } from './mobile-money.service';
+import { PaymentWebhooksService } from './payment-webhooks.service';
+import { MOBILE_MONEY_PROVIDERS } from './providers/mobile-money-provider';
+import { EcoCashProvider } from './providers/ecocash.provider';
+import { OneMoneyProvider } from './providers/onemoney.provider';
+import { TelecashProvider } from './providers/telecash.provider';
+import { SimulatorMobileMoneyProvider } from './providers/simulator.provider';
 
 @Module({
-  imports: [SupabaseModule],
-  providers: [PaymentsService],
+  imports: [SupabaseModule, SchedulerModule, WalletModule],
+  providers: [
+    PaymentsService,
+    EscrowService,
+    MobileMoneyService,
+    PaymentWebhooksService,
+    EcoCashProvider,
+    OneMoneyProvider,
+    TelecashProvider,
+    {
+      // MOBILE_MONEY_MODE=simulator fakes the networks for development; the
+      // simulators approve payments, so production refuses to start with them
+      provide: MOBILE_MONEY_PROVIDERS,
+      inject: [ConfigService, EcoCashProvider, OneMoneyProvider, TelecashProvider],
+      useFactory: (
+        configService: ConfigService,
+        ecocash: EcoCashProvider,
+        onemoney: OneMoneyProvider,
+        telecash: TelecashProvider,
+      ) => {
+        if (configService.get('MOBILE_MONEY_MODE') !== 'simulator') {
+          return [ecocash, onemoney, telecash];
+        }
+        if (configService.get('NODE_ENV') === 'production') {
+          throw new Error(
+            'MOBILE_MONEY_MODE=simulator is not allowed in production',
+          );
+        }
+        return (['ecocash', 'onemoney', 'telecash'] as const).map(
+          (name) => new SimulatorMobileMoneyProvider(name),
+        );
+      },
+    },
+  ],
   controllers: [PaymentsController],
-  exports: [PaymentsService],
+  exports: [PaymentsService, EscrowService],
 })
 export class PaymentsModule {}
\ No newline at end of file
@@ -1,11 +1,60 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, ForbiddenException, ConflictException } from '@nestjs/common';
 import { SupabaseService } from '../supabase/supabase.service';
 import { Transaction } from './entities/transaction.entity'; // Keep if this is an interface now
+import { PaymentIntent } from './entities/payment-intent.entity';
+import { Refund } from './entities/refund.entity';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import {
+  CreateMobileMoneyPaymentDto,
+  CreateBankTransferDto,
+  PayIntentWithMobileMoneyDto,
+  PayIntentByBankTransferDto,
+} from './dto/create-payment.dto';
+import { Order } from '../orders/entities/order.entity';
+import { EscrowService } from './escrow.service';
+import { MobileMoneyService } from './mobile-money.service';
+
+const MOBILE_MONEY_NETWORKS: Record<string, string> = {
+  ecocash: 'Econet',
+  onemoney: 'NetOne',
+  telecash: 'Telecel',
+};
+
+function mobileMoneyFields(paymentData: PayIntentWithMobileMoneyDto): Record<string, any> {
+  return {
+    payment_method: paymentData.provider, // ecocash, onemoney, telecash
+    // Add provider-specific fields
+    ...(paymentData.provider === 'ecocash' && { ecocash_number: paymentData.phoneNumber }),
+    ...(paymentData.provider === 'onemoney' && { onemoney_number: paymentData.phoneNumber }),
+    ...(paymentData.provider === 'telecash' && { telecash_number: paymentData.phoneNumber }),
+    // Common mobile money fields
+    network: MOBILE_MONEY_NETWORKS[paymentData.provider],
+  };
+}
+
+function bankTransferFields(paymentData: PayIntentByBankTransferDto): Record<string, any> {
+  return {
+    payment_method: 'bank_transfer',
+    bank_transfer_reference: paymentData.reference,
+    bank_name: paymentData.bankName,
+    account_number: paymentData.accountNumber,
+    branch_code: paymentData.branchCode,
+    // Bank transfers might remain pending until manually verified
+    requires_manual_verification: true,
+  };
+}
+
+// What the buyer pays for an order: the items plus delivery
+function amountDue(order: Pick<Order, 'total_amount' | 'shipping_fee'>): number {
+  return Math.round(((order.total_amount || 0) + (order.shipping_fee || 0)) * 100) / 100;
+}
 
 @Injectable()
 export class PaymentsService {
   constructor(
-    private readonly supabaseService: SupabaseService
+    private readonly supabaseService: SupabaseService,
+    private readonly escrowService: EscrowService,
+    private readonly mobileMoneyService: MobileMoneyService,
   ) {}
 
   async createTransaction(transactionData: any): Promise<Transaction> {
@@ -23,6 +72,10 @@ export class PaymentsService {
 
     // ✅ ADDED: Error handling for createTransaction
     if (error) {
+      // One open or completed payment per order (see migration)
+      if (error.code === '23505') {
+        throw new ConflictException('This order already has a payment in progress or completed');
+      }
       throw new BadRequestException(`Failed to create transaction: ${error.message}`);
     }
 
@@ -33,76 +86,187 @@ export class PaymentsService {
     return transaction;
   }
 
-  async processMobileMoneyPayment(orderId: string, paymentData: any): Promise<Transaction> {
-    const supabase = this.supabaseService.getClient();
-    
+  // Starts the payment on the buyer's phone. The transaction stays pending
+  // until the provider reports the outcome (see MobileMoneyService).
+  async processMobileMoneyPayment(buyerId: string, paymentData: CreateMobileMoneyPaymentDto): Promise<Transaction> {
+    // Fail before creating anything if the network isn't supported
+    this.mobileMoneyService.getProvider(paymentData.provider);
+
+    const order = await this.getPayableOrder(paymentData.order_id, buyerId);
+
     // Create transaction with initial status
-    const transactionData = {
-      order_id: orderId,
-      amount: paymentData.amount,
-      currency: paymentData.currency || 'USD',
-      payment_method: paymentData.provider, // ecocash, onemoney, telecash
+    const transaction = await this.createTransaction({
+      order_id: order.id,
+      user_id: buyerId,
+      amount: amountDue(order),
+      currency: order.currency || 'USD',
       status: 'pending',
-      // Add provider-specific fields
-      ...(paymentData.provider === 'ecocash' && { ecocash_number: paymentData.phoneNumber }),
-      ...(paymentData.provider === 'onemoney' && { onemoney_number: paymentData.phoneNumber }),
-      ...(paymentData.provider === 'telecash' && { telecash_number: paymentData.phoneNumber }),
-      // Common mobile money fields
-      mobile_money_reference: paymentData.reference || `MM${Date.now()}`,
-      network: paymentData.network || 'Econet', // Econet, NetOne, Telecel
-    };
+      ...mobileMoneyFields(paymentData),
+    });
 
-    const transaction = await this.createTransaction(transactionData);
+    return this.mobileMoneyService.initiate(transaction, paymentData.phoneNumber);
+  }
 
-    const { data: updatedTransaction, error } = await supabase
-      .from('transactions')
-      .update({
-        status: 'completed',
-        payment_date: new Date().toISOString(),
+  async processBankTransfer(buyerId: string, paymentData: CreateBankTransferDto): Promise<Transaction> {
+    const order = await this.getPayableOrder(paymentData.order_id, buyerId);
+
+    const transaction = await this.createTransaction({
+      order_id: order.id,
+      user_id: buyerId,
+      amount: amountDue(order),
+      currency: order.currency || 'USD',
+      status: 'pending',
+      ...bankTransferFields(paymentData),
+    });
+
+    // Return the pending transaction (admin will verify later)
+    return transaction;
+  }
+
+  // Cash handed to the seller in person. The platform never holds the money,
+  // so nothing goes through escrow or the seller's wallet.
+  async recordCashPayment(order: Order): Promise<Transaction> {
+    const now = new Date().toISOString();
+
+    const transaction = await this.createTransaction({
+      order_id: order.id,
+      user_id: order.buyer_id,
+      amount: amountDue(order),
+      currency: order.currency || 'USD',
+      payment_method: 'cash',
+      status: 'completed',
+      payment_date: now,
+    });
+
+    await this.supabaseService.getClient()
+      .from('orders')
+      .update({ payment_status: 'released', payment_released_at: now, updated_at: now })
+      .eq('id', order.id);
+
+    return transaction;
+  }
+
+  // A single payment for several orders (cart checkout across sellers)
+  async createPaymentIntent(buyerId: string, orders: Order[], currency: string): Promise<PaymentIntent> {
+    const supabase = this.supabaseService.getClient();
+
+    const amount = orders.reduce((sum, order) => sum + amountDue(order), 0);
+
+    const { data: intent, error } = await supabase
+      .from('payment_intents')
+      .insert({
+        buyer_id: buyerId,
+        order_ids: orders.map(order => order.id),
+        amount: Math.round(amount * 100) / 100,
+        currency,
+        status: 'requires_payment',
+        created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       })
-      .eq('id', transaction.id)
       .select()
       .single();
 
     if (error) {
-      throw new BadRequestException(`Failed to process payment: ${error.message}`);
+      throw new BadRequestException(`Failed to create payment intent: ${error.message}`);
     }
 
-    return updatedTransaction;
+    await supabase
+      .from('orders')
+      .update({ payment_intent_id: intent.id, updated_at: new Date().toISOString() })
+      .in('id', intent.order_ids);
+
+    return intent;
+  }
+
+  // Pays every order of a checkout with a single USSD push for the intent total
+  async payIntentWithMobileMoney(
+    buyerId: string,
+    intentId: string,
+    paymentData: PayIntentWithMobileMoneyDto,
+  ): Promise<PaymentIntent> {
+    // Fail before creating anything if the network isn't supported
+    this.mobileMoneyService.getProvider(paymentData.provider);
+
+    const { intent, orders } = await this.claimPaymentIntent(intentId, buyerId);
+    const transactions = await this.createIntentTransactions(intent, orders, mobileMoneyFields(paymentData));
+
+    await this.mobileMoneyService.initiateIntent(intent, transactions, paymentData.phoneNumber);
+
+    return this.findPaymentIntent(intentId, buyerId);
   }
 
-  async processBankTransfer(orderId: string, paymentData: any): Promise<Transaction> {
+  // One transfer for the intent total; verifying any of its transactions
+  // verifies them all (see updateTransactionStatus)
+  async payIntentByBankTransfer(
+    buyerId: string,
+    intentId: string,
+    paymentData: PayIntentByBankTransferDto,
+  ): Promise<PaymentIntent> {
+    const { intent, orders } = await this.claimPaymentIntent(intentId, buyerId);
+    await this.createIntentTransactions(intent, orders, bankTransferFields(paymentData));
+
+    return this.findPaymentIntent(intentId, buyerId);
+  }
+
+  async findPaymentIntent(id: string, buyerId: string): Promise<PaymentIntent> {
     const supabase = this.supabaseService.getClient();
-    
-    const transaction = await this.createTransaction({
-      order_id: orderId,
-      amount: paymentData.amount,
-      currency: paymentData.currency || 'USD',
-      payment_method: 'bank_transfer',
-      status: 'pending',
-      bank_transfer_reference: paymentData.reference,
-      bank_name: paymentData.bankName,
-      account_number: paymentData.accountNumber,
-      branch_code: paymentData.branchCode,
-      // Bank transfers might remain pending until manually verified
-      requires_manual_verification: true,
-    });
 
-    // Return the pending transaction (admin will verify later)
-    return transaction;
+    const { data: intent, error } = await supabase
+      .from('payment_intents')
+      .select('*')
+      .eq('id', id)
+      .eq('buyer_id', buyerId)
+      .single();
+
+    if (error || !intent) {
+      throw new NotFoundException('Payment intent not found');
+    }
+
+    return intent;
   }
 
-  async findByOrderId(orderId: string): Promise<Transaction> {
+  async isOrderPaid(orderId: string): Promise<boolean> {
     const supabase = this.supabaseService.getClient();
-    
-    const { data: transaction, error } = await supabase
+
+    const { data: transactions } = await supabase
+      .from('transactions')
+      .select('id')
+      .eq('order_id', orderId)
+      .eq('status', 'completed')
+      .limit(1);
+
+    return !!transactions && transactions.length > 0;
+  }
+
+  // An order can have several payment attempts; the one that is in progress
+  // or took the money wins over failed ones, otherwise the latest attempt
+  async findByOrderId(orderId: string, userId: string): Promise<Transaction> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: order } = await supabase
+      .from('orders')
+      .select('buyer_id, seller_id')
+      .eq('id', orderId)
+      .maybeSingle();
+
+    if (!order || (order.buyer_id !== userId && order.seller_id !== userId && !(await this.isAdmin(userId)))) {
+      throw new NotFoundException('Transaction not found');
+    }
+
+    const { data: transactions, error } = await supabase
       .from('transactions')
       .select('*')
       .eq('order_id', orderId)
-      .single();
+      .order('created_at', { ascending: false });
 
-    if (error || !transaction) {
+    if (error) {
+      throw new BadRequestException(`Failed to fetch transactions: ${error.message}`);
+    }
+
+    const transaction = (transactions || []).find(t => ['pending', 'completed', 'refunded'].includes(t.status))
+      || transactions?.[0];
+
+    if (!transaction) {
       throw new NotFoundException('Transaction not found');
     }
 
@@ -134,9 +298,97 @@ export class PaymentsService {
       throw new NotFoundException('Transaction not found or update failed');
     }
 
+    const settled = [transaction, ...await this.settleIntentTransactions(transaction, updateData)];
+
+    if (status === 'completed') {
+      for (const paid of settled) {
+        await this.escrowService.holdFunds(paid);
+      }
+    }
+
     return transaction;
   }
 
+  // The order's seller or an admin can refund a captured payment, in full or
+  // in part
+  async createRefund(transactionId: string, userId: string, refundData: CreateRefundDto): Promise<Refund> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: transaction } = await supabase
+      .from('transactions')
+      .select('id, order:orders (seller_id)')
+      .eq('id', transactionId)
+      .single();
+
+    if (!transaction) {
+      throw new NotFoundException('Transaction not found');
+    }
+
+    const order = transaction.order as any;
+    if (order?.seller_id !== userId && !(await this.isAdmin(userId))) {
+      throw new ForbiddenException('Only the seller or an admin can refund this payment');
+    }
+
+    return this.refundTransaction(transactionId, refundData.amount, refundData.reason, userId);
+  }
+
+  // Refunds whatever is left of every captured payment for an order (used
+  // when an order is cancelled), or just `amount` of it (dispute decisions)
+  async refundOrder(
+    orderId: string,
+    reason: string,
+    options: { amount?: number; createdBy?: string } = {},
+  ): Promise<Refund[]> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: transactions } = await supabase
+      .from('transactions')
+      .select('id')
+      .eq('order_id', orderId)
+      .eq('status', 'completed');
+
+    if (options.amount !== undefined) {
+      if (!transactions || transactions.length === 0) {
+        throw new BadRequestException('Order has no payment to refund');
+      }
+      return [await this.refundTransaction(transactions[0].id, options.amount, reason, options.createdBy ?? null)];
+    }
+
+    const refunds: Refund[] = [];
+    for (const transaction of transactions || []) {
+      refunds.push(await this.refundTransaction(transaction.id, undefined, reason, options.createdBy ?? null));
+    }
+
+    return refunds;
+  }
+
+  async getRefunds(transactionId: string, userId: string): Promise<Refund[]> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: transaction } = await supabase
+      .from('transactions')
+      .select('id, order:orders (buyer_id, seller_id)')
+      .eq('id', transactionId)
+      .single();
+
+    const order = transaction?.order as any;
+    if (!transaction || (order?.buyer_id !== userId && order?.seller_id !== userId && !(await this.isAdmin(userId)))) {
+      throw new NotFoundException('Transaction not found');
+    }
+
+    const { data: refunds, error } = await supabase
+      .from('refunds')
+      .select('*')
+      .eq('transaction_id', transactionId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new BadRequestException(`Failed to fetch refunds: ${error.message}`);
+    }
+
+    return refunds || [];
+  }
+
   // ✅ ADDED: Additional useful methods for payments
 
   async findByUser(userId: string): Promise<Transaction[]> {
@@ -161,17 +413,19 @@ export class PaymentsService {
   async verifyBankTransfer(transactionId: string, adminId: string, verificationData: any): Promise<Transaction> {
     const supabase = this.supabaseService.getClient();
     
+    const verification = {
+      status: 'completed',
+      verified_by: adminId,
+      verified_at: new Date().toISOString(),
+      payment_date: new Date().toISOString(),
+      bank_confirmation_reference: verificationData.confirmationReference,
+      notes: verificationData.notes,
+      updated_at: new Date().toISOString(),
+    };
+
     const { data: transaction, error } = await supabase
       .from('transactions')
-      .update({
-        status: 'completed',
-        verified_by: adminId,
-        verified_at: new Date().toISOString(),
-        payment_date: new Date().toISOString(),
-        bank_confirmation_reference: verificationData.confirmationReference,
-        notes: verificationData.notes,
-        updated_at: new Date().toISOString(),
-      })
+      .update(verification)
       .eq('id', transactionId)
       .eq('payment_method', 'bank_transfer')
       .select()
@@ -181,6 +435,12 @@ export class PaymentsService {
       throw new BadRequestException('Failed to verify bank transfer');
     }
 
+    const settled = [transaction, ...await this.settleIntentTransactions(transaction, verification)];
+
+    for (const paid of settled) {
+      await this.escrowService.holdFunds(paid);
+    }
+
     return transaction;
   }
 
@@ -189,13 +449,16 @@ export class PaymentsService {
     completed: number;
     pending: number;
     failed: number;
+    refunded: number;
     totalAmount: number;
+    refundedAmount: number;
+    netAmount: number;
   }> {
     const supabase = this.supabaseService.getClient();
     
     let query = supabase
       .from('transactions')
-      .select('status, amount');
+      .select('status, amount, refunded_amount');
 
     if (userId) {
       query = query.eq('user_id', userId);
@@ -213,20 +476,280 @@ export class PaymentsService {
         completed: 0,
         pending: 0,
         failed: 0,
+        refunded: 0,
         totalAmount: 0,
+        refundedAmount: 0,
+        netAmount: 0,
       };
     }
 
+    // Fully refunded payments were still captured, so they count towards
+    // totalAmount; netAmount is what was kept after refunds
+    const captured = transactions.filter(t => t.status === 'completed' || t.status === 'refunded');
+    const totalAmount = captured.reduce((sum, t) => sum + (t.amount || 0), 0);
+    const refundedAmount = captured.reduce((sum, t) => sum + (t.refunded_amount || 0), 0);
+
     const stats = {
       total: transactions.length,
       completed: transactions.filter(t => t.status === 'completed').length,
       pending: transactions.filter(t => t.status === 'pending').length,
       failed: transactions.filter(t => t.status === 'failed').length,
-      totalAmount: transactions
-        .filter(t => t.status === 'completed')
-        .reduce((sum, t) => sum + (t.amount || 0), 0),
+      refunded: transactions.filter(t => t.status === 'refunded').length,
+      totalAmount,
+      refundedAmount,
+      netAmount: Math.round((totalAmount - refundedAmount) * 100) / 100,
     };
 
     return stats;
   }
-}
\ No newline at end of file
+
+  // Compare-and-set on refunded_amount so concurrent refunds can never add up
+  // to more than was captured
+  private async refundTransaction(
+    transactionId: string,
+    amount: number | undefined,
+    reason: string | undefined,
+    createdBy: string | null,
+  ): Promise<Refund> {
+    const supabase = this.supabaseService.getClient();
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const { data: transaction } = await supabase
+        .from('transactions')
+        .select('*')
+        .eq('id', transactionId)
+        .single();
+
+      if (!transaction) {
+        throw new NotFoundException('Transaction not found');
+      }
+
+      if (transaction.status !== 'completed') {
+        throw new BadRequestException('Only completed payments can be refunded');
+      }
+
+      const alreadyRefunded = transaction.refunded_amount || 0;
+      const refundable = Math.round((transaction.amount - alreadyRefunded) * 100) / 100;
+      const refundAmount = amount ?? refundable;
+
+      if (refundAmount <= 0 || refundAmount > refundable) {
+        throw new BadRequestException(
+          `Refund exceeds the refundable amount of ${refundable} ${transaction.currency || 'USD'}`
+        );
+      }
+
+      const refundedAmount = Math.round((alreadyRefunded + refundAmount) * 100) / 100;
+      const fullyRefunded = refundedAmount >= transaction.amount;
+      const now = new Date().toISOString();
+
+      const { data: updated } = await supabase
+        .from('transactions')
+        .update({
+          refunded_amount: refundedAmount,
+          status: fullyRefunded ? 'refunded' : 'completed',
+          updated_at: now,
+        })
+        .eq('id', transactionId)
+        .eq('status', 'completed')
+        .eq('refunded_amount', alreadyRefunded)
+        .select()
+        .maybeSingle();
+
+      if (!updated) {
+        continue;
+      }
+
+      const { data: refund, error } = await supabase
+        .from('refunds')
+        .insert({
+          transaction_id: transactionId,
+          order_id: transaction.order_id,
+          amount: refundAmount,
+          currency: transaction.currency || 'USD',
+          reason,
+          created_by: createdBy,
+          created_at: now,
+        })
+        .select()
+        .single();
+
+      if (error || !refund) {
+        // Give the amount back so it can be refunded again
+        await supabase
+          .from('transactions')
+          .update({ refunded_amount: alreadyRefunded, status: 'completed', updated_at: now })
+          .eq('id', transactionId)
+          .eq('refunded_amount', refundedAmount);
+        throw new BadRequestException(`Failed to create refund: ${error?.message}`);
+      }
+
+      await supabase
+        .from('orders')
+        .update({
+          refunded_amount: refundedAmount,
+          ...(fullyRefunded && { payment_status: 'refunded' }),
+          updated_at: now,
+        })
+        .eq('id', transaction.order_id);
+
+      await this.escrowService.applyRefund(updated, refundAmount);
+
+      return refund;
+    }
+
+    throw new ConflictException('The payment changed while refunding, please try again');
+  }
+
+  // Every order of the intent must still be payable; the intent is then
+  // marked as processing so it is only paid once
+  private async claimPaymentIntent(
+    intentId: string,
+    buyerId: string,
+  ): Promise<{ intent: PaymentIntent; orders: Order[] }> {
+    const intent = await this.findPaymentIntent(intentId, buyerId);
+
+    if (intent.status !== 'requires_payment') {
+      throw new ConflictException(intent.status === 'succeeded'
+        ? 'Payment intent is already paid'
+        : 'A payment for this intent is already in progress');
+    }
+
+    const orders: Order[] = [];
+    for (const orderId of intent.order_ids) {
+      orders.push(await this.getPayableOrder(orderId, buyerId));
+    }
+
+    const { data: claimed } = await this.supabaseService.getClient()
+      .from('payment_intents')
+      .update({ status: 'processing', updated_at: new Date().toISOString() })
+      .eq('id', intent.id)
+      .eq('status', 'requires_payment')
+      .select()
+      .maybeSingle();
+
+    if (!claimed) {
+      throw new ConflictException('A payment for this intent is already in progress');
+    }
+
+    return { intent: claimed, orders };
+  }
+
+  // One pending transaction per order, each for what that order costs, so
+  // escrow and refunds keep working per order
+  private async createIntentTransactions(
+    intent: PaymentIntent,
+    orders: Order[],
+    paymentFields: Record<string, any>,
+  ): Promise<Transaction[]> {
+    const supabase = this.supabaseService.getClient();
+    const transactions: Transaction[] = [];
+
+    try {
+      for (const order of orders) {
+        transactions.push(await this.createTransaction({
+          order_id: order.id,
+          user_id: intent.buyer_id,
+          amount: amountDue(order),
+          currency: order.currency || 'USD',
+          status: 'pending',
+          payment_intent_id: intent.id,
+          ...paymentFields,
+        }));
+      }
+    } catch (error) {
+      // Rollback: the intent can be paid again
+      if (transactions.length > 0) {
+        await supabase
+          .from('transactions')
+          .update({ status: 'failed', failure_reason: 'Payment could not be started', updated_at: new Date().toISOString() })
+          .in('id', transactions.map(transaction => transaction.id));
+      }
+      await supabase
+        .from('payment_intents')
+        .update({ status: 'requires_payment', updated_at: new Date().toISOString() })
+        .eq('id', intent.id);
+      throw error;
+    }
+
+    return transactions;
+  }
+
+  // An intent is paid with one charge, so the other transactions of the
+  // intent get the same outcome. A failed charge makes the intent payable again.
+  private async settleIntentTransactions(
+    transaction: Transaction,
+    changes: Record<string, any>,
+  ): Promise<Transaction[]> {
+    if (!transaction.payment_intent_id || !['completed', 'failed'].includes(transaction.status)) {
+      return [];
+    }
+
+    const supabase = this.supabaseService.getClient();
+    const now = new Date().toISOString();
+
+    const { data: others } = await supabase
+      .from('transactions')
+      .update({ ...changes, status: transaction.status, updated_at: now })
+      .eq('payment_intent_id', transaction.payment_intent_id)
+      .eq('status', 'pending')
+      .select();
+
+    await supabase
+      .from('payment_intents')
+      .update({ status: transaction.status === 'completed' ? 'succeeded' : 'requires_payment', updated_at: now })
+      .eq('id', transaction.payment_intent_id)
+      .eq('status', 'processing');
+
+    return others || [];
+  }
+
+  // Payments are always for the caller's own order, for exactly what the
+  // order costs, and only while nothing has been paid yet
+  private async getPayableOrder(orderId: string, buyerId: string): Promise<Order> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: order } = await supabase
+      .from('orders')
+      .select('*')
+      .eq('id', orderId)
+      .single();
+
+    if (!order || order.buyer_id !== buyerId) {
+      throw new NotFoundException('Order not found');
+    }
+
+    if (order.status === 'cancelled') {
+      throw new BadRequestException('Cancelled orders cannot be paid');
+    }
+
+    if (!(amountDue(order) > 0)) {
+      throw new BadRequestException('Order has nothing to pay');
+    }
+
+    const { data: payments } = await supabase
+      .from('transactions')
+      .select('status')
+      .eq('order_id', orderId)
+      .in('status', ['pending', 'completed', 'refunded']);
+
+    if (payments?.some(payment => payment.status !== 'pending')) {
+      throw new ConflictException('Order is already paid');
+    }
+    if (payments && payments.length > 0) {
+      throw new ConflictException('A payment for this order is already in progress');
+    }
+
+    return order;
+  }
+
+  private async isAdmin(userId: string): Promise<boolean> {
+    const { data: user } = await this.supabaseService
+      .getClient()
+      .from('users')
+      .select('role')
+      .eq('id', userId)
+      .single();
+
+    return user?.role === 'admin';
+  }
+}
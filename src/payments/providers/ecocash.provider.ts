@@ -0,0 +1,59 @@
+import { Injectable } from '@nestjs/common';
+import { HttpMobileMoneyProvider } from './http-mobile-money.provider';
+import {
+  MobileMoneyPaymentRequest,
+  ProviderPaymentResult,
+} from './mobile-money-provider';
+
+// EcoCash (Econet) merchant payments
+@Injectable()
+export class EcoCashProvider extends HttpMobileMoneyProvider {
+  readonly name = 'ecocash' as const;
+  readonly signatureHeader = 'x-ecocash-signature';
+  protected readonly configPrefix = 'ECOCASH';
+  protected readonly paymentPath = '/transactions/amount';
+
+  protected statusPath(reference: string): string {
+    return `/transactions/${encodeURIComponent(reference)}`;
+  }
+
+  webhookEventId(payload: Record<string, any>): string | undefined {
+    return payload.notificationId;
+  }
+
+  protected toPaymentBody(
+    request: MobileMoneyPaymentRequest,
+    callbackUrl: string,
+  ): Record<string, any> {
+    return {
+      clientCorrelator: request.transactionId,
+      subscriberMsisdn: request.phoneNumber,
+      merchantCode: this.merchantCode,
+      notifyUrl: callbackUrl,
+      paymentAmount: {
+        chargingInformation: {
+          amount: request.amount,
+          currency: request.currency,
+          description: request.description,
+        },
+      },
+    };
+  }
+
+  protected toResult(payload: Record<string, any>): ProviderPaymentResult {
+    const status = String(
+      payload.transactionOperationStatus || '',
+    ).toUpperCase();
+
+    return {
+      reference: payload.serverReferenceCode,
+      status:
+        status === 'COMPLETED'
+          ? 'completed'
+          : status === 'FAILED' || status === 'CANCELLED'
+            ? 'failed'
+            : 'pending',
+      message: payload.responseMessage,
+    };
+  }
+}
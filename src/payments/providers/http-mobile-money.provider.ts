@@ -0,0 +1,97 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  MobileMoneyPaymentRequest,
+  MobileMoneyProvider,
+  MobileMoneyProviderName,
+  ProviderPaymentResult,
+} from './mobile-money-provider';
+
+// Shared plumbing for the live networks. Each network is configured with
+// <PREFIX>_API_URL, <PREFIX>_API_KEY and <PREFIX>_MERCHANT_CODE and only has
+// to describe its own request and response shapes.
+export abstract class HttpMobileMoneyProvider implements MobileMoneyProvider {
+  abstract readonly name: MobileMoneyProviderName;
+  abstract readonly signatureHeader: string;
+  protected abstract readonly configPrefix: string;
+  protected abstract readonly paymentPath: string;
+
+  constructor(protected readonly configService: ConfigService) {}
+
+  protected abstract statusPath(reference: string): string;
+
+  abstract webhookEventId(payload: Record<string, any>): string | undefined;
+
+  protected abstract toPaymentBody(
+    request: MobileMoneyPaymentRequest,
+    callbackUrl: string,
+  ): Record<string, any>;
+
+  // Maps a provider response or callback body to our result shape
+  protected abstract toResult(
+    payload: Record<string, any>,
+  ): ProviderPaymentResult;
+
+  async initiatePayment(
+    request: MobileMoneyPaymentRequest,
+  ): Promise<ProviderPaymentResult> {
+    const response = await this.send(
+      'POST',
+      this.paymentPath,
+      this.toPaymentBody(request, this.callbackUrl()),
+    );
+    return this.toResult(response);
+  }
+
+  async checkStatus(reference: string): Promise<ProviderPaymentResult> {
+    return this.toResult(await this.send('GET', this.statusPath(reference)));
+  }
+
+  parseCallback(payload: Record<string, any>): ProviderPaymentResult {
+    return this.toResult(payload);
+  }
+
+  protected get merchantCode(): string {
+    return this.setting('MERCHANT_CODE');
+  }
+
+  private callbackUrl(): string {
+    const baseUrl =
+      this.configService.get<string>('PAYMENTS_CALLBACK_BASE_URL') || '';
+    return `${baseUrl}/payments/webhooks/${this.name}`;
+  }
+
+  private setting(key: string): string {
+    const value = this.configService.get<string>(`${this.configPrefix}_${key}`);
+    if (!value) {
+      throw new BadRequestException(
+        `${this.name} payments are not configured (${this.configPrefix}_${key})`,
+      );
+    }
+    return value;
+  }
+
+  private async send(
+    method: 'GET' | 'POST',
+    path: string,
+    body?: Record<string, any>,
+  ): Promise<Record<string, any>> {
+    const response = await fetch(`${this.setting('API_URL')}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.setting('API_KEY')}`,
+      },
+      body: body ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(15000),
+    });
+
+    if (!response.ok) {
+      throw new BadRequestException(
+        `${this.name} request failed with status ${response.status}`,
+      );
+    }
+
+    return (await response.json()) as Record<string, any>;
+  }
+}
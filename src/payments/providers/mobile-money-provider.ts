@@ -0,0 +1,38 @@
+export const MOBILE_MONEY_PROVIDERS = 'MOBILE_MONEY_PROVIDERS';
+
+export type MobileMoneyProviderName = 'ecocash' | 'onemoney' | 'telecash';
+
+// Where a payment stands on the provider's side
+export type ProviderPaymentStatus = 'pending' | 'completed' | 'failed';
+
+export interface MobileMoneyPaymentRequest {
+  // Our transaction id, sent to the provider as the merchant reference
+  transactionId: string;
+  phoneNumber: string;
+  amount: number;
+  currency: string;
+  description: string;
+}
+
+export interface ProviderPaymentResult {
+  // The provider's own reference, used to match callbacks and to poll
+  reference: string;
+  status: ProviderPaymentStatus;
+  message?: string;
+}
+
+// One mobile money network. initiatePayment sends the USSD push to the
+// buyer's phone; the outcome arrives later through a webhook or polling.
+export interface MobileMoneyProvider {
+  readonly name: MobileMoneyProviderName;
+  // Header carrying the hex HMAC-SHA256 of the raw webhook body
+  readonly signatureHeader: string;
+  initiatePayment(
+    request: MobileMoneyPaymentRequest,
+  ): Promise<ProviderPaymentResult>;
+  checkStatus(reference: string): Promise<ProviderPaymentResult>;
+  // Reads a webhook body posted by the provider
+  parseCallback(payload: Record<string, any>): ProviderPaymentResult;
+  // Id of a webhook delivery; retries of the same event repeat it
+  webhookEventId(payload: Record<string, any>): string | undefined;
+}
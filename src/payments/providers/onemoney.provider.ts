@@ -0,0 +1,53 @@
+import { Injectable } from '@nestjs/common';
+import { HttpMobileMoneyProvider } from './http-mobile-money.provider';
+import {
+  MobileMoneyPaymentRequest,
+  ProviderPaymentResult,
+} from './mobile-money-provider';
+
+// OneMoney (NetOne) merchant payments
+@Injectable()
+export class OneMoneyProvider extends HttpMobileMoneyProvider {
+  readonly name = 'onemoney' as const;
+  readonly signatureHeader = 'x-onemoney-signature';
+  protected readonly configPrefix = 'ONEMONEY';
+  protected readonly paymentPath = '/payments/request';
+
+  protected statusPath(reference: string): string {
+    return `/payments/${encodeURIComponent(reference)}/status`;
+  }
+
+  webhookEventId(payload: Record<string, any>): string | undefined {
+    return payload.event_id;
+  }
+
+  protected toPaymentBody(
+    request: MobileMoneyPaymentRequest,
+    callbackUrl: string,
+  ): Record<string, any> {
+    return {
+      merchant_code: this.merchantCode,
+      merchant_reference: request.transactionId,
+      msisdn: request.phoneNumber,
+      amount: request.amount,
+      currency: request.currency,
+      narration: request.description,
+      callback_url: callbackUrl,
+    };
+  }
+
+  protected toResult(payload: Record<string, any>): ProviderPaymentResult {
+    const status = String(payload.status || '').toLowerCase();
+
+    return {
+      reference: payload.transaction_id,
+      status:
+        status === 'success'
+          ? 'completed'
+          : status === 'failed' || status === 'declined' || status === 'expired'
+            ? 'failed'
+            : 'pending',
+      message: payload.message,
+    };
+  }
+}
@@ -0,0 +1,73 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  MobileMoneyPaymentRequest,
+  MobileMoneyProvider,
+  MobileMoneyProviderName,
+  ProviderPaymentResult,
+} from './mobile-money-provider';
+
+export type SimulatedOutcome = 'success' | 'failure' | 'timeout';
+
+// Stands in for a network in development and tests. Nothing leaves the
+// process: the "buyer" approves, declines or ignores the USSD push according
+// to the outcome set for their phone number.
+export class SimulatorMobileMoneyProvider implements MobileMoneyProvider {
+  private readonly outcomes = new Map<string, SimulatedOutcome>();
+  private readonly payments = new Map<string, SimulatedOutcome>();
+  readonly signatureHeader = 'x-simulator-signature';
+
+  constructor(
+    readonly name: MobileMoneyProviderName,
+    private readonly defaultOutcome: SimulatedOutcome = 'success',
+  ) {}
+
+  setOutcome(phoneNumber: string, outcome: SimulatedOutcome): void {
+    this.outcomes.set(phoneNumber, outcome);
+  }
+
+  initiatePayment(
+    request: MobileMoneyPaymentRequest,
+  ): Promise<ProviderPaymentResult> {
+    const reference = `SIM-${uuidv4()}`;
+    this.payments.set(
+      reference,
+      this.outcomes.get(request.phoneNumber) || this.defaultOutcome,
+    );
+
+    return Promise.resolve({ reference, status: 'pending' });
+  }
+
+  checkStatus(reference: string): Promise<ProviderPaymentResult> {
+    return Promise.resolve(this.resultFor(reference));
+  }
+
+  parseCallback(payload: Record<string, any>): ProviderPaymentResult {
+    return {
+      reference: payload.reference,
+      status: payload.status,
+      message: payload.message,
+    };
+  }
+
+  webhookEventId(payload: Record<string, any>): string | undefined {
+    return payload.event_id;
+  }
+
+  // The body the network would post once the buyer has answered the push
+  webhookPayload(reference: string): Record<string, any> {
+    return { event_id: `EVT-${uuidv4()}`, ...this.resultFor(reference) };
+  }
+
+  private resultFor(reference: string): ProviderPaymentResult {
+    const outcome = this.payments.get(reference);
+
+    if (outcome === 'success') {
+      return { reference, status: 'completed' };
+    }
+    if (outcome === 'failure') {
+      return { reference, status: 'failed', message: 'Declined by subscriber' };
+    }
+    // Unknown references and ignored pushes stay pending until we time out
+    return { reference, status: 'pending' };
+  }
+}
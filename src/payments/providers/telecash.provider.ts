@@ -0,0 +1,54 @@
+import { Injectable } from '@nestjs/common';
+import { HttpMobileMoneyProvider } from './http-mobile-money.provider';
+import {
+  MobileMoneyPaymentRequest,
+  ProviderPaymentResult,
+} from './mobile-money-provider';
+
+// Telecash (Telecel) merchant payments
+@Injectable()
+export class TelecashProvider extends HttpMobileMoneyProvider {
+  readonly name = 'telecash' as const;
+  readonly signatureHeader = 'x-telecash-signature';
+  protected readonly configPrefix = 'TELECASH';
+  protected readonly paymentPath = '/merchant/collect';
+
+  protected statusPath(reference: string): string {
+    return `/merchant/collect/${encodeURIComponent(reference)}`;
+  }
+
+  webhookEventId(payload: Record<string, any>): string | undefined {
+    return payload.eventId;
+  }
+
+  protected toPaymentBody(
+    request: MobileMoneyPaymentRequest,
+    callbackUrl: string,
+  ): Record<string, any> {
+    return {
+      merchantId: this.merchantCode,
+      externalReference: request.transactionId,
+      customerNumber: request.phoneNumber,
+      amount: request.amount,
+      currency: request.currency,
+      description: request.description,
+      resultUrl: callbackUrl,
+    };
+  }
+
+  protected toResult(payload: Record<string, any>): ProviderPaymentResult {
+    const code = String(payload.resultCode ?? '');
+
+    return {
+      reference: payload.reference,
+      // 0 = paid, 1 = awaiting the customer, anything else failed
+      status:
+        code === '0'
+          ? 'completed'
+          : code === '1' || code === ''
+            ? 'pending'
+            : 'failed',
+      message: payload.resultDescription,
+    };
+  }
+}
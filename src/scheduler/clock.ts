@@ -0,0 +1,16 @@
+import { Injectable } from '@nestjs/common';
+
+// Injection token for the clock the scheduler runs on. Production uses the
+// system clock; tests provide their own so they can move time forward.
+export const CLOCK = 'SCHEDULER_CLOCK';
+
+export interface Clock {
+  now(): Date;
+}
+
+@Injectable()
+export class SystemClock implements Clock {
+  now(): Date {
+    return new Date();
+  }
+}
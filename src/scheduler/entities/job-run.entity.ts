@@ -0,0 +1,58 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class JobRun {
+  @ApiProperty({
+    description: 'Run ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Job name',
+    example: 'auctions.end-expired',
+  })
+  job_name: string;
+
+  @ApiProperty({
+    description: 'Instance that ran the job',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  instance_id: string;
+
+  @ApiProperty({
+    description: 'Run status',
+    enum: ['succeeded', 'failed'],
+    example: 'succeeded',
+  })
+  status: string;
+
+  @ApiPropertyOptional({
+    description: 'Summary returned by the job',
+    example: { ended: 3 },
+  })
+  result?: Record<string, any>;
+
+  @ApiPropertyOptional({
+    description: 'Error message if the run failed',
+    example: 'Failed to fetch auctions',
+  })
+  error?: string;
+
+  @ApiProperty({
+    description: 'Start time',
+    example: '2024-01-01T00:00:00.000Z',
+  })
+  started_at: string;
+
+  @ApiProperty({
+    description: 'Finish time',
+    example: '2024-01-01T00:00:01.250Z',
+  })
+  finished_at: string;
+
+  @ApiProperty({
+    description: 'Duration in milliseconds',
+    example: 1250,
+  })
+  duration_ms: number;
+}
@@ -0,0 +1,85 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  UseGuards,
+  DefaultValuePipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { SchedulerService } from './scheduler.service';
+import { JobRun } from './entities/job-run.entity';
+import { SupabaseGuard } from '../auth/supabase.guard';
+import { AdminGuard } from '../auth/admin.guard';
+
+@ApiTags('scheduler')
+@Controller('scheduler')
+@UseGuards(SupabaseGuard, AdminGuard)
+@ApiBearerAuth('JWT-auth')
+export class SchedulerController {
+  constructor(private readonly schedulerService: SchedulerService) {}
+
+  @Get('jobs')
+  @ApiOperation({ summary: 'List scheduled jobs (admin only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Registered jobs and their next run',
+  })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  getJobs() {
+    return this.schedulerService.getJobs();
+  }
+
+  @Get('runs')
+  @ApiOperation({ summary: 'Get job run history (admin only)' })
+  @ApiQuery({
+    name: 'job',
+    required: false,
+    description: 'Filter by job name',
+    example: 'auctions.end-expired',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description: 'Maximum runs to return',
+    example: 50,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Most recent runs first',
+    type: [JobRun],
+  })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async getRuns(
+    @Query('job') job?: string,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number = 50,
+  ): Promise<JobRun[]> {
+    return this.schedulerService.getJobRuns(job, limit);
+  }
+
+  @Post('jobs/:name/run')
+  @ApiOperation({ summary: 'Run a job now (admin only)' })
+  @ApiParam({
+    name: 'name',
+    description: 'Job name',
+    example: 'auctions.end-expired',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Run result, or null if another instance holds the lock',
+    type: JobRun,
+  })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  async runJob(@Param('name') name: string): Promise<JobRun | null> {
+    return this.schedulerService.runNow(name);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { SchedulerService } from './scheduler.service';
+import { SchedulerController } from './scheduler.controller';
+import { CLOCK, SystemClock } from './clock';
+
+@Module({
+  imports: [SupabaseModule],
+  providers: [SchedulerService, { provide: CLOCK, useClass: SystemClock }],
+  controllers: [SchedulerController],
+  exports: [SchedulerService, CLOCK],
+})
+export class SchedulerModule {}
@@ -0,0 +1,110 @@
+import { ConfigService } from '@nestjs/config';
+import { SupabaseService } from '../supabase/supabase.service';
+import { Clock } from './clock';
+import { SchedulerService } from './scheduler.service';
+
+class FakeClock implements Clock {
+  private time = new Date('2024-01-01T00:00:00.000Z').getTime();
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  advance(ms: number) {
+    this.time += ms;
+  }
+}
+
+// Minimal chainable stand-in for the Supabase query builder
+function createSupabaseMock(lockAvailable: () => boolean) {
+  const inserts: Record<string, any[]> = {};
+
+  const from = (table: string) => {
+    const builder: any = {
+      update: () => builder,
+      eq: () => builder,
+      or: () => builder,
+      select: () => builder,
+      maybeSingle: () =>
+        Promise.resolve({
+          data: lockAvailable() ? { job_name: 'x' } : null,
+          error: null,
+        }),
+      insert: (row: any) => {
+        (inserts[table] ||= []).push(row);
+        const error =
+          table === 'scheduler_locks' && !lockAvailable()
+            ? { message: 'duplicate key' }
+            : null;
+        return Promise.resolve({ data: null, error });
+      },
+    };
+    return builder;
+  };
+
+  return { client: { from }, inserts };
+}
+
+describe('SchedulerService', () => {
+  let clock: FakeClock;
+  let lockAvailable: boolean;
+  let supabase: ReturnType<typeof createSupabaseMock>;
+  let scheduler: SchedulerService;
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    lockAvailable = true;
+    supabase = createSupabaseMock(() => lockAvailable);
+    scheduler = new SchedulerService(
+      { getClient: () => supabase.client } as unknown as SupabaseService,
+      { get: () => undefined } as unknown as ConfigService,
+      clock,
+    );
+  });
+
+  it('runs a job on the first tick and again once its interval has passed', async () => {
+    const handler = jest.fn().mockResolvedValue({ ended: 1 });
+    scheduler.register({ name: 'job', intervalMs: 60000, handler });
+
+    await scheduler.tick();
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(clock.now());
+
+    clock.advance(30000);
+    await scheduler.tick();
+    expect(handler).toHaveBeenCalledTimes(1);
+
+    clock.advance(30000);
+    await scheduler.tick();
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(supabase.inserts['scheduler_job_runs']).toHaveLength(2);
+  });
+
+  it('skips the run when another instance holds the lock', async () => {
+    const handler = jest.fn();
+    scheduler.register({ name: 'job', intervalMs: 60000, handler });
+    lockAvailable = false;
+
+    await scheduler.tick();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(supabase.inserts['scheduler_job_runs']).toBeUndefined();
+  });
+
+  it('records failed runs with the error message', async () => {
+    scheduler.register({
+      name: 'job',
+      intervalMs: 60000,
+      handler: () => Promise.reject(new Error('boom')),
+    });
+
+    const run = await scheduler.runNow('job');
+
+    expect(run).toMatchObject({
+      job_name: 'job',
+      status: 'failed',
+      error: 'boom',
+    });
+    expect(supabase.inserts['scheduler_job_runs']).toEqual([run]);
+  });
+});
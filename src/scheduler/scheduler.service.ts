@@ -0,0 +1,231 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { v4 as uuidv4 } from 'uuid';
+import { SupabaseService } from '../supabase/supabase.service';
+import { CLOCK } from './clock';
+import type { Clock } from './clock';
+import { JobRun } from './entities/job-run.entity';
+
+export interface ScheduledJob {
+  // Unique name, also used as the lock key shared by all instances
+  name: string;
+  intervalMs: number;
+  // Receives the scheduler's clock time; may return a summary for run history
+  handler: (now: Date) => Promise<Record<string, any> | void>;
+}
+
+interface RegisteredJob extends ScheduledJob {
+  nextRunAt: number;
+  running: boolean;
+}
+
+@Injectable()
+export class SchedulerService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly logger = new Logger(SchedulerService.name);
+  private readonly jobs = new Map<string, RegisteredJob>();
+  private readonly instanceId = uuidv4();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly configService: ConfigService,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {}
+
+  onApplicationBootstrap() {
+    const enabled = this.configService.get('SCHEDULER_ENABLED') ?? true;
+    if (enabled === false || enabled === 'false') {
+      this.logger.log('Scheduler disabled (SCHEDULER_ENABLED=false)');
+      return;
+    }
+
+    const tickMs = Number(this.configService.get('SCHEDULER_TICK_MS') || 5000);
+    this.timer = setInterval(() => void this.tick(), tickMs);
+    this.logger.log(
+      `Scheduler started with ${this.jobs.size} job(s), instance ${this.instanceId}`,
+    );
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  register(job: ScheduledJob): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Scheduled job "${job.name}" is already registered`);
+    }
+
+    // First run happens on the first tick
+    this.jobs.set(job.name, {
+      ...job,
+      nextRunAt: this.clock.now().getTime(),
+      running: false,
+    });
+  }
+
+  getJobs(): { name: string; interval_ms: number; next_run_at: string }[] {
+    return [...this.jobs.values()].map((job) => ({
+      name: job.name,
+      interval_ms: job.intervalMs,
+      next_run_at: new Date(job.nextRunAt).toISOString(),
+    }));
+  }
+
+  // Runs every job that is due at the current clock time. Called on an
+  // interval in production; tests call it directly after moving the clock.
+  async tick(): Promise<void> {
+    const now = this.clock.now().getTime();
+
+    for (const job of this.jobs.values()) {
+      if (job.running || job.nextRunAt > now) {
+        continue;
+      }
+
+      job.nextRunAt = now + job.intervalMs;
+      await this.runJob(job);
+    }
+  }
+
+  // Run a job immediately, regardless of its schedule (still takes the lock)
+  async runNow(name: string): Promise<JobRun | null> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new NotFoundException(`Scheduled job "${name}" not found`);
+    }
+
+    if (job.running) {
+      throw new BadRequestException(`Job "${name}" is already running`);
+    }
+
+    return this.runJob(job);
+  }
+
+  async getJobRuns(jobName?: string, limit: number = 50): Promise<JobRun[]> {
+    const supabase = this.supabaseService.getClient();
+
+    let query = supabase
+      .from('scheduler_job_runs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (jobName) {
+      query = query.eq('job_name', jobName);
+    }
+
+    const { data: runs, error } = await query;
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch job runs: ${error.message}`,
+      );
+    }
+
+    return runs || [];
+  }
+
+  private async runJob(job: RegisteredJob): Promise<JobRun | null> {
+    const startedAt = this.clock.now();
+
+    // Only the instance holding the lock runs the job this interval
+    if (!(await this.acquireLock(job, startedAt))) {
+      return null;
+    }
+
+    job.running = true;
+    let status = 'succeeded';
+    let result: Record<string, any> | null = null;
+    let errorMessage: string | null = null;
+
+    try {
+      result = (await job.handler(startedAt)) || null;
+    } catch (error) {
+      status = 'failed';
+      errorMessage = error?.message || String(error);
+      this.logger.error(`Job ${job.name} failed: ${errorMessage}`);
+    } finally {
+      job.running = false;
+    }
+
+    const finishedAt = this.clock.now();
+
+    return this.recordRun({
+      id: uuidv4(),
+      job_name: job.name,
+      instance_id: this.instanceId,
+      status,
+      result: result ?? undefined,
+      error: errorMessage ?? undefined,
+      started_at: startedAt.toISOString(),
+      finished_at: finishedAt.toISOString(),
+      duration_ms: finishedAt.getTime() - startedAt.getTime(),
+    });
+  }
+
+  // The lock row is held for a whole interval (not just the run), so across
+  // all instances a job runs at most once per interval.
+  private async acquireLock(job: RegisteredJob, now: Date): Promise<boolean> {
+    const supabase = this.supabaseService.getClient();
+    const nowIso = now.toISOString();
+    const lockedUntil = new Date(now.getTime() + job.intervalMs).toISOString();
+
+    // Take over an expired lock, or renew one we already hold
+    const { data: taken, error: takeError } = await supabase
+      .from('scheduler_locks')
+      .update({ locked_by: this.instanceId, locked_until: lockedUntil })
+      .eq('job_name', job.name)
+      .or(`locked_until.lte.${nowIso},locked_by.eq.${this.instanceId}`)
+      .select()
+      .maybeSingle();
+
+    if (takeError) {
+      this.logger.warn(
+        `Could not take lock for ${job.name}: ${takeError.message}`,
+      );
+      return false;
+    }
+
+    if (taken) {
+      return true;
+    }
+
+    // First run ever: create the lock row. A unique violation means another
+    // instance holds it.
+    const { error: insertError } = await supabase
+      .from('scheduler_locks')
+      .insert({
+        job_name: job.name,
+        locked_by: this.instanceId,
+        locked_until: lockedUntil,
+      });
+
+    return !insertError;
+  }
+
+  private async recordRun(run: JobRun): Promise<JobRun> {
+    const supabase = this.supabaseService.getClient();
+
+    const { error } = await supabase.from('scheduler_job_runs').insert(run);
+
+    if (error) {
+      this.logger.warn(
+        `Failed to record run of ${run.job_name}: ${error.message}`,
+      );
+    }
+
+    return run;
+  }
+}
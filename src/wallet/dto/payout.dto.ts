@@ -0,0 +1,76 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { SUPPORTED_CURRENCIES } from '../../exchange-rates/exchange-rates.service';
+
+export class RequestPayoutDto {
+  @ApiProperty({ description: 'Amount to pay out', example: 150.0 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(1)
+  amount: number;
+
+  @ApiPropertyOptional({
+    description: 'Wallet currency to pay out from',
+    enum: SUPPORTED_CURRENCIES,
+    default: 'USD',
+  })
+  @IsOptional()
+  @IsIn(SUPPORTED_CURRENCIES)
+  currency?: string = 'USD';
+
+  @ApiProperty({
+    description: 'How to pay the seller',
+    enum: ['mobile_money', 'bank_transfer'],
+  })
+  @IsEnum(['mobile_money', 'bank_transfer'])
+  method: 'mobile_money' | 'bank_transfer';
+
+  @ApiPropertyOptional({
+    description: 'Mobile money network (mobile_money payouts)',
+    enum: ['ecocash', 'onemoney', 'telecash'],
+  })
+  @ValidateIf((o) => o.method === 'mobile_money')
+  @IsEnum(['ecocash', 'onemoney', 'telecash'])
+  provider?: string;
+
+  @ApiPropertyOptional({
+    description: 'Mobile number to pay (mobile_money payouts)',
+    example: '0771234567',
+  })
+  @ValidateIf((o) => o.method === 'mobile_money')
+  @IsString()
+  @Matches(/^(077|078|071|073)[0-9]{7}$/, {
+    message:
+      'Please enter a valid Zimbabwean mobile number (077, 078, 071, or 073)',
+  })
+  phone_number?: string;
+}
+
+export class ApprovePayoutDto {
+  @ApiProperty({
+    description: 'Reference of the payment made to the seller',
+    example: 'MP240110.1234.A00001',
+  })
+  @IsString()
+  @MaxLength(200)
+  payment_reference: string;
+}
+
+export class RejectPayoutDto {
+  @ApiProperty({
+    description: 'Why the payout is rejected',
+    example: 'Bank details could not be verified',
+  })
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
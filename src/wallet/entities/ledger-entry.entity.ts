@@ -0,0 +1,103 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+// Accounts money moves between. Amounts owed to a seller sit in their
+// seller_wallet until paid out; payouts_pending holds requested payouts.
+export type LedgerAccount =
+  | 'cash'
+  | 'escrow'
+  | 'seller_wallet'
+  | 'payouts_pending'
+  | 'platform_fees'
+  | 'opening_balance';
+
+export type LedgerEntryType =
+  | 'payment'
+  | 'sale'
+  | 'fee'
+  | 'refund'
+  | 'payout'
+  | 'payout_reversal'
+  | 'opening_balance';
+
+// One line of a balanced journal: every journal's debits equal its credits
+export class LedgerEntry {
+  @ApiProperty({
+    description: 'Entry ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Journal the entry belongs to; its lines balance',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  journal_id: string;
+
+  @ApiProperty({
+    description: 'Account',
+    enum: [
+      'cash',
+      'escrow',
+      'seller_wallet',
+      'payouts_pending',
+      'platform_fees',
+      'opening_balance',
+    ],
+    example: 'seller_wallet',
+  })
+  account: LedgerAccount;
+
+  @ApiPropertyOptional({
+    description: 'Owner of a per-user account (seller_wallet, payouts_pending)',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  user_id?: string | null;
+
+  @ApiProperty({ description: 'Currency', example: 'USD' })
+  currency: string;
+
+  @ApiProperty({ description: 'Debit amount', example: 0 })
+  debit: number;
+
+  @ApiProperty({ description: 'Credit amount', example: 95.0 })
+  credit: number;
+
+  @ApiProperty({
+    description: 'What caused the entry',
+    enum: [
+      'payment',
+      'sale',
+      'fee',
+      'refund',
+      'payout',
+      'payout_reversal',
+      'opening_balance',
+    ],
+    example: 'sale',
+  })
+  entry_type: LedgerEntryType;
+
+  @ApiPropertyOptional({
+    description: 'Kind of record the entry refers to',
+    example: 'order',
+  })
+  reference_type?: string;
+
+  @ApiPropertyOptional({
+    description: 'ID of the record the entry refers to',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  reference_id?: string;
+
+  @ApiPropertyOptional({
+    description: 'Description shown on the statement',
+    example: 'Sale of order 123e4567',
+  })
+  description?: string;
+
+  @ApiProperty({
+    description: 'When the entry was posted',
+    example: '2024-01-10T00:00:00.000Z',
+  })
+  created_at: string;
+}
@@ -0,0 +1,74 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+// A seller's request to be paid their wallet balance. The amount is reserved
+// when requested and leaves the ledger once an admin marks it paid.
+export class Payout {
+  @ApiProperty({
+    description: 'Payout ID',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'Seller being paid',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  seller_id: string;
+
+  @ApiProperty({ description: 'Amount', example: 150.0 })
+  amount: number;
+
+  @ApiProperty({ description: 'Currency', example: 'USD' })
+  currency: string;
+
+  @ApiProperty({
+    description: 'How the seller is paid',
+    enum: ['mobile_money', 'bank_transfer'],
+    example: 'mobile_money',
+  })
+  method: string;
+
+  @ApiProperty({
+    description:
+      'Where the money goes: provider and phone_number, or the bank details',
+    example: { provider: 'ecocash', phone_number: '0771234567' },
+  })
+  destination: Record<string, any>;
+
+  @ApiProperty({
+    description: 'Payout status',
+    enum: ['pending', 'paid', 'rejected'],
+    example: 'pending',
+  })
+  status: string;
+
+  @ApiPropertyOptional({
+    description: 'Provider or bank reference of the payment to the seller',
+    example: 'MP240110.1234.A00001',
+  })
+  payment_reference?: string;
+
+  @ApiPropertyOptional({
+    description: 'Why the payout was rejected',
+    example: 'Bank details could not be verified',
+  })
+  rejection_reason?: string;
+
+  @ApiPropertyOptional({
+    description: 'Admin who approved or rejected the payout',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  reviewed_by?: string;
+
+  @ApiPropertyOptional({
+    description: 'When the payout was approved or rejected',
+    example: '2024-01-11T00:00:00.000Z',
+  })
+  reviewed_at?: string;
+
+  @ApiProperty({
+    description: 'When the payout was requested',
+    example: '2024-01-10T00:00:00.000Z',
+  })
+  created_at: string;
+}
@@ -0,0 +1,115 @@
+import { BadRequestException } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { LedgerService } from './ledger.service';
+
+// In-memory seller_balances and ledger_entries behind a chainable builder
+function createSupabaseMock() {
+  const tables: Record<string, any[]> = {
+    seller_balances: [],
+    ledger_entries: [],
+  };
+
+  const from = (table: string) => {
+    const rows = tables[table];
+    const filters: ((row: any) => boolean)[] = [];
+    let patch: Record<string, any> | null = null;
+    let inserted: any[] | null = null;
+
+    const run = () => {
+      if (inserted) return inserted;
+      const matched = rows.filter((row) => filters.every((f) => f(row)));
+      if (patch) matched.forEach((row) => Object.assign(row, patch));
+      return matched;
+    };
+
+    const builder: any = {
+      select: () => builder,
+      update: (values: Record<string, any>) => {
+        patch = values;
+        return builder;
+      },
+      insert: (values: any) => {
+        inserted = Array.isArray(values) ? values : [values];
+        rows.push(...inserted);
+        return builder;
+      },
+      eq: (column: string, value: any) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      maybeSingle: () =>
+        Promise.resolve({ data: run()[0] ?? null, error: null }),
+      then: (resolve: any, reject: any) =>
+        Promise.resolve({ data: run(), error: null }).then(resolve, reject),
+    };
+    return builder;
+  };
+
+  return { client: { from }, tables };
+}
+
+describe('LedgerService', () => {
+  let supabase: ReturnType<typeof createSupabaseMock>;
+  let ledger: LedgerService;
+
+  beforeEach(() => {
+    supabase = createSupabaseMock();
+    ledger = new LedgerService({
+      getClient: () => supabase.client,
+    } as unknown as SupabaseService);
+  });
+
+  const sale = (amount: number) =>
+    ledger.post({
+      entry_type: 'sale',
+      currency: 'USD',
+      lines: [
+        { account: 'escrow', debit: amount },
+        { account: 'seller_wallet', user_id: 'seller-1', credit: amount },
+      ],
+    });
+
+  it('writes balanced journals and keeps the wallet balance in step', async () => {
+    await sale(100);
+
+    const entries = supabase.tables.ledger_entries;
+    expect(entries).toHaveLength(2);
+    expect(new Set(entries.map((e) => e.journal_id)).size).toBe(1);
+    expect(supabase.tables.seller_balances).toEqual([
+      expect.objectContaining({ seller_id: 'seller-1', available_amount: 100 }),
+    ]);
+  });
+
+  it('rejects a journal whose debits and credits differ', async () => {
+    await expect(
+      ledger.post({
+        entry_type: 'fee',
+        currency: 'USD',
+        lines: [
+          { account: 'seller_wallet', user_id: 'seller-1', debit: 5 },
+          { account: 'platform_fees', credit: 4 },
+        ],
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(supabase.tables.ledger_entries).toHaveLength(0);
+  });
+
+  it('refuses a payout larger than the wallet balance', async () => {
+    await sale(50);
+
+    await expect(
+      ledger.post({
+        entry_type: 'payout',
+        currency: 'USD',
+        requireFunds: true,
+        lines: [
+          { account: 'seller_wallet', user_id: 'seller-1', debit: 80 },
+          { account: 'payouts_pending', user_id: 'seller-1', credit: 80 },
+        ],
+      }),
+    ).rejects.toThrow('Insufficient wallet balance');
+
+    expect(supabase.tables.ledger_entries).toHaveLength(2);
+    expect(supabase.tables.seller_balances[0].available_amount).toBe(50);
+  });
+});
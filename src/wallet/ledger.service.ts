@@ -0,0 +1,259 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+} from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { SupabaseService } from '../supabase/supabase.service';
+import {
+  LedgerAccount,
+  LedgerEntry,
+  LedgerEntryType,
+} from './entities/ledger-entry.entity';
+
+export interface LedgerLine {
+  account: LedgerAccount;
+  user_id?: string | null;
+  debit?: number;
+  credit?: number;
+}
+
+export interface Journal {
+  entry_type: LedgerEntryType;
+  currency: string;
+  reference_type?: string;
+  reference_id?: string;
+  description?: string;
+  lines: LedgerLine[];
+  // Reject the journal if it would take a seller wallet below zero (payouts)
+  requireFunds?: boolean;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Double-entry ledger. Every money movement is posted as a balanced journal;
+// seller_balances keeps each wallet's running balance so that it can be
+// checked and updated with a compare-and-set before the entries are written.
+@Injectable()
+export class LedgerService {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async post(journal: Journal): Promise<LedgerEntry[]> {
+    const lines = journal.lines
+      .map((line) => ({
+        ...line,
+        debit: round(line.debit || 0),
+        credit: round(line.credit || 0),
+      }))
+      .filter((line) => line.debit > 0 || line.credit > 0);
+
+    const debits = round(lines.reduce((sum, line) => sum + line.debit, 0));
+    const credits = round(lines.reduce((sum, line) => sum + line.credit, 0));
+    if (lines.length === 0 || debits !== credits) {
+      throw new BadRequestException(
+        `Unbalanced journal: debits ${debits}, credits ${credits}`,
+      );
+    }
+
+    // Wallet changes go first so a payout can never overdraw
+    const walletChanges = new Map<string, number>();
+    for (const line of lines) {
+      if (line.account === 'seller_wallet' && line.user_id) {
+        walletChanges.set(
+          line.user_id,
+          round(
+            (walletChanges.get(line.user_id) || 0) + line.credit - line.debit,
+          ),
+        );
+      }
+    }
+
+    const applied: [string, number][] = [];
+    try {
+      for (const [userId, change] of walletChanges) {
+        await this.adjustWalletBalance(
+          userId,
+          journal.currency,
+          change,
+          !!journal.requireFunds,
+        );
+        applied.push([userId, change]);
+      }
+    } catch (error) {
+      await this.revertWalletChanges(applied, journal.currency);
+      throw error;
+    }
+
+    const journalId = uuidv4();
+    const now = new Date().toISOString();
+
+    const { data: entries, error } = await this.supabaseService
+      .getClient()
+      .from('ledger_entries')
+      .insert(
+        lines.map((line) => ({
+          journal_id: journalId,
+          account: line.account,
+          user_id: line.user_id ?? null,
+          currency: journal.currency,
+          debit: line.debit,
+          credit: line.credit,
+          entry_type: journal.entry_type,
+          reference_type: journal.reference_type,
+          reference_id: journal.reference_id,
+          description: journal.description,
+          created_at: now,
+        })),
+      )
+      .select();
+
+    if (error) {
+      await this.revertWalletChanges(applied, journal.currency);
+      throw new BadRequestException(
+        `Failed to post ledger entries: ${error.message}`,
+      );
+    }
+
+    return entries || [];
+  }
+
+  async getWalletBalances(
+    userId: string,
+  ): Promise<{ currency: string; available_amount: number }[]> {
+    const { data: balances, error } = await this.supabaseService
+      .getClient()
+      .from('seller_balances')
+      .select('currency, available_amount')
+      .eq('seller_id', userId);
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch wallet balance: ${error.message}`,
+      );
+    }
+
+    return balances || [];
+  }
+
+  // Entries of a user's wallet, newest first
+  async getStatement(
+    userId: string,
+    options: { currency?: string; limit?: number; offset?: number } = {},
+  ): Promise<LedgerEntry[]> {
+    const { limit = 50, offset = 0 } = options;
+
+    let query = this.supabaseService
+      .getClient()
+      .from('ledger_entries')
+      .select('*')
+      .eq('account', 'seller_wallet')
+      .eq('user_id', userId);
+
+    if (options.currency) {
+      query = query.eq('currency', options.currency);
+    }
+
+    const { data: entries, error } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch wallet statement: ${error.message}`,
+      );
+    }
+
+    return entries || [];
+  }
+
+  // Net earnings from sales (sales less fees and refunds) per currency
+  async getSellerRevenue(userId: string): Promise<Record<string, number>> {
+    const { data: entries, error } = await this.supabaseService
+      .getClient()
+      .from('ledger_entries')
+      .select('currency, debit, credit')
+      .eq('account', 'seller_wallet')
+      .eq('user_id', userId)
+      .in('entry_type', ['sale', 'fee', 'refund']);
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch seller revenue: ${error.message}`,
+      );
+    }
+
+    const revenue: Record<string, number> = {};
+    for (const entry of entries || []) {
+      revenue[entry.currency] = round(
+        (revenue[entry.currency] || 0) + entry.credit - entry.debit,
+      );
+    }
+    return revenue;
+  }
+
+  private async adjustWalletBalance(
+    userId: string,
+    currency: string,
+    change: number,
+    requireFunds: boolean,
+  ): Promise<void> {
+    const supabase = this.supabaseService.getClient();
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const { data: balance } = await supabase
+        .from('seller_balances')
+        .select('available_amount')
+        .eq('seller_id', userId)
+        .eq('currency', currency)
+        .maybeSingle();
+
+      const current = balance ? Number(balance.available_amount) : 0;
+      const next = round(current + change);
+
+      if (requireFunds && next < 0) {
+        throw new BadRequestException(
+          `Insufficient wallet balance: ${current} ${currency} available`,
+        );
+      }
+
+      if (!balance) {
+        const { error } = await supabase.from('seller_balances').insert({
+          seller_id: userId,
+          currency,
+          available_amount: next,
+          updated_at: new Date().toISOString(),
+        });
+
+        if (!error) return;
+        continue;
+      }
+
+      const { data: updated } = await supabase
+        .from('seller_balances')
+        .update({
+          available_amount: next,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('seller_id', userId)
+        .eq('currency', currency)
+        .eq('available_amount', balance.available_amount)
+        .select('seller_id')
+        .maybeSingle();
+
+      if (updated) return;
+    }
+
+    throw new ConflictException(
+      'Wallet balance changed during the update, please try again',
+    );
+  }
+
+  private async revertWalletChanges(
+    applied: [string, number][],
+    currency: string,
+  ): Promise<void> {
+    for (const [userId, change] of applied) {
+      await this.adjustWalletBalance(userId, currency, -change, false);
+    }
+  }
+}
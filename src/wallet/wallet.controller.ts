@@ -0,0 +1,116 @@
+import {
+  Body,
+  Controller,
+  DefaultValuePipe,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { WalletService } from './wallet.service';
+import { Payout } from './entities/payout.entity';
+import {
+  ApprovePayoutDto,
+  RejectPayoutDto,
+  RequestPayoutDto,
+} from './dto/payout.dto';
+import { SupabaseGuard } from '../auth/supabase.guard';
+import { AdminGuard } from '../auth/admin.guard';
+import { User } from '../common/decorators/user.decorator';
+
+@ApiTags('wallet')
+@Controller('wallet')
+@UseGuards(SupabaseGuard)
+@ApiBearerAuth('JWT-auth')
+export class WalletController {
+  constructor(private readonly walletService: WalletService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get my wallet balances and statement' })
+  @ApiQuery({ name: 'currency', required: false, example: 'USD' })
+  @ApiQuery({ name: 'limit', required: false, example: 50 })
+  @ApiQuery({ name: 'offset', required: false, example: 0 })
+  @ApiResponse({
+    status: 200,
+    description: 'Balances per currency and statement entries, newest first',
+  })
+  async getWallet(
+    @User() user: any,
+    @Query('currency') currency?: string,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number = 50,
+    @Query('offset', new DefaultValuePipe(0), ParseIntPipe) offset: number = 0,
+  ) {
+    return this.walletService.getWallet(user.id, { currency, limit, offset });
+  }
+
+  @Post('payouts')
+  @ApiOperation({ summary: 'Request a payout of my wallet balance' })
+  @ApiResponse({ status: 201, type: Payout })
+  @ApiResponse({ status: 400, description: 'Insufficient wallet balance' })
+  async requestPayout(
+    @User() user: any,
+    @Body() payoutData: RequestPayoutDto,
+  ): Promise<Payout> {
+    return this.walletService.requestPayout(user.id, payoutData);
+  }
+
+  @Get('payouts')
+  @ApiOperation({ summary: 'Get my payouts' })
+  @ApiResponse({ status: 200, type: [Payout] })
+  async getPayouts(@User() user: any): Promise<Payout[]> {
+    return this.walletService.getPayouts(user.id);
+  }
+
+  @Get('payouts/pending')
+  @UseGuards(AdminGuard)
+  @ApiOperation({ summary: 'Get payouts waiting for approval (admin only)' })
+  @ApiResponse({ status: 200, description: 'Oldest first', type: [Payout] })
+  @ApiResponse({ status: 403, description: 'Admin access required' })
+  async getPendingPayouts(): Promise<Payout[]> {
+    return this.walletService.getPendingPayouts();
+  }
+
+  @Put('payouts/:id/approve')
+  @UseGuards(AdminGuard)
+  @ApiOperation({
+    summary: 'Mark a payout as paid to the seller (admin only)',
+  })
+  @ApiResponse({ status: 200, type: Payout })
+  @ApiResponse({ status: 409, description: 'Payout already reviewed' })
+  async approvePayout(
+    @Param('id') id: string,
+    @Body() approveData: ApprovePayoutDto,
+    @User() user: any,
+  ): Promise<Payout> {
+    return this.walletService.approvePayout(
+      id,
+      user.id,
+      approveData.payment_reference,
+    );
+  }
+
+  @Put('payouts/:id/reject')
+  @UseGuards(AdminGuard)
+  @ApiOperation({
+    summary: 'Reject a payout and return the amount to the wallet (admin only)',
+  })
+  @ApiResponse({ status: 200, type: Payout })
+  @ApiResponse({ status: 409, description: 'Payout already reviewed' })
+  async rejectPayout(
+    @Param('id') id: string,
+    @Body() rejectData: RejectPayoutDto,
+    @User() user: any,
+  ): Promise<Payout> {
+    return this.walletService.rejectPayout(id, user.id, rejectData.reason);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { LedgerService } from './ledger.service';
+import { WalletService } from './wallet.service';
+import { WalletController } from './wallet.controller';
+
+@Module({
+  imports: [SupabaseModule],
+  providers: [LedgerService, WalletService],
+  controllers: [WalletController],
+  exports: [LedgerService],
+})
+export class WalletModule {}
@@ -0,0 +1,282 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { LedgerService } from './ledger.service';
+import { LedgerEntry } from './entities/ledger-entry.entity';
+import { Payout } from './entities/payout.entity';
+import { RequestPayoutDto } from './dto/payout.dto';
+import { ACTIVE_DISPUTE_STATUSES } from '../disputes/entities/dispute.entity';
+
+export interface WalletBalance {
+  currency: string;
+  // Can be paid out now
+  available_amount: number;
+  // Requested and waiting for admin approval
+  pending_payouts: number;
+}
+
+@Injectable()
+export class WalletService {
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly ledgerService: LedgerService,
+  ) {}
+
+  async getWallet(
+    userId: string,
+    options: { currency?: string; limit?: number; offset?: number } = {},
+  ): Promise<{ balances: WalletBalance[]; statement: LedgerEntry[] }> {
+    const supabase = this.supabaseService.getClient();
+
+    const [balances, statement, { data: pending }] = await Promise.all([
+      this.ledgerService.getWalletBalances(userId),
+      this.ledgerService.getStatement(userId, options),
+      supabase
+        .from('payouts')
+        .select('amount, currency')
+        .eq('seller_id', userId)
+        .eq('status', 'pending'),
+    ]);
+
+    const currencies = new Set([
+      ...balances.map((b) => b.currency),
+      ...(pending || []).map((p) => p.currency),
+    ]);
+
+    return {
+      balances: [...currencies].map((currency) => ({
+        currency,
+        available_amount: Number(
+          balances.find((b) => b.currency === currency)?.available_amount || 0,
+        ),
+        pending_payouts: (pending || [])
+          .filter((p) => p.currency === currency)
+          .reduce((sum, p) => sum + Number(p.amount), 0),
+      })),
+      statement,
+    };
+  }
+
+  async requestPayout(
+    sellerId: string,
+    payoutData: RequestPayoutDto,
+  ): Promise<Payout> {
+    const supabase = this.supabaseService.getClient();
+    const currency = payoutData.currency || 'USD';
+
+    const { count: openDisputes } = await supabase
+      .from('disputes')
+      .select('id', { count: 'exact', head: true })
+      .eq('seller_id', sellerId)
+      .in('status', ACTIVE_DISPUTE_STATUSES);
+
+    if (openDisputes) {
+      throw new BadRequestException(
+        'Payouts are on hold while you have an open dispute',
+      );
+    }
+
+    let destination: Record<string, any>;
+    if (payoutData.method === 'mobile_money') {
+      destination = {
+        provider: payoutData.provider,
+        phone_number: payoutData.phone_number,
+      };
+    } else {
+      const { data: profile } = await supabase
+        .from('users')
+        .select('bank_details')
+        .eq('id', sellerId)
+        .single();
+
+      if (!profile?.bank_details) {
+        throw new BadRequestException(
+          'Add your bank details to your profile before requesting a bank payout',
+        );
+      }
+      destination = profile.bank_details;
+    }
+
+    const { data: payout, error } = await supabase
+      .from('payouts')
+      .insert({
+        seller_id: sellerId,
+        amount: payoutData.amount,
+        currency,
+        method: payoutData.method,
+        destination,
+        status: 'pending',
+        created_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to request payout: ${error.message}`,
+      );
+    }
+
+    // Reserve the amount; fails when the wallet doesn't cover it
+    try {
+      await this.ledgerService.post({
+        entry_type: 'payout',
+        currency,
+        reference_type: 'payout',
+        reference_id: payout.id,
+        description: 'Payout requested',
+        requireFunds: true,
+        lines: [
+          { account: 'seller_wallet', user_id: sellerId, debit: payout.amount },
+          {
+            account: 'payouts_pending',
+            user_id: sellerId,
+            credit: payout.amount,
+          },
+        ],
+      });
+    } catch (reserveError) {
+      await supabase.from('payouts').delete().eq('id', payout.id);
+      throw reserveError;
+    }
+
+    return payout;
+  }
+
+  async getPayouts(sellerId: string): Promise<Payout[]> {
+    const { data: payouts, error } = await this.supabaseService
+      .getClient()
+      .from('payouts')
+      .select('*')
+      .eq('seller_id', sellerId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch payouts: ${error.message}`,
+      );
+    }
+
+    return payouts || [];
+  }
+
+  async getPendingPayouts(): Promise<Payout[]> {
+    const { data: payouts, error } = await this.supabaseService
+      .getClient()
+      .from('payouts')
+      .select('*')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch payouts: ${error.message}`,
+      );
+    }
+
+    return payouts || [];
+  }
+
+  // The admin has sent the money; it leaves the platform's books
+  async approvePayout(
+    id: string,
+    adminId: string,
+    paymentReference: string,
+  ): Promise<Payout> {
+    const payout = await this.reviewPayout(id, adminId, {
+      status: 'paid',
+      payment_reference: paymentReference,
+    });
+
+    await this.ledgerService.post({
+      entry_type: 'payout',
+      currency: payout.currency,
+      reference_type: 'payout',
+      reference_id: payout.id,
+      description: `Payout paid (${paymentReference})`,
+      lines: [
+        {
+          account: 'payouts_pending',
+          user_id: payout.seller_id,
+          debit: payout.amount,
+        },
+        { account: 'cash', credit: payout.amount },
+      ],
+    });
+
+    return payout;
+  }
+
+  // The reserved amount goes back into the seller's wallet
+  async rejectPayout(
+    id: string,
+    adminId: string,
+    reason: string,
+  ): Promise<Payout> {
+    const payout = await this.reviewPayout(id, adminId, {
+      status: 'rejected',
+      rejection_reason: reason,
+    });
+
+    await this.ledgerService.post({
+      entry_type: 'payout_reversal',
+      currency: payout.currency,
+      reference_type: 'payout',
+      reference_id: payout.id,
+      description: `Payout rejected: ${reason}`,
+      lines: [
+        {
+          account: 'payouts_pending',
+          user_id: payout.seller_id,
+          debit: payout.amount,
+        },
+        {
+          account: 'seller_wallet',
+          user_id: payout.seller_id,
+          credit: payout.amount,
+        },
+      ],
+    });
+
+    return payout;
+  }
+
+  private async reviewPayout(
+    id: string,
+    adminId: string,
+    changes: Record<string, any>,
+  ): Promise<Payout> {
+    const supabase = this.supabaseService.getClient();
+
+    const { data: payout } = await supabase
+      .from('payouts')
+      .update({
+        ...changes,
+        reviewed_by: adminId,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (!payout) {
+      const { data: existing } = await supabase
+        .from('payouts')
+        .select('status')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (!existing) {
+        throw new NotFoundException('Payout not found');
+      }
+      throw new ConflictException(`Payout is already ${existing.status}`);
+    }
+
+    return payout;
+  }
+}
@@ -0,0 +1,25 @@
+-- Proxy (maximum) bidding: each bidder's hidden maximum per auction, and
+-- bids placed automatically on their behalf.
+
+begin;
+
+alter table bids
+  add column if not exists is_auto boolean not null default false,
+  add column if not exists max_bid_amount numeric,
+  add column if not exists status text not null default 'active';
+
+create table if not exists proxy_bids (
+  id uuid primary key default gen_random_uuid(),
+  auction_id uuid not null references auctions (id) on delete cascade,
+  bidder_id uuid not null references users (id),
+  max_amount numeric not null check (max_amount > 0),
+  currency text not null default 'USD',
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (auction_id, bidder_id)
+);
+
+create index if not exists proxy_bids_active_idx on proxy_bids (auction_id) where is_active;
+
+commit;
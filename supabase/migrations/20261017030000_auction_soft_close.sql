@@ -0,0 +1,15 @@
+-- Soft close: late bids push auction_end out, up to max_extensions times.
+
+begin;
+
+alter table auctions
+  add column if not exists soft_close_window_minutes integer not null default 2
+    check (soft_close_window_minutes >= 0),
+  add column if not exists soft_close_extension_minutes integer not null default 2
+    check (soft_close_extension_minutes >= 1),
+  add column if not exists max_extensions integer not null default 10
+    check (max_extensions >= 0),
+  add column if not exists extension_count integer not null default 0,
+  add column if not exists last_extended_at timestamptz;
+
+commit;
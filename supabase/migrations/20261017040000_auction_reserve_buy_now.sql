@@ -0,0 +1,30 @@
+-- Reserve prices, Buy-It-Now and second-chance offers to losing bidders.
+
+begin;
+
+alter table auctions
+  add column if not exists reserve_price numeric check (reserve_price >= 0),
+  add column if not exists reserve_met boolean not null default false,
+  add column if not exists buy_now_price numeric check (buy_now_price >= 0),
+  add column if not exists bought_now boolean not null default false;
+
+create table if not exists second_chance_offers (
+  id uuid primary key default gen_random_uuid(),
+  auction_id uuid not null references auctions (id) on delete cascade,
+  listing_id uuid not null references listings (id),
+  seller_id uuid not null references users (id),
+  bidder_id uuid not null references users (id),
+  amount numeric not null check (amount > 0),
+  currency text not null default 'USD',
+  status text not null default 'pending'
+    check (status in ('pending', 'accepted', 'declined', 'expired')),
+  expires_at timestamptz not null,
+  responded_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists second_chance_offers_auction_idx on second_chance_offers (auction_id);
+create index if not exists second_chance_offers_bidder_idx on second_chance_offers (bidder_id, status);
+
+commit;
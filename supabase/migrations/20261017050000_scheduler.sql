@@ -0,0 +1,35 @@
+-- Scheduled auction starts, ending-soon tracking, and the job scheduler's
+-- per-job locks and run history.
+
+begin;
+
+alter table auctions
+  add column if not exists start_time timestamptz,
+  add column if not exists ending_soon_notified_at timestamptz;
+
+create index if not exists auctions_status_end_idx on auctions (status, auction_end);
+create index if not exists auctions_status_start_idx on auctions (status, start_time);
+
+-- One row per job; an instance runs the job while it holds locked_until
+create table if not exists scheduler_locks (
+  job_name text primary key,
+  locked_by text not null,
+  locked_until timestamptz not null
+);
+
+create table if not exists scheduler_job_runs (
+  id uuid primary key default gen_random_uuid(),
+  job_name text not null,
+  instance_id text not null,
+  status text not null check (status in ('succeeded', 'failed')),
+  result jsonb,
+  error text,
+  started_at timestamptz not null,
+  finished_at timestamptz not null,
+  duration_ms integer not null
+);
+
+create index if not exists scheduler_job_runs_job_idx
+  on scheduler_job_runs (job_name, started_at desc);
+
+commit;
@@ -0,0 +1,90 @@
+-- Move bids placed through the old listings flow (POST /listings/:id/bid) onto
+-- the auctions model. Those rows were keyed by bids.listing_id / bids.amount
+-- and overwrote listings.price_amount instead of updating auctions.current_bid.
+
+begin;
+
+-- 1. Every auction listing gets an auctions row. Listings created before the
+--    auctions table only had listings.auction_end; the original starting price
+--    was overwritten by bids, so the lowest recorded bid (or the current price
+--    when there are none) is the best we have.
+insert into auctions (
+  id, listing_id, auction_end, starting_price, current_bid, bid_count,
+  soft_close_window_minutes, soft_close_extension_minutes, max_extensions,
+  extension_count, start_time, reserve_met, status, created_at, updated_at
+)
+select
+  gen_random_uuid(),
+  l.id,
+  l.auction_end,
+  coalesce((select min(b.amount) from bids b where b.listing_id = l.id), l.price_amount),
+  l.price_amount,
+  0,
+  2, 2, 10,
+  0,
+  l.created_at,
+  true,
+  case when l.auction_end < now() then 'ended' else 'active' end,
+  now(),
+  now()
+from listings l
+where l.listing_type = 'auction'
+  and l.auction_end is not null
+  and not exists (select 1 from auctions a where a.listing_id = l.id);
+
+-- 2. Re-key legacy bid rows onto their listing's auction.
+update bids b
+set
+  auction_id = a.id,
+  bid_amount = b.amount,
+  bid_currency = coalesce(b.bid_currency, 'USD'),
+  bid_time = coalesce(b.bid_time, b.created_at),
+  is_auto = coalesce(b.is_auto, false)
+from auctions a
+where a.listing_id = b.listing_id
+  and b.auction_id is null;
+
+-- 3. Recompute price, count and leader for auctions that received legacy bids.
+with ranked as (
+  select
+    b.id,
+    b.auction_id,
+    b.bidder_id,
+    b.bid_amount,
+    count(*) over (partition by b.auction_id) as bid_count,
+    row_number() over (
+      partition by b.auction_id
+      order by b.bid_amount desc, b.bid_time asc
+    ) as position
+  from bids b
+  where b.auction_id in (
+    select distinct auction_id from bids where listing_id is not null
+  )
+)
+update auctions a
+set
+  current_bid = r.bid_amount,
+  bid_count = r.bid_count,
+  winning_bidder_id = r.bidder_id,
+  reserve_met = a.reserve_price is null or r.bid_amount >= a.reserve_price,
+  updated_at = now()
+from ranked r
+where r.auction_id = a.id
+  and r.position = 1;
+
+update bids b
+set is_winning = (b.bidder_id = a.winning_bidder_id and b.bid_amount = a.current_bid)
+from auctions a
+where a.id = b.auction_id
+  and a.id in (select distinct auction_id from bids where listing_id is not null);
+
+-- 4. listings.price_amount goes back to the asking price; the live price is
+--    auctions.current_bid.
+update listings l
+set price_amount = a.starting_price, updated_at = now()
+from auctions a
+where a.listing_id = l.id
+  and l.listing_type = 'auction'
+  and l.price_amount <> a.starting_price;
+
+commit;
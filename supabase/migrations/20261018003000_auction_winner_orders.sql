@@ -0,0 +1,15 @@
+-- Winner orders: the order created for an auction's winner, the deadline to
+-- pay it, and the bidders who let a win lapse.
+
+begin;
+
+alter table auctions
+  add column if not exists winner_order_id uuid references orders (id),
+  add column if not exists defaulted_bidder_ids uuid[] not null default '{}';
+
+alter table orders add column if not exists payment_due_at timestamptz;
+
+create index if not exists orders_payment_due_idx
+  on orders (payment_due_at) where payment_due_at is not null;
+
+commit;
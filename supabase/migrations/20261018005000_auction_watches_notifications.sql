@@ -0,0 +1,27 @@
+-- Auction watch lists and in-app notifications.
+
+begin;
+
+create table if not exists auction_watches (
+  auction_id uuid not null references auctions (id) on delete cascade,
+  user_id uuid not null references users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (auction_id, user_id)
+);
+
+create index if not exists auction_watches_user_idx on auction_watches (user_id, created_at desc);
+
+create table if not exists notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users (id) on delete cascade,
+  type text not null,
+  title text not null,
+  message text not null,
+  data jsonb not null default '{}',
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_user_idx on notifications (user_id, created_at desc);
+
+commit;
@@ -0,0 +1,38 @@
+-- Bids can now be retracted by the bidder or cancelled by the seller. Removed
+-- bids stay in the table with their status; only 'active' bids count.
+
+begin;
+
+alter table bids add column if not exists status text;
+update bids set status = 'active' where status is null;
+alter table bids alter column status set default 'active';
+alter table bids alter column status set not null;
+
+create table if not exists bid_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  auction_id uuid not null references auctions (id),
+  bid_id uuid not null references bids (id),
+  action text not null check (action in ('retracted', 'cancelled')),
+  actor_id uuid not null,
+  reason text not null,
+  bid_amount numeric not null,
+  previous_current_bid numeric not null,
+  new_current_bid numeric,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists bid_audit_log_auction_id_idx on bid_audit_log (auction_id);
+
+-- The audit trail is append-only
+create or replace function bid_audit_log_immutable() returns trigger as $$
+begin
+  raise exception 'bid_audit_log is append-only';
+end;
+$$ language plpgsql;
+
+drop trigger if exists bid_audit_log_no_update on bid_audit_log;
+create trigger bid_audit_log_no_update
+  before update or delete on bid_audit_log
+  for each row execute function bid_audit_log_immutable();
+
+commit;
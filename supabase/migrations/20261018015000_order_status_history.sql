@@ -0,0 +1,19 @@
+-- Every order status change, who made it and why.
+
+begin;
+
+create table if not exists order_status_history (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references orders (id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  actor_id uuid references users (id),
+  actor_role text not null check (actor_role in ('buyer', 'seller', 'system')),
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists order_status_history_order_idx
+  on order_status_history (order_id, created_at);
+
+commit;
@@ -0,0 +1,15 @@
+-- Stock for fixed-price listings. Orders take units out of quantity_available
+-- and put them back when cancelled.
+
+begin;
+
+alter table listings add column if not exists quantity_available integer not null default 1
+  check (quantity_available >= 0);
+
+-- Sold listings have nothing left to sell
+update listings set quantity_available = 0 where status = 'sold';
+
+-- Units in each order; left empty on older orders, which reserved no stock
+alter table orders add column if not exists quantity integer check (quantity > 0);
+
+commit;
@@ -0,0 +1,42 @@
+-- Persistent cart, multi-item orders and payment intents for cart checkout
+
+begin;
+
+create table if not exists cart_items (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users (id) on delete cascade,
+  listing_id uuid not null references listings (id) on delete cascade,
+  quantity integer not null check (quantity > 0),
+  -- Price when the item was added; checkout compares it with the listing
+  unit_price numeric not null,
+  currency text not null default 'USD',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, listing_id)
+);
+
+create table if not exists order_items (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references orders (id) on delete cascade,
+  listing_id uuid not null references listings (id),
+  quantity integer not null check (quantity > 0),
+  unit_price numeric not null,
+  total_amount numeric not null
+);
+
+create index if not exists order_items_order_id_idx on order_items (order_id);
+
+create table if not exists payment_intents (
+  id uuid primary key default gen_random_uuid(),
+  buyer_id uuid not null references users (id),
+  order_ids uuid[] not null,
+  amount numeric not null,
+  currency text not null default 'USD',
+  status text not null default 'requires_payment',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table orders add column if not exists payment_intent_id uuid references payment_intents (id);
+
+commit;
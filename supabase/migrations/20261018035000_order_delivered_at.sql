@@ -0,0 +1,7 @@
+-- When the order reached the buyer; escrow is auto-released some days later.
+
+begin;
+
+alter table orders add column if not exists delivered_at timestamptz;
+
+commit;
@@ -0,0 +1,34 @@
+-- Escrow: payments are held until the buyer has the item, then released to
+-- the seller's balance or refunded to the buyer
+
+begin;
+
+alter table transactions
+  add column if not exists escrow_status text
+    check (escrow_status in ('held', 'released', 'refunded')),
+  add column if not exists held_at timestamptz,
+  add column if not exists released_at timestamptz,
+  add column if not exists refunded_at timestamptz;
+
+alter table orders
+  add column if not exists payment_status text not null default 'unpaid'
+    check (payment_status in ('unpaid', 'held', 'released', 'refunded')),
+  add column if not exists payment_released_at timestamptz;
+
+create index if not exists orders_escrow_release_idx
+  on orders (payment_status, delivered_at)
+  where status = 'delivered';
+
+create table if not exists seller_balances (
+  seller_id uuid not null references users (id) on delete cascade,
+  currency text not null default 'USD',
+  available_amount numeric not null default 0,
+  updated_at timestamptz not null default now(),
+  unique (seller_id, currency)
+);
+
+-- Payments completed before escrow existed are treated as already released
+update transactions set escrow_status = 'released', released_at = updated_at
+  where status = 'completed' and escrow_status is null;
+
+commit;
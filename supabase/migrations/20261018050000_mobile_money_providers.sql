@@ -0,0 +1,14 @@
+-- Mobile money payments settle asynchronously through the provider
+
+begin;
+
+alter table transactions
+  add column if not exists provider_reference text,
+  add column if not exists failure_reason text,
+  add column if not exists telecash_number text;
+
+create unique index if not exists transactions_provider_reference_idx
+  on transactions (payment_method, provider_reference)
+  where provider_reference is not null;
+
+commit;
@@ -0,0 +1,16 @@
+-- Provider webhook deliveries, kept to drop retries of events already applied
+
+begin;
+
+create table if not exists payment_webhook_events (
+  id uuid primary key default gen_random_uuid(),
+  provider text not null,
+  event_id text not null,
+  payload jsonb not null,
+  transaction_id uuid references transactions (id),
+  received_at timestamptz not null default now(),
+  processed_at timestamptz,
+  unique (provider, event_id)
+);
+
+commit;
@@ -0,0 +1,37 @@
+-- Full and partial refunds against captured transactions
+
+begin;
+
+alter table transactions
+  add column if not exists refunded_amount numeric not null default 0;
+
+alter table orders
+  add column if not exists refunded_amount numeric not null default 0;
+
+create table if not exists refunds (
+  id uuid primary key default gen_random_uuid(),
+  transaction_id uuid not null references transactions (id) on delete cascade,
+  order_id uuid not null references orders (id) on delete cascade,
+  amount numeric not null check (amount > 0),
+  currency text not null default 'USD',
+  reason text,
+  created_by uuid references users (id),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists refunds_transaction_id_idx on refunds (transaction_id);
+
+-- Escrow refunds made before this table existed
+insert into refunds (transaction_id, order_id, amount, currency, reason, created_at)
+  select id, order_id, amount, coalesce(currency, 'USD'), 'Order cancelled', refunded_at
+  from transactions
+  where escrow_status = 'refunded' and refunded_amount = 0;
+
+update transactions set refunded_amount = amount, status = 'refunded'
+  where escrow_status = 'refunded' and refunded_amount = 0;
+
+update orders o set refunded_amount = t.amount
+  from transactions t
+  where t.order_id = o.id and t.escrow_status = 'refunded' and o.refunded_amount = 0;
+
+commit;
@@ -0,0 +1,10 @@
+-- At most one payment per order that is in progress or has taken money, so
+-- two concurrent payment requests cannot both go through
+
+begin;
+
+create unique index if not exists transactions_one_open_payment_per_order_idx
+  on transactions (order_id)
+  where status in ('pending', 'completed', 'refunded');
+
+commit;
@@ -0,0 +1,24 @@
+-- Daily USD/ZWL exchange rates, and the rate each order was converted at
+
+begin;
+
+create table if not exists exchange_rates (
+  id uuid primary key default gen_random_uuid(),
+  base_currency text not null,
+  quote_currency text not null,
+  rate numeric not null check (rate > 0),
+  effective_date date not null,
+  source text not null default 'manual' check (source in ('manual', 'import')),
+  created_by uuid references users (id),
+  created_at timestamptz not null default now(),
+  unique (base_currency, quote_currency, effective_date),
+  check (base_currency <> quote_currency)
+);
+
+alter table orders
+  add column if not exists listing_amount numeric,
+  add column if not exists listing_currency text,
+  add column if not exists exchange_rate numeric,
+  add column if not exists exchange_rate_date date;
+
+commit;
@@ -0,0 +1,75 @@
+-- Double-entry ledger behind seller wallets, and seller payouts.
+-- seller_balances stays as the running balance of each wallet.
+
+begin;
+
+create table if not exists ledger_entries (
+  id uuid primary key default gen_random_uuid(),
+  journal_id uuid not null,
+  account text not null check (account in (
+    'cash', 'escrow', 'seller_wallet', 'payouts_pending', 'platform_fees', 'opening_balance'
+  )),
+  user_id uuid references users (id),
+  currency text not null,
+  debit numeric not null default 0 check (debit >= 0),
+  credit numeric not null default 0 check (credit >= 0),
+  entry_type text not null,
+  reference_type text,
+  reference_id uuid,
+  description text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ledger_entries_journal_idx on ledger_entries (journal_id);
+create index if not exists ledger_entries_wallet_idx
+  on ledger_entries (account, user_id, created_at desc);
+
+create table if not exists payouts (
+  id uuid primary key default gen_random_uuid(),
+  seller_id uuid not null references users (id),
+  amount numeric not null check (amount > 0),
+  currency text not null default 'USD',
+  method text not null check (method in ('mobile_money', 'bank_transfer')),
+  destination jsonb not null,
+  status text not null default 'pending' check (status in ('pending', 'paid', 'rejected')),
+  payment_reference text,
+  rejection_reason text,
+  reviewed_by uuid references users (id),
+  reviewed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists payouts_seller_idx on payouts (seller_id, created_at desc);
+
+-- Wallet balances credited before the ledger existed become opening balances
+with opening as (
+  select gen_random_uuid() as journal_id, seller_id, currency, available_amount
+  from seller_balances
+  where available_amount <> 0
+)
+insert into ledger_entries (journal_id, account, user_id, currency, debit, credit, entry_type, description)
+  select journal_id, 'opening_balance', null, currency,
+         greatest(available_amount, 0), greatest(-available_amount, 0),
+         'opening_balance', 'Opening balance'
+  from opening
+  union all
+  select journal_id, 'seller_wallet', seller_id, currency,
+         greatest(-available_amount, 0), greatest(available_amount, 0),
+         'opening_balance', 'Opening balance'
+  from opening;
+
+-- Funds currently held in escrow
+with held as (
+  select gen_random_uuid() as journal_id, id, order_id, amount - refunded_amount as amount,
+         coalesce(currency, 'USD') as currency
+  from transactions
+  where escrow_status = 'held' and amount > refunded_amount
+)
+insert into ledger_entries (journal_id, account, currency, debit, credit, entry_type, reference_type, reference_id, description)
+  select journal_id, 'cash', currency, amount, 0, 'payment', 'transaction', id, 'Payment for order ' || order_id
+  from held
+  union all
+  select journal_id, 'escrow', currency, 0, amount, 'payment', 'transaction', id, 'Payment for order ' || order_id
+  from held;
+
+commit;
@@ -0,0 +1,49 @@
+-- Buyer/seller disputes on orders. While a dispute is active the order's
+-- escrowed payment is frozen and the seller's payouts are on hold.
+
+begin;
+
+create table if not exists disputes (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references orders (id) on delete cascade,
+  buyer_id uuid not null references users (id),
+  seller_id uuid not null references users (id),
+  reason text not null,
+  description text not null,
+  evidence_urls text[] not null default '{}',
+  status text not null default 'open'
+    check (status in ('open', 'under_review', 'resolved', 'withdrawn')),
+  resolution text check (resolution in ('refund', 'partial_refund', 'release')),
+  refund_amount numeric,
+  resolution_note text,
+  resolved_by uuid references users (id),
+  resolved_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- One active dispute per order
+create unique index if not exists disputes_one_active_per_order
+  on disputes (order_id) where status in ('open', 'under_review');
+
+create index if not exists disputes_seller_status_idx on disputes (seller_id, status);
+create index if not exists disputes_buyer_idx on disputes (buyer_id, created_at desc);
+
+create table if not exists dispute_messages (
+  id uuid primary key default gen_random_uuid(),
+  dispute_id uuid not null references disputes (id) on delete cascade,
+  sender_id uuid not null references users (id),
+  sender_role text not null check (sender_role in ('buyer', 'seller', 'admin')),
+  message text not null,
+  attachment_urls text[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists dispute_messages_dispute_idx
+  on dispute_messages (dispute_id, created_at);
+
+alter table transactions drop constraint if exists transactions_escrow_status_check;
+alter table transactions add constraint transactions_escrow_status_check
+  check (escrow_status in ('held', 'frozen', 'released', 'refunded'));
+
+commit;
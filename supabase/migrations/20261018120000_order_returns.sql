@@ -0,0 +1,19 @@
+-- Returns: seller-defined return policy on listings, and the return details
+-- of an order (return_requested -> returned -> refunded).
+
+begin;
+
+alter table listings
+  add column if not exists return_policy text not null default 'none'
+    check (return_policy in ('none', '7_days', '14_days'));
+
+alter table orders
+  add column if not exists return_reason text,
+  add column if not exists return_requested_at timestamptz,
+  add column if not exists return_tracking_number text,
+  add column if not exists return_carrier text,
+  add column if not exists return_estimated_delivery timestamptz,
+  add column if not exists return_shipped_at timestamptz,
+  add column if not exists returned_at timestamptz;
+
+commit;
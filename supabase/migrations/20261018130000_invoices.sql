@@ -0,0 +1,17 @@
+-- Order invoices, numbered sequentially per seller.
+
+begin;
+
+create table if not exists invoices (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null unique references orders (id) on delete cascade,
+  seller_id uuid not null references users (id),
+  sequence integer not null check (sequence > 0),
+  invoice_number text not null,
+  issued_at timestamptz not null default now(),
+  unique (seller_id, sequence)
+);
+
+alter table users add column if not exists tax_id text;
+
+commit;
@@ -0,0 +1,27 @@
+-- Delivery options per listing with fees by destination city, and the
+-- delivery chosen for each order. shipping_fee is paid on top of total_amount.
+
+begin;
+
+create table if not exists listing_delivery_options (
+  id uuid primary key default gen_random_uuid(),
+  listing_id uuid not null references listings (id) on delete cascade,
+  method text not null
+    check (method in ('collection', 'local_courier', 'zimpost', 'bus_parcel')),
+  -- null: every city without its own fee
+  destination_city text,
+  fee numeric not null default 0 check (fee >= 0),
+  estimated_days integer check (estimated_days >= 0),
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists listing_delivery_options_unique
+  on listing_delivery_options (listing_id, method, lower(coalesce(destination_city, '')));
+
+alter table orders
+  add column if not exists delivery_method text
+    check (delivery_method in ('collection', 'local_courier', 'zimpost', 'bus_parcel')),
+  add column if not exists delivery_city text,
+  add column if not exists shipping_fee numeric not null default 0 check (shipping_fee >= 0);
+
+commit;
@@ -0,0 +1,15 @@
+-- One-time codes confirming cash handovers at meet-ups. Kept apart from
+-- orders so the seller can never read the code hash.
+
+begin;
+
+create table if not exists order_handover_codes (
+  order_id uuid primary key references orders (id) on delete cascade,
+  code_hash text not null,
+  failed_attempts integer not null default 0,
+  locked_until timestamptz,
+  used_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+commit;
@@ -0,0 +1,20 @@
+-- Paying a checkout's payment intent charges the buyer once and records one
+-- transaction per order, all sharing the provider reference of that charge
+
+begin;
+
+alter table transactions
+  add column if not exists payment_intent_id uuid references payment_intents (id);
+
+create index if not exists transactions_payment_intent_id_idx
+  on transactions (payment_intent_id);
+
+-- A provider reference belongs to one transaction, or to all transactions of
+-- one payment intent
+drop index if exists transactions_provider_reference_idx;
+
+create unique index if not exists transactions_provider_reference_idx
+  on transactions (payment_method, provider_reference)
+  where provider_reference is not null and payment_intent_id is null;
+
+commit;
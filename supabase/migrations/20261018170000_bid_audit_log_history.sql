@@ -0,0 +1,11 @@
+-- The bid audit trail outlives the bids and auctions it describes: deleting a
+-- listing removes its auction and bids, but not their audit entries, so the
+-- log keeps the ids without foreign keys
+
+begin;
+
+alter table bid_audit_log
+  drop constraint if exists bid_audit_log_auction_id_fkey,
+  drop constraint if exists bid_audit_log_bid_id_fkey;
+
+commit;